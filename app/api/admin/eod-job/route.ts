@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  fmtYmd,
+  latestTradeDate,
+  listEodJobRuns,
+  MAX_BACKFILL_DAYS,
+  runEodJob,
+  shiftYmd,
+} from "@/lib/indicator-snapshots";
+
+/**
+ * GET /api/admin/eod-job?limit=30
+ * 最近的收盘任务执行记录（新的在前）
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const limit = Number(searchParams.get("limit") || 30);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    return NextResponse.json({ error: "limit 必须是 1-200 之间的整数" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await listEodJobRuns(limit));
+  } catch (error: any) {
+    console.error("GET /api/admin/eod-job error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取收盘任务记录失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/eod-job
+ * 立即运行收盘任务，或回填一段日期的指标快照（已有的覆盖）
+ * Body（可选）：{ from?: "YYYY-MM-DD", to?: "YYYY-MM-DD" }，都不传时为最近一个交易日，
+ *   只传 from 时 to 为今天；区间最长 MAX_BACKFILL_DAYS 个自然日
+ * 返回：{ runs: EodJobRun[], failedCodes: string[] }；已有任务在运行时返回 409
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  for (const d of [body?.from, body?.to]) {
+    if (d !== undefined && (typeof d !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(d))) {
+      return NextResponse.json({ error: `无效的日期: ${d}（格式 YYYY-MM-DD）` }, { status: 400 });
+    }
+  }
+  if (body?.to && !body?.from) {
+    return NextResponse.json({ error: "指定 to 时需要同时指定 from" }, { status: 400 });
+  }
+
+  try {
+    const today = fmtYmd(new Date());
+    let from: string;
+    let to: string;
+    if (body?.from) {
+      from = body.from.replace(/-/g, "");
+      to = body.to ? body.to.replace(/-/g, "") : today;
+    } else {
+      const latest = await latestTradeDate(today);
+      if (!latest) {
+        return NextResponse.json({ error: "近期没有交易日" }, { status: 400 });
+      }
+      from = to = latest;
+    }
+    if (from > to) {
+      return NextResponse.json({ error: "from 不能晚于 to" }, { status: 400 });
+    }
+    if (to > today) {
+      return NextResponse.json({ error: "不能计算未来日期的快照" }, { status: 400 });
+    }
+    if (shiftYmd(from, MAX_BACKFILL_DAYS) < to) {
+      return NextResponse.json(
+        { error: `单次最多回填 ${MAX_BACKFILL_DAYS} 天，请分段执行` },
+        { status: 400 }
+      );
+    }
+
+    const result = await runEodJob(from, to);
+    if (!result) {
+      return NextResponse.json({ error: "收盘任务正在运行，请稍后再试" }, { status: 409 });
+    }
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error("POST /api/admin/eod-job error:", error);
+    return NextResponse.json(
+      { error: error.message || "运行收盘任务失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteChatThread,
+  getChatThread,
+  toChatThreadData,
+  updateChatThread,
+  type ChatThreadInput,
+} from "@/lib/chat-threads";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// GET: 单个对话（含全部消息）
+export async function GET(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的对话 id" }, { status: 400 });
+  }
+
+  try {
+    const thread = await getChatThread(id);
+    if (!thread) {
+      return NextResponse.json({ error: "对话不存在" }, { status: 404 });
+    }
+    return NextResponse.json(thread);
+  } catch (error: any) {
+    console.error(`GET /api/ai/chat-threads/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "获取对话失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH: 改名或修改关联
+ * Body: { title?: string, date?: "YYYY-MM-DD" | null, code?: "000001" | null }
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的对话 id" }, { status: 400 });
+  }
+
+  let patch: ChatThreadInput;
+  try {
+    patch = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  try {
+    toChatThreadData(patch);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const thread = await updateChatThread(id, patch);
+    if (!thread) {
+      return NextResponse.json({ error: "对话不存在" }, { status: 404 });
+    }
+    return NextResponse.json(thread);
+  } catch (error: any) {
+    console.error(`PATCH /api/ai/chat-threads/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "修改对话失败" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 删除对话及其消息
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的对话 id" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteChatThread(id))) {
+      return NextResponse.json({ error: "对话不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/ai/chat-threads/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "删除对话失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createChatThread,
+  listChatThreads,
+  toChatThreadData,
+  type ChatThreadInput,
+} from "@/lib/chat-threads";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/ai/chat-threads?date=YYYY-MM-DD&code=000001&limit=50
+ * 询问 AI 对话列表（最近更新的在前），不含消息
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const date = searchParams.get("date");
+  const code = searchParams.get("code");
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+  if (date && isNaN(new Date(date).getTime())) {
+    return NextResponse.json({ error: `无效的日期格式: ${date}` }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit 必须是 1-${MAX_LIMIT} 的整数` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const threads = await listChatThreads({
+      date: date ?? undefined,
+      code: code ?? undefined,
+      limit,
+    });
+    return NextResponse.json(threads);
+  } catch (error: any) {
+    console.error("GET /api/ai/chat-threads error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取对话列表失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai/chat-threads
+ * 新建对话
+ * Body: { title?: string, date?: "YYYY-MM-DD", code?: "000001" }
+ */
+export async function POST(req: NextRequest) {
+  let input: ChatThreadInput;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  try {
+    toChatThreadData(input);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createChatThread(input), { status: 201 });
+  } catch (error: any) {
+    console.error("POST /api/ai/chat-threads error:", error);
+    return NextResponse.json(
+      { error: error.message || "新建对话失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,59 +1,155 @@
 import { NextRequest, NextResponse } from "next/server";
+import { readChatCompletion, sseResponse } from "@/lib/ai-stream";
+import { CHAT_TOOLS, runChatTool } from "@/lib/ai-chat-tools";
+import { appendChatMessage, getChatThread } from "@/lib/chat-threads";
+import { createChatCompletion, getLLMConfig, getLLMConfigError } from "@/lib/llm";
 
-const OPENAI_CHAT_URL = "https://api.openai.com/v1/chat/completions";
+// 单次提问最多的工具调用轮数，最后一轮不再提供工具，要求模型直接回答
+const MAX_TOOL_ROUNDS = 5;
+
+function systemPrompt(today: string, link: { date: string | null; code: string | null }): string {
+  const context = [
+    link.date ? `本对话关联交易日 ${link.date}，未指明日期时以该日为准。` : "",
+    link.code ? `本对话关联个股 ${link.code}，未指明个股时以该股为准。` : "",
+  ].join("");
+  return `你是A股复盘助手，今天是 ${today}。${context}
+用户的问题涉及信号记录、板块、均线或涨停时，先调用工具查询本地信号库与行情，再根据查询结果回答，不要编造数据；查询不到时如实说明。
+日期用 YYYY-MM-DD；「上周」「近一周」等相对日期按今天换算。回答简洁，列出关键数字。`;
+}
+
+async function upstreamError(res: Response): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return `AI 服务异常: ${data?.error?.message || data?.error || JSON.stringify(data)}`;
+}
 
 /**
  * POST /api/ai/chat
- * 代理到 OpenAI ChatGPT 接口
- * Body: { messages: [{ role: "user"|"assistant"|"system", content: string }] }
+ * 代理到配置的 OpenAI 兼容接口（见 lib/llm.ts），以 SSE 流式返回（事件见 lib/ai-stream.ts）
+ * Body: { threadId: number, content: string, model?: string }
+ *   追加到已保存的对话（lib/chat-threads.ts）：提问在上游接受请求后保存，回答结束、中断或取消时保存（中断时保存已生成的部分）
+ *   done / error 事件附带保存的 message
+ * 或 Body: { messages: [{ role: "user"|"assistant"|"system", content: string }], model?: string }（不保存）
+ * model 不填时使用 LLM_CHAT_MODEL
+ * 模型可调用 lib/ai-chat-tools.ts 中的工具查询信号库（每次调用发送 tool 事件），结果回传后继续生成
+ * 上游中断时发送 error 事件并附带已生成的 partial
  */
 export async function POST(req: NextRequest) {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    return NextResponse.json(
-      { error: "未配置 AI API Key（OPENAI_API_KEY）" },
-      { status: 500 }
-    );
-  }
-
   try {
     const body = await req.json();
-    const { messages } = body;
 
-    if (!Array.isArray(messages) || messages.length === 0) {
-      return NextResponse.json(
-        { error: "缺少 messages 参数" },
-        { status: 400 }
-      );
+    const llm = getLLMConfig("chat", typeof body.model === "string" ? body.model : undefined);
+    const configError = getLLMConfigError(llm);
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    const res = await fetch(OPENAI_CHAT_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${key}`,
-      },
-      body: JSON.stringify({
-        model: body.model || "gpt-4o-mini",
-        messages,
-        stream: false,
-      }),
-    });
+    let messages: { role: string; content: string }[];
+    let link: { date: string | null; code: string | null } = { date: null, code: null };
+    const threadId = body.threadId === undefined ? null : Number(body.threadId);
+    if (threadId !== null) {
+      if (!Number.isInteger(threadId) || threadId <= 0) {
+        return NextResponse.json({ error: "无效的对话 id" }, { status: 400 });
+      }
+      const content = typeof body.content === "string" ? body.content.trim() : "";
+      if (!content) {
+        return NextResponse.json({ error: "缺少 content 参数" }, { status: 400 });
+      }
+      const thread = await getChatThread(threadId);
+      if (!thread) {
+        return NextResponse.json({ error: "对话不存在" }, { status: 404 });
+      }
+      messages = [
+        ...thread.messages.map((m) => ({ role: m.role, content: m.content })),
+        { role: "user", content },
+      ];
+      link = { date: thread.date, code: thread.code };
+    } else {
+      messages = body.messages;
+      if (!Array.isArray(messages) || messages.length === 0) {
+        return NextResponse.json(
+          { error: "缺少 messages 参数" },
+          { status: 400 }
+        );
+      }
+    }
 
-    const data = await res.json();
+    const conversation: any[] = [
+      { role: "system", content: systemPrompt(new Date().toISOString().slice(0, 10), link) },
+      ...messages,
+    ];
+    const upstream = new AbortController();
+    req.signal.addEventListener("abort", () => upstream.abort());
+    const request = (withTools: boolean) =>
+      createChatCompletion(
+        llm,
+        { messages: conversation, ...(withTools ? { tools: CHAT_TOOLS } : {}), stream: true },
+        upstream.signal
+      );
 
+    let res = await request(llm.tools);
     if (!res.ok) {
-      const errMsg =
-        data?.error?.message || data?.error || JSON.stringify(data);
-      return NextResponse.json(
-        { error: `AI 服务异常: ${errMsg}` },
-        { status: res.status }
-      );
+      return NextResponse.json({ error: await upstreamError(res) }, { status: res.status });
+    }
+    // 上游接受请求后再保存提问，请求失败时前端可直接重新发送
+    if (threadId !== null) {
+      await appendChatMessage(threadId, {
+        role: "user",
+        content: messages[messages.length - 1].content,
+      });
     }
 
-    const content =
-      data?.choices?.[0]?.message?.content ?? "";
-    return NextResponse.json({ content });
+    return sseResponse(req.signal, async (send, signal) => {
+      signal.addEventListener("abort", () => upstream.abort());
+      let content = "";
+      const tools: string[] = [];
+      // 保存回答（对话模式）；没有任何输出时不保存
+      const save = (status: "complete" | "cancelled" | "interrupted") =>
+        threadId !== null && content.trim()
+          ? appendChatMessage(threadId, { role: "assistant", content, status, tools })
+          : Promise.resolve(null);
+      try {
+        for (let round = 1; ; round++) {
+          const result = await readChatCompletion(res, (text) => {
+            content += text;
+            send("delta", { text });
+          });
+          if (result.toolCalls.length === 0) break;
+
+          conversation.push({
+            role: "assistant",
+            content: result.content || null,
+            tool_calls: result.toolCalls,
+          });
+          for (const call of result.toolCalls) {
+            send("tool", { name: call.function.name, arguments: call.function.arguments });
+            tools.push(call.function.name);
+            conversation.push({
+              role: "tool",
+              tool_call_id: call.id,
+              content: await runChatTool(call.function.name, call.function.arguments),
+            });
+          }
+          res = await request(round < MAX_TOOL_ROUNDS);
+          if (!res.ok) throw new Error(await upstreamError(res));
+        }
+      } catch (error: any) {
+        if (signal.aborted) {
+          await save("cancelled");
+          return;
+        }
+        console.error("POST /api/ai/chat stream error:", error);
+        const message = await save("interrupted");
+        send("error", {
+          error: `AI 输出中断: ${error?.message || "未知错误"}`,
+          partial: content,
+          message,
+        });
+        return;
+      }
+      // 取消时上游可能正常结束，仍按取消保存
+      const message = await save(signal.aborted ? "cancelled" : "complete");
+      send("done", { content, message });
+    });
   } catch (e: any) {
     console.error("POST /api/ai/chat error:", e);
     return NextResponse.json(
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { describeLLMConfig, getLLMConfig } from "@/lib/llm";
+
+/**
+ * GET /api/ai/config
+ * 当前 AI 模型配置摘要（不含 API Key）
+ * 返回：{ chat: AIModelInfo, review: AIModelInfo }
+ */
+export async function GET() {
+  return NextResponse.json({
+    chat: describeLLMConfig(getLLMConfig("chat")),
+    review: describeLLMConfig(getLLMConfig("review")),
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewSession } from "@/lib/review-sessions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: 单条复盘智囊生成记录（含完整输出与输入 id）
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { id: idParam } = await context.params;
+  const id = Number(idParam);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "无效的记录 id" }, { status: 400 });
+  }
+
+  try {
+    const session = await getReviewSession(id);
+    if (!session) {
+      return NextResponse.json({ error: "复盘记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(session);
+  } catch (error: any) {
+    console.error(`GET /api/ai/review-sessions/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "获取复盘记录失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listReviewSessions } from "@/lib/review-sessions";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/ai/review-sessions?date=YYYY-MM-DD&limit=50
+ * 复盘智囊生成记录摘要（新的在前），不含完整输出
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const date = searchParams.get("date");
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+  if (date && isNaN(new Date(date).getTime())) {
+    return NextResponse.json({ error: `无效的日期格式: ${date}` }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit 必须是 1-${MAX_LIMIT} 的整数` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sessions = await listReviewSessions({ date: date ?? undefined, limit });
+    return NextResponse.json(sessions);
+  } catch (error: any) {
+    console.error("GET /api/ai/review-sessions error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取复盘记录失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const OPENAI_CHAT_URL = "https://api.openai.com/v1/chat/completions";
+import { readChatDeltas, sseResponse } from "@/lib/ai-stream";
+import { createChatCompletion, getLLMConfig, getLLMConfigError } from "@/lib/llm";
+import { prisma } from "@/lib/prisma";
+import { createReviewSession } from "@/lib/review-sessions";
+import { parsePartialReviewOutput, parseReviewOutput } from "@/lib/review-verdicts";
+import { getScreenshotDataUrls } from "@/lib/sector-screenshots";
+import { SIGNAL_INCLUDE, toSignalRecord } from "@/lib/signal-db";
+import type { ReviewSessionStatus } from "@/lib/types";
 
 function formatStockData(records: any[]): string {
   if (!records || records.length === 0) return "（当日无个股数据）";
@@ -15,50 +21,61 @@ function formatStockData(records: any[]): string {
 /**
  * POST /api/ai/review-suggestions
  * 复盘智囊：根据当日板块分时图、个股数据生成操作建议
- * Body: {
- *   date: string (YYYY-MM-DD),
- *   records: SignalRecord[],
- *   sectorScreenshots: { sector: string, imageDataUrl: string }[]
- * }
+ * Body: { date: string (YYYY-MM-DD) }
+ * 当日信号记录与板块分时截图均由服务端按 date 读取，截图按时间先后附带说明发送
+ * 模型见 lib/llm.ts（LLM_REVIEW_MODEL）；不支持图片的模型只发送个股数据，不附带截图
+ * 模型以 JSON 返回 { summary, verdicts: [{ code, name, verdict, reason }] }，以 SSE 流式转发（事件见 lib/ai-stream.ts）
+ * 结束后解析并保存为 ReviewSession，done 事件为 { content, session }；JSON 无法解析时按自由文本保存
+ * 前端取消或上游中断时保存已生成的部分（status 为 cancelled / interrupted），中断时 error 事件附带 partial 与 session
  */
 export async function POST(req: NextRequest) {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    return NextResponse.json(
-      { error: "未配置 AI API Key（OPENAI_API_KEY）" },
-      { status: 500 }
-    );
+  const llm = getLLMConfig("review");
+  const configError = getLLMConfigError(llm);
+  if (configError) {
+    return NextResponse.json({ error: configError }, { status: 500 });
   }
 
   try {
     const body = await req.json();
-    const { date, records = [], sectorScreenshots = [] } = body;
+    const { date } = body;
 
-    if (!date) {
+    if (!date || isNaN(new Date(date).getTime())) {
       return NextResponse.json(
         { error: "缺少 date 参数" },
         { status: 400 }
       );
     }
 
+    const records = (
+      await prisma.signalRecord.findMany({
+        where: { date: new Date(date) },
+        orderBy: [{ score: "desc" }, { id: "asc" }],
+        include: SIGNAL_INCLUDE,
+      })
+    ).map(toSignalRecord);
+    const sectorScreenshots = llm.vision ? await getScreenshotDataUrls(date) : [];
     const stockText = formatStockData(records);
-    const sectorList = [...new Set(records.flatMap((r: any) => r.sector || []))].join("、");
+    const sectorList = [...new Set(records.flatMap((r) => r.sector))].join("、");
 
     const systemPrompt = `你是A股日内复盘顾问。根据用户提供的当日板块分时图与个股数据，输出可执行的次日操作建议。
 
 规则：
 1. 先看板块分时形态（水下拉水上、波动三角收窄等）判断板块强弱。
 2. 结合个股：换手、涨跌、市值、负债率，区分龙头与跟风。
-3. 输出格式：分条列出，每条一行或两行，每条不超过80字。标明「优先」「观察」「回避」及简要理由。
-4. 禁止空洞表述，只给具体标的与理由。`;
+3. 对每只值得给出结论的个股标明「优先」「观察」「回避」之一，理由不超过80字，禁止空洞表述。
+4. 只输出一个 JSON 对象，不要输出其他文字，格式：
+{"summary": "当日板块强弱的总体判断（不超过150字）", "verdicts": [{"code": "6位股票代码", "name": "股票名称", "verdict": "优先|观察|回避", "reason": "理由"}]}`;
 
+    const screenshotDesc = llm.vision
+      ? "三、板块分时图：下方为各板块当日分时截图，按截图时间先后排列，每张图前标注板块、时间与说明。同一板块的多张截图反映盘中演变，请根据形态判断强弱，并结合个股数据给出次日操作建议（优先/观察/回避 + 理由）。"
+      : "三、本次没有板块分时图，请根据个股数据中的板块分时形态标注判断板块强弱，并给出次日操作建议（优先/观察/回避 + 理由）。";
     const dataDesc = `【${date} 复盘数据】
 
 一、当日个股（共 ${records.length} 只）：\n${stockText}
 
 二、涉及板块：${sectorList || "无"}
 
-三、板块分时图：下方为各板块当日分时截图。请根据形态判断强弱，并结合个股数据给出次日操作建议（优先/观察/回避 + 理由）。`;
+${screenshotDesc}`;
 
     const userContent: any[] = [
       {
@@ -67,37 +84,38 @@ export async function POST(req: NextRequest) {
       },
     ];
 
-    // 添加板块分时图片（Vision 模型可识别）
+    // 添加板块分时图片（Vision 模型可识别），每张图前附上板块、时间与说明
     for (const shot of sectorScreenshots) {
-      if (shot.imageDataUrl && typeof shot.imageDataUrl === "string") {
-        userContent.push({
-          type: "image_url",
-          image_url: {
-            url: shot.imageDataUrl,
-          },
-        });
-      }
+      userContent.push({
+        type: "text",
+        text: `【${shot.sector} ${shot.captureTime}】${shot.caption ?? ""}`,
+      });
+      userContent.push({
+        type: "image_url",
+        image_url: {
+          url: shot.imageDataUrl,
+        },
+      });
     }
 
-    const res = await fetch(OPENAI_CHAT_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${key}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
+    const upstream = new AbortController();
+    req.signal.addEventListener("abort", () => upstream.abort());
+    const res = await createChatCompletion(
+      llm,
+      {
         messages: [
           { role: "system", content: systemPrompt },
-          { role: "user", content: userContent },
+          // 不支持图片的模型只发送纯文本内容
+          { role: "user", content: llm.vision ? userContent : dataDesc },
         ],
-        stream: false,
-      }),
-    });
-
-    const data = await res.json();
+        ...(llm.jsonMode ? { response_format: { type: "json_object" } } : {}),
+        stream: true,
+      },
+      upstream.signal
+    );
 
     if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
       const errMsg =
         data?.error?.message || data?.error || JSON.stringify(data);
       return NextResponse.json(
@@ -106,8 +124,50 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const content = data?.choices?.[0]?.message?.content ?? "";
-    return NextResponse.json({ content });
+    const save = (content: string, status: ReviewSessionStatus) => {
+      const parsed =
+        status === "complete" ? parseReviewOutput(content) : parsePartialReviewOutput(content);
+      if (!parsed && status === "complete") {
+        console.warn(`POST /api/ai/review-suggestions: ${date} 的输出不是合法 JSON，按自由文本保存`);
+      }
+      return createReviewSession({
+        date,
+        model: llm.model,
+        recordIds: records.map((r) => r.id!),
+        screenshotIds: sectorScreenshots.map((s) => s.id),
+        output: parsed ? parsed.summary : content,
+        verdicts: parsed?.verdicts ?? [],
+        status,
+      });
+    };
+
+    return sseResponse(req.signal, async (send, signal) => {
+      signal.addEventListener("abort", () => upstream.abort());
+      let content = "";
+      try {
+        for await (const text of readChatDeltas(res)) {
+          content += text;
+          send("delta", { text });
+        }
+      } catch (error: any) {
+        if (!content.trim()) {
+          if (!signal.aborted) send("error", { error: `AI 输出中断: ${error?.message || "未知错误"}` });
+          return;
+        }
+        const status = signal.aborted ? "cancelled" : "interrupted";
+        const session = await save(content, status);
+        console.warn(`POST /api/ai/review-suggestions: ${date} 生成${status === "cancelled" ? "已取消" : "中断"}，已保存部分输出 #${session.id}`);
+        send("error", {
+          error: `AI 输出中断: ${error?.message || "未知错误"}`,
+          partial: content,
+          session,
+        });
+        return;
+      }
+      // 取消时上游可能正常结束，仍按取消保存
+      const session = await save(content, signal.aborted ? "cancelled" : "complete");
+      send("done", { content, session });
+    });
   } catch (e: any) {
     console.error("POST /api/ai/review-suggestions error:", e);
     return NextResponse.json(
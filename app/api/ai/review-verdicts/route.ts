@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewHitStats, gradeReviewVerdicts } from "@/lib/review-verdicts";
+
+/**
+ * GET /api/ai/review-verdicts?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * 复盘智囊结论命中率（按优先/观察/回避分组，每个日期只取最近一次生成）
+ * 返回：ReviewHitStat[]
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const from = searchParams.get("from") || undefined;
+  const to = searchParams.get("to") || undefined;
+  for (const d of [from, to]) {
+    if (d && isNaN(new Date(d).getTime())) {
+      return NextResponse.json({ error: `无效的日期格式: ${d}` }, { status: 400 });
+    }
+  }
+
+  try {
+    return NextResponse.json(await getReviewHitStats({ from, to }));
+  } catch (error: any) {
+    console.error("GET /api/ai/review-verdicts error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取命中率统计失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai/review-verdicts
+ * 用次一交易日行情评估尚未评估的结论（当天评估失败过的结论跳过，明天再试）
+ * Body（可选）：{ maxCodes?: number } 单次最多处理的股票数，默认 50
+ * 返回：{ graded, failed, remaining, skipped }，remaining > 0 时可再次调用，skipped 为当天已失败而跳过的结论数
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const maxCodes = Number(body?.maxCodes) || 50;
+  if (!Number.isInteger(maxCodes) || maxCodes < 1 || maxCodes > 200) {
+    return NextResponse.json(
+      { error: "maxCodes 必须是 1-200 之间的整数" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await gradeReviewVerdicts(maxCodes));
+  } catch (error: any) {
+    console.error("POST /api/ai/review-verdicts error:", error);
+    return NextResponse.json(
+      { error: error.message || "评估结论失败" },
+      { status: 500 }
+    );
+  }
+}
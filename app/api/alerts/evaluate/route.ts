@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { evaluateAlerts } from "@/lib/alerts-db";
+
+/**
+ * POST /api/alerts/evaluate
+ * 评估所有启用的提醒规则；每个交易日收盘后由 lib/eod-scheduler.ts 定时调用（失败时重试），也可在提醒中心手动触发
+ * 返回：{ checked, triggered, failed }
+ */
+export async function POST() {
+  try {
+    return NextResponse.json(await evaluateAlerts());
+  } catch (error: any) {
+    console.error("POST /api/alerts/evaluate error:", error);
+    return NextResponse.json(
+      { error: error.message || "评估提醒规则失败" },
+      { status: 500 }
+    );
+  }
+}
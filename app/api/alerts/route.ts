@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAlertEvents, markAlertsRead } from "@/lib/alerts-db";
+
+/**
+ * GET /api/alerts?unread=1&limit=50
+ * 最近触发的提醒（新的在前）
+ * 返回：{ events: AlertEvent[], unread: number }，unread 为未读总数
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const unreadOnly = searchParams.get("unread") === "1";
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: `无效的 limit: ${limitParam}` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await listAlertEvents({ unreadOnly, limit }));
+  } catch (error: any) {
+    console.error("GET /api/alerts error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取提醒失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/alerts
+ * 标记已读
+ * Body: { ids: number[] } 或 { all: true }
+ * 返回：{ updated: number }
+ */
+export async function PATCH(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  const all = body?.all === true;
+  const ids = body?.ids;
+  if (
+    !all &&
+    (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id) && (id as number) > 0))
+  ) {
+    return NextResponse.json(
+      { error: "需要 ids（正整数数组）或 all: true" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await markAlertsRead(all ? "all" : ids);
+    return NextResponse.json({ updated });
+  } catch (error: any) {
+    console.error("PATCH /api/alerts error:", error);
+    return NextResponse.json(
+      { error: error.message || "标记已读失败" },
+      { status: 500 }
+    );
+  }
+}
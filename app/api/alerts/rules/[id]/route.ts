@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAlertRule, updateAlertRule } from "@/lib/alerts-db";
+import { toAlertThreshold } from "@/lib/alerts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * PATCH /api/alerts/rules/[id]
+ * 启用/停用规则或修改接近阈值
+ * Body: { enabled?: boolean, threshold?: number | null }
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的规则 id" }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (body?.enabled !== undefined && typeof body.enabled !== "boolean") {
+    return NextResponse.json({ error: "enabled 必须是布尔值" }, { status: 400 });
+  }
+  let threshold: number | null | undefined;
+  try {
+    threshold = body?.threshold === undefined ? undefined : toAlertThreshold(body.threshold);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const rule = await updateAlertRule(id, { enabled: body?.enabled, threshold });
+    if (!rule) {
+      return NextResponse.json({ error: "提醒规则不存在" }, { status: 404 });
+    }
+    return NextResponse.json(rule);
+  } catch (error: any) {
+    console.error(`PATCH /api/alerts/rules/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "修改提醒规则失败" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 删除规则（连同已触发的提醒）
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的规则 id" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteAlertRule(id);
+    if (!deleted) {
+      return NextResponse.json({ error: "提醒规则不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/alerts/rules/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "删除提醒规则失败" },
+      { status: 500 }
+    );
+  }
+}
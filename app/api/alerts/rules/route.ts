@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAlertRule, listAlertRules } from "@/lib/alerts-db";
+import { ALERT_KINDS, isAlertKind, toAlertThreshold } from "@/lib/alerts";
+
+/**
+ * GET /api/alerts/rules?code=000001 | ?global=1
+ * 提醒规则：指定 code 时只返回该股票的规则，global=1 时只返回全局规则，否则返回全部
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const code = searchParams.get("code");
+  const global = searchParams.get("global") === "1";
+
+  try {
+    const rules = await listAlertRules(global ? null : code || undefined);
+    return NextResponse.json(rules);
+  } catch (error: any) {
+    console.error("GET /api/alerts/rules error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取提醒规则失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/alerts/rules
+ * 新增提醒规则
+ * Body: { code?: "000001" | null, kind: AlertKind, threshold?: number }，code 为空表示全局规则
+ */
+export async function POST(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  if (!isAlertKind(body.kind)) {
+    return NextResponse.json(
+      { error: `无效的规则类型: ${body.kind}，可选：${ALERT_KINDS.join("、")}` },
+      { status: 400 }
+    );
+  }
+  let code: string | null = null;
+  if (body.code !== undefined && body.code !== null && body.code !== "") {
+    code = String(body.code).replace(/\.(SH|SZ|BJ)$/i, "").trim();
+    if (!/^\d{6}$/.test(code)) {
+      return NextResponse.json({ error: `无效的股票代码: ${body.code}` }, { status: 400 });
+    }
+  }
+  let threshold: number | null;
+  try {
+    threshold = toAlertThreshold(body.threshold);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const rule = await createAlertRule({ code, kind: body.kind, threshold });
+    if (!rule) {
+      return NextResponse.json(
+        { error: `${code ?? "全局"}已有同类提醒规则` },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error: any) {
+    console.error("POST /api/alerts/rules error:", error);
+    return NextResponse.json(
+      { error: error.message || "新增提醒规则失败" },
+      { status: 500 }
+    );
+  }
+}
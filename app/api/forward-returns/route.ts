@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { evaluateForwardReturns, getForwardReturnStats } from "@/lib/forward-returns";
+
+/**
+ * GET /api/forward-returns?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * 返回：{ byScore: ForwardReturnStat[], byPattern: ForwardReturnStat[] }
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const from = searchParams.get("from") || undefined;
+  const to = searchParams.get("to") || undefined;
+  for (const d of [from, to]) {
+    if (d && isNaN(new Date(d).getTime())) {
+      return NextResponse.json({ error: `无效的日期格式: ${d}` }, { status: 400 });
+    }
+  }
+
+  try {
+    return NextResponse.json(await getForwardReturnStats({ from, to }));
+  } catch (error: any) {
+    console.error("GET /api/forward-returns error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取后续表现统计失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/forward-returns
+ * 评估待更新记录的后续表现（未评估过，或交易日未满 10 天；取不到行情的记录隔几天再试）
+ * Body（可选）：{ maxCodes?: number } 单次最多处理的股票数，默认 50
+ * 返回：{ evaluated, failed, remaining, skipped }，remaining > 0 时可再次调用，skipped 为退避期内跳过的失败记录数
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const maxCodes = Number(body?.maxCodes) || 50;
+  if (!Number.isInteger(maxCodes) || maxCodes < 1 || maxCodes > 200) {
+    return NextResponse.json(
+      { error: "maxCodes 必须是 1-200 之间的整数" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await evaluateForwardReturns(maxCodes));
+  } catch (error: any) {
+    console.error("POST /api/forward-returns error:", error);
+    return NextResponse.json(
+      { error: error.message || "评估后续表现失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { activateRuleSet } from "@/lib/scoring-db";
+
+type RouteContext = { params: Promise<{ version: string }> };
+
+/**
+ * PATCH: 重新启用某个历史版本
+ * Body: { active: true }
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const { version: param } = await context.params;
+  const version = Number(param);
+  if (!Number.isInteger(version) || version <= 0) {
+    return NextResponse.json({ error: "无效的规则版本" }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.active !== true) {
+      return NextResponse.json(
+        { error: "仅支持 { active: true } 启用该版本" },
+        { status: 400 }
+      );
+    }
+    const ruleSet = await activateRuleSet(version);
+    if (!ruleSet) {
+      return NextResponse.json({ error: `规则版本 v${version} 不存在` }, { status: 404 });
+    }
+    return NextResponse.json(ruleSet);
+  } catch (error: any) {
+    console.error(`PATCH /api/scoring-rules/${version} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "启用评分规则失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { rescoreAllRecords } from "@/lib/scoring-db";
+
+/**
+ * POST: 用当前生效的评分规则重新评分全部信号记录
+ * 返回：{ version, updated, total }
+ */
+export async function POST() {
+  try {
+    const result = await rescoreAllRecords();
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error("POST /api/scoring-rules/rescore error:", error);
+    return NextResponse.json(
+      { error: error.message || "重新评分失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { validateScoringRules } from "@/lib/scoring";
+import { createRuleSet, toScoringRuleSet } from "@/lib/scoring-db";
+
+// GET: 全部评分规则版本（新版本在前）
+export async function GET() {
+  try {
+    const rows = await prisma.scoringRuleSet.findMany({
+      orderBy: { version: "desc" },
+    });
+    return NextResponse.json(rows.map(toScoringRuleSet));
+  } catch (error: any) {
+    console.error("GET /api/scoring-rules error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取评分规则失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: 保存为新的评分规则版本并设为生效
+ * Body: { name: string, rules: ScoringRule[] }
+ * 已有记录的评分不会自动变化，需调用 /api/scoring-rules/rescore 重新评分
+ * 同时保存导致版本号冲突且重试后仍失败时返回 409
+ */
+export async function POST(req: NextRequest) {
+  let name: string;
+  let rules;
+  try {
+    const body = await req.json();
+    name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json({ error: "规则名称不能为空" }, { status: 400 });
+    }
+    if (name.length > 64) {
+      return NextResponse.json({ error: "规则名称不能超过 64 个字符" }, { status: 400 });
+    }
+    rules = validateScoringRules(body?.rules);
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "数据格式错误" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ruleSet = await createRuleSet(name, rules);
+    if (!ruleSet) {
+      return NextResponse.json(
+        { error: "评分规则正在被同时保存，请刷新后重试" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(ruleSet);
+  } catch (error: any) {
+    console.error("POST /api/scoring-rules error:", error);
+    return NextResponse.json(
+      { error: error.message || "保存评分规则失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteSectorScreenshot,
+  isCaptureTime,
+  updateSectorScreenshot,
+} from "@/lib/sector-screenshots";
+import type { SectorScreenshotPatch } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * PATCH: 修改截图时间或说明
+ * Body: { captureTime?: "HH:mm", caption?: string | null }
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的截图 id" }, { status: 400 });
+  }
+
+  let patch: SectorScreenshotPatch;
+  try {
+    patch = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  if (patch.captureTime !== undefined && !isCaptureTime(patch.captureTime)) {
+    return NextResponse.json({ error: "截图时间格式错误，应为 HH:mm" }, { status: 400 });
+  }
+  if (
+    patch.caption !== undefined &&
+    patch.caption !== null &&
+    (typeof patch.caption !== "string" || patch.caption.length > 200)
+  ) {
+    return NextResponse.json({ error: "截图说明不能超过 200 字" }, { status: 400 });
+  }
+
+  try {
+    const screenshot = await updateSectorScreenshot(id, patch);
+    if (!screenshot) {
+      return NextResponse.json({ error: "截图不存在" }, { status: 404 });
+    }
+    return NextResponse.json(screenshot);
+  } catch (error: any) {
+    console.error(`PATCH /api/sector-screenshots/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "修改截图失败" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 删除单张截图
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的截图 id" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteSectorScreenshot(id))) {
+      return NextResponse.json({ error: "截图不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/sector-screenshots/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "删除截图失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readImage } from "@/lib/image-storage";
+
+type RouteContext = { params: Promise<{ file: string }> };
+
+/**
+ * GET /api/sector-screenshots/images/<hash>.<ext>         原图
+ * GET /api/sector-screenshots/images/<hash>.thumb.webp    缩略图
+ * 文件名即内容哈希，内容不会变化，允许浏览器长期缓存
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { file } = await context.params;
+  const etag = `"${file}"`;
+  if (req.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  try {
+    const image = await readImage(file);
+    if (!image) {
+      return NextResponse.json({ error: "图片不存在" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        "Content-Type": image.mimeType,
+        "Content-Length": String(image.data.length),
+        "Cache-Control": "public, max-age=31536000, immutable",
+        ETag: etag,
+      },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/sector-screenshots/images/${file} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "读取图片失败" },
+      { status: 500 }
+    );
+  }
+}
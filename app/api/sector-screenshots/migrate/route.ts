@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { migrateLegacyScreenshots } from "@/lib/sector-screenshots";
+
+/**
+ * POST /api/sector-screenshots/migrate
+ * Body（可选）: { batchSize?: number, retryFailed?: boolean }  batchSize 默认 20，最大 200
+ * 把旧版存于数据库的 Data URL 截图写入文件存储并生成缩略图；迁移失败过的记录默认跳过，retryFailed 时重新迁移
+ * 返回 { migrated, failed, remaining, skipped }，remaining 大于 0 时可继续调用，skipped 为累计迁移失败的条数
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const batchSize = body?.batchSize ?? 20;
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 200) {
+    return NextResponse.json({ error: "batchSize 必须是 1-200 的整数" }, { status: 400 });
+  }
+  const retryFailed = body?.retryFailed ?? false;
+  if (typeof retryFailed !== "boolean") {
+    return NextResponse.json({ error: "retryFailed 必须是布尔值" }, { status: 400 });
+  }
+
+  try {
+    const result = await migrateLegacyScreenshots(batchSize, retryFailed);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error("POST /api/sector-screenshots/migrate error:", error);
+    return NextResponse.json(
+      { error: error.message || "迁移截图失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reorderSectorScreenshots } from "@/lib/sector-screenshots";
+
+/**
+ * PUT /api/sector-screenshots/order
+ * Body: { date: "YYYY-MM-DD", sector: string, ids: number[] }
+ * ids 为该日期 + 板块全部截图的新顺序；返回重排后的截图列表
+ */
+export async function PUT(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const { date, sector, ids } = body ?? {};
+  if (
+    typeof date !== "string" ||
+    isNaN(new Date(date).getTime()) ||
+    typeof sector !== "string" ||
+    !sector ||
+    !Array.isArray(ids) ||
+    !ids.every((id: unknown) => Number.isInteger(id))
+  ) {
+    return NextResponse.json(
+      { error: "数据格式错误：需要 date、sector 与 ids（整数数组）" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const screenshots = await reorderSectorScreenshots(date, sector, ids);
+    if (!screenshots) {
+      return NextResponse.json(
+        { error: "ids 与该板块当天的截图不一致，请刷新后重试" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(screenshots);
+  } catch (error: any) {
+    console.error("PUT /api/sector-screenshots/order error:", error);
+    return NextResponse.json(
+      { error: error.message || "调整截图顺序失败" },
+      { status: 500 }
+    );
+  }
+}
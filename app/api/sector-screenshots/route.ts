@@ -1,34 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import type { SectorScreenshot } from "@/lib/types";
+import { InvalidImageError } from "@/lib/image-storage";
+import {
+  isCaptureTime,
+  listSectorScreenshots,
+  saveSectorScreenshot,
+} from "@/lib/sector-screenshots";
+import type { SectorScreenshotUpload } from "@/lib/types";
 
-// GET: 获取截图（支持按日期筛选）
+// GET: 获取截图元数据与图片地址（支持按日期、板块筛选），不再内联图片内容
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const date = searchParams.get("date"); // YYYY-MM-DD
     const sector = searchParams.get("sector");
 
-    const where: any = {};
-    if (date) {
-      where.date = new Date(date);
-    }
-    if (sector) {
-      where.sector = sector;
+    if (date && isNaN(new Date(date).getTime())) {
+      return NextResponse.json({ error: `无效的日期格式: ${date}` }, { status: 400 });
     }
 
-    const screenshots = await prisma.sectorScreenshot.findMany({
-      where,
-      orderBy: { date: "desc" },
+    const screenshots = await listSectorScreenshots({
+      date: date ?? undefined,
+      sector: sector ?? undefined,
     });
-
-    const formatted: SectorScreenshot[] = screenshots.map((s) => ({
-      date: s.date.toISOString().slice(0, 10),
-      sector: s.sector,
-      imageDataUrl: s.imageData,
-    }));
-
-    return NextResponse.json(formatted);
+    return NextResponse.json(screenshots);
   } catch (error: any) {
     console.error("GET /api/sector-screenshots error:", error);
     return NextResponse.json(
@@ -38,40 +32,48 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST: 上传/更新截图
+/**
+ * POST: 新增截图（同一日期 + 板块可多张，追加在末尾）
+ * Body: { date, sector, imageDataUrl, captureTime?: "HH:mm", caption? }；返回保存后的截图元数据
+ */
 export async function POST(req: NextRequest) {
+  let body: SectorScreenshotUpload;
   try {
-    const body: SectorScreenshot = await req.json();
-
-    if (!body.date || !body.sector || !body.imageDataUrl) {
-      return NextResponse.json({ error: "数据格式错误" }, { status: 400 });
-    }
-
-    // 先尝试查找是否存在
-    const existing = await prisma.sectorScreenshot.findFirst({
-      where: {
-        date: new Date(body.date),
-        sector: body.sector,
-      },
-    });
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
 
-    if (existing) {
-      await prisma.sectorScreenshot.update({
-        where: { id: existing.id },
-        data: { imageData: body.imageDataUrl },
-      });
-    } else {
-      await prisma.sectorScreenshot.create({
-        data: {
-          date: new Date(body.date),
-          sector: body.sector,
-          imageData: body.imageDataUrl,
-        },
-      });
-    }
+  if (!body?.date || !body.sector || typeof body.imageDataUrl !== "string" || !body.imageDataUrl) {
+    return NextResponse.json({ error: "数据格式错误" }, { status: 400 });
+  }
+  if (
+    typeof body.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(body.date) ||
+    isNaN(new Date(body.date).getTime())
+  ) {
+    return NextResponse.json(
+      { error: `无效的日期格式: ${body.date}，应为 YYYY-MM-DD` },
+      { status: 400 }
+    );
+  }
+  if (typeof body.sector !== "string" || body.sector.length > 64) {
+    return NextResponse.json({ error: "板块名称不能超过 64 个字符" }, { status: 400 });
+  }
+  if (body.captureTime !== undefined && !isCaptureTime(body.captureTime)) {
+    return NextResponse.json({ error: "截图时间格式错误，应为 HH:mm" }, { status: 400 });
+  }
+  if (body.caption !== undefined && (typeof body.caption !== "string" || body.caption.length > 200)) {
+    return NextResponse.json({ error: "截图说明不能超过 200 字" }, { status: 400 });
+  }
 
-    return NextResponse.json({ success: true });
+  try {
+    const screenshot = await saveSectorScreenshot(body);
+    return NextResponse.json(screenshot);
   } catch (error: any) {
+    if (error instanceof InvalidImageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("POST /api/sector-screenshots error:", error);
     return NextResponse.json(
       { error: error.message || "保存截图失败" },
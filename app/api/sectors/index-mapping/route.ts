@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findSectorIndex,
+  setSectorIndexMapping,
+  syncSectorIndexDaily,
+} from "@/lib/sector-index";
+
+/**
+ * PATCH /api/sectors/index-mapping
+ * Body: { sector: string, indexCode: string | null }
+ * 手动指定板块对应的指数代码（如 885431.TI），之后自动匹配不再覆盖；
+ * indexCode 为 null 时清除映射。指定后立即补齐该指数日线
+ */
+export async function PATCH(req: NextRequest) {
+  let sector: unknown;
+  let indexCode: unknown;
+  try {
+    ({ sector, indexCode } = await req.json());
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+
+  if (typeof sector !== "string" || !sector.trim()) {
+    return NextResponse.json({ error: "缺少参数 sector（板块名称）" }, { status: 400 });
+  }
+  if (indexCode !== null && (typeof indexCode !== "string" || !indexCode.trim())) {
+    return NextResponse.json(
+      { error: "indexCode 必须是指数代码字符串或 null" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const index = indexCode ? await findSectorIndex(indexCode.trim().toUpperCase()) : null;
+    if (indexCode && !index) {
+      return NextResponse.json({ error: `未找到板块指数 ${indexCode}` }, { status: 400 });
+    }
+    const updated = await setSectorIndexMapping(sector.trim(), index);
+    if (!updated) {
+      return NextResponse.json({ error: `板块「${sector}」不存在` }, { status: 404 });
+    }
+    if (updated.indexCode) await syncSectorIndexDaily();
+    return NextResponse.json({
+      sector: updated.name,
+      indexCode: updated.indexCode,
+      indexName: updated.indexName,
+      indexSource: updated.indexSource,
+    });
+  } catch (error: any) {
+    console.error("PATCH /api/sectors/index-mapping error:", error);
+    return NextResponse.json(
+      { error: error.message || "设置板块指数失败" },
+      { status: 500 }
+    );
+  }
+}
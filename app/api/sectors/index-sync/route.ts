@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { syncSectorIndexDaily, syncSectorIndexMapping } from "@/lib/sector-index";
+
+/**
+ * POST /api/sectors/index-sync
+ * Body（可选）: { refresh?: boolean }  refresh 为 true 时重新匹配全部自动映射的板块
+ * 先为未映射的板块按名称匹配板块指数，再补齐已映射指数的日线
+ * 返回：{ mapping: { matched, unmatched }, daily: { indices, inserted, failed } }
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const refresh = body?.refresh === true;
+
+  try {
+    const mapping = await syncSectorIndexMapping(refresh);
+    const daily = await syncSectorIndexDaily();
+    return NextResponse.json({ mapping, daily });
+  } catch (error: any) {
+    console.error("POST /api/sectors/index-sync error:", error);
+    return NextResponse.json(
+      { error: error.message || "同步板块指数失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSectorMarkets } from "@/lib/sector-index";
+
+/**
+ * GET /api/sectors/market?name=白酒&name=半导体&date=YYYY-MM-DD
+ * 板块对应指数截至 date（含，默认今天）的行情摘要：涨跌幅、5 日动量、近 20 日K线
+ * 返回：Record<板块名, SectorMarket | null>，只读本地已同步的指数日线
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const names = [...new Set(searchParams.getAll("name").map((n) => n.trim()).filter(Boolean))];
+  const date = searchParams.get("date");
+
+  if (names.length === 0) {
+    return NextResponse.json({ error: "缺少参数 name（板块名称）" }, { status: 400 });
+  }
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: `无效的日期格式: ${date}` }, { status: 400 });
+  }
+
+  try {
+    const markets = await getSectorMarkets(names, date ?? undefined);
+    return NextResponse.json(markets);
+  } catch (error: any) {
+    console.error("GET /api/sectors/market error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取板块行情失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * GET /api/sectors
+ * 返回关联过信号记录的全部板块名称（按名称排序），用于录入下拉建议与板块筛选
+ */
+export async function GET() {
+  try {
+    const sectors = await prisma.sector.findMany({
+      where: { signals: { some: {} } },
+      select: { name: true },
+      orderBy: { name: "asc" },
+    });
+    return NextResponse.json(sectors.map((s) => s.name));
+  } catch (error: any) {
+    console.error("GET /api/sectors error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取板块列表失败" },
+      { status: 500 }
+    );
+  }
+}
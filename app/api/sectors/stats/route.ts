@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSectorStats } from "@/lib/sector-db";
+
+/**
+ * GET /api/sectors/stats?from=YYYY-MM-DD&to=YYYY-MM-DD&limit=15
+ * 板块统计：出现日期数、平均分、评分最高的 3 条记录，按出现日期数倒序
+ * 参数均可选；limit 默认返回全部板块
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : undefined;
+
+  for (const d of [from, to]) {
+    if (d && isNaN(new Date(d).getTime())) {
+      return NextResponse.json({ error: `无效的日期格式: ${d}` }, { status: 400 });
+    }
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return NextResponse.json({ error: "limit 必须是正整数" }, { status: 400 });
+  }
+
+  try {
+    const stats = await getSectorStats({
+      from: from ?? undefined,
+      to: to ?? undefined,
+      limit,
+    });
+    return NextResponse.json(stats);
+  } catch (error: any) {
+    console.error("GET /api/sectors/stats error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取板块统计失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { SIGNAL_INCLUDE, toSignalNotesData, toSignalRecord } from "@/lib/signal-db";
+import type { SignalNotesPatch } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * PATCH: 修改复盘笔记与标签，不重新评分
+ * Body: { note?: string | null, tags?: string[] }
+ * 返回修改后的 SignalRecord
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的记录 id" }, { status: 400 });
+  }
+
+  let patch: SignalNotesPatch;
+  try {
+    patch = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  let data: ReturnType<typeof toSignalNotesData>;
+  try {
+    data = toSignalNotesData(patch);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const updated = await prisma.signalRecord.update({
+      where: { id },
+      data,
+      include: SIGNAL_INCLUDE,
+    });
+    return NextResponse.json(toSignalRecord(updated));
+  } catch (error: any) {
+    console.error(`PATCH /api/signals/${id}/notes error:`, error);
+    if (error.code === "P2025") {
+      return NextResponse.json({ error: "记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: error.message || "保存笔记失败" },
+      { status: 500 }
+    );
+  }
+}
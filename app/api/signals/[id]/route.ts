@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getActiveRuleSet, scoreRecord } from "@/lib/scoring-db";
+import {
+  SIGNAL_INCLUDE,
+  toSignalRecord,
+  toSignalRecordData,
+  toSignalUpdateInput,
+} from "@/lib/signal-db";
+import type { SignalRecord } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// GET: 获取单条信号记录
+export async function GET(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的记录 id" }, { status: 400 });
+  }
+
+  try {
+    const record = await prisma.signalRecord.findUnique({
+      where: { id },
+      include: SIGNAL_INCLUDE,
+    });
+    if (!record) {
+      return NextResponse.json({ error: "记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(toSignalRecord(record));
+  } catch (error: any) {
+    console.error(`GET /api/signals/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "获取数据失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH: 修改单条信号记录
+ * Body: Partial<SignalRecord>（只需传入要修改的字段，id 不可修改）
+ * 保存时按当前生效的评分规则重新计算 score / reason
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的记录 id" }, { status: 400 });
+  }
+
+  try {
+    const patch: Partial<SignalRecord> = await req.json();
+    if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+      return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+    }
+    if (patch.sector !== undefined && !Array.isArray(patch.sector)) {
+      return NextResponse.json(
+        { error: `数据格式错误：sector 必须是数组` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.signalRecord.findUnique({
+      where: { id },
+      include: SIGNAL_INCLUDE,
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "记录不存在" }, { status: 404 });
+    }
+
+    const current = toSignalRecord(existing);
+    const merged = scoreRecord({ ...current, ...patch, id }, await getActiveRuleSet());
+    try {
+      toSignalRecordData(merged);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // 日期或代码变化后原有的后续表现（及取不到行情的记录）不再适用，待重新评估
+    const keyChanged = merged.date !== current.date || merged.code !== current.code;
+
+    const updated = await prisma.signalRecord.update({
+      where: { id },
+      data: {
+        ...toSignalUpdateInput(merged),
+        forwardReturn: keyChanged && existing.forwardReturn ? { delete: true } : undefined,
+        forwardFailedAt: keyChanged ? null : undefined,
+      },
+      include: SIGNAL_INCLUDE,
+    });
+
+    return NextResponse.json(toSignalRecord(updated));
+  } catch (error: any) {
+    console.error(`PATCH /api/signals/${id} error:`, error);
+    let errorMessage = error.message || "修改数据失败";
+    let status = 500;
+    if (error.code === "P2025") {
+      errorMessage = "记录不存在";
+      status = 404;
+    } else if (error.code === "P2002") {
+      errorMessage = "该日期已存在相同代码的记录";
+      status = 409;
+    }
+    return NextResponse.json(
+      { error: errorMessage, details: error.code },
+      { status }
+    );
+  }
+}
+
+// DELETE: 删除单条信号记录
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的记录 id" }, { status: 400 });
+  }
+
+  try {
+    await prisma.signalRecord.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/signals/${id} error:`, error);
+    if (error.code === "P2025") {
+      return NextResponse.json({ error: "记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: error.message || "删除数据失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,62 +1,99 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import type { SignalRecord } from "@/lib/types";
+import { getActiveRuleSet, scoreRecord } from "@/lib/scoring-db";
+import {
+  mergeNonNull,
+  parseSignalQuery,
+  signalKey,
+  SIGNAL_INCLUDE,
+  toSignalCreateInput,
+  toSignalRecord,
+  toSignalRecordData,
+  toSignalUpdateInput,
+} from "@/lib/signal-db";
+import { isWatchlistState, WATCHLIST_STATES } from "@/lib/watchlist";
+import { listWatchlistCodes } from "@/lib/watchlist-db";
+import type {
+  SignalPage,
+  SignalRecord,
+  UpsertPolicy,
+  UpsertResult,
+  WatchlistState,
+} from "@/lib/types";
 
-// GET: 获取所有信号记录（支持日期范围筛选）
+/**
+ * GET: 获取信号记录（服务端筛选 / 排序 / 游标分页）
+ * 查询参数（均可选）：
+ *   code, q, sector, sector_pattern, scoreMin, scoreMax, from, to  - 筛选
+ *   watch (观察|计划|持有|卖出|淘汰|any) - 只返回关注列表中处于该状态（any 为任意状态）的股票
+ *   sort (date|code|name|score|turnover|chg|amount|debt_ratio), order (asc|desc) - 排序，默认 date desc
+ *   limit, cursor - 分页；传入 limit 时返回 { items, nextCursor, total }，否则返回全部匹配记录数组
+ */
 export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  let query: ReturnType<typeof parseSignalQuery>;
   try {
-    const { searchParams } = new URL(req.url);
-    const from = searchParams.get("from"); // YYYY-MM-DD
-    const to = searchParams.get("to"); // YYYY-MM-DD
-
-    const where: any = {};
-    if (from || to) {
-      where.date = {};
-      if (from) where.date.gte = new Date(from);
-      if (to) where.date.lte = new Date(to);
+    query = parseSignalQuery(searchParams);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  const watchParam = searchParams.get("watch");
+  let watch: WatchlistState | "any" | null = null;
+  if (watchParam) {
+    if (watchParam !== "any" && !isWatchlistState(watchParam)) {
+      return NextResponse.json(
+        { error: `无效的关注状态: ${watchParam}，可选：${WATCHLIST_STATES.join("、")}、any` },
+        { status: 400 }
+      );
     }
+    watch = watchParam;
+  }
 
-    console.log("GET /api/signals - 查询条件:", where);
-
-    const records = await prisma.signalRecord.findMany({
-      where,
-      orderBy: { date: "desc" },
-    });
-
-    console.log("GET /api/signals - 查询到记录数:", records.length);
-
-    // 转换为前端需要的格式
-    const formatted: SignalRecord[] = records.map((r) => {
-      let reason: string[] = [];
-      try {
-        reason = JSON.parse(r.reason || "[]");
-        if (!Array.isArray(reason)) {
-          reason = [];
+  try {
+    const { orderBy, limit, cursor } = query;
+    // 关注状态在另一张表，先取出对应代码再并入条件
+    const where = watch
+      ? {
+          AND: [
+            query.where,
+            { code: { in: await listWatchlistCodes(watch) } },
+          ],
         }
-      } catch (parseError) {
-        console.warn("解析 reason 字段失败:", r.reason, parseError);
-        reason = [];
-      }
+      : query.where;
 
-      return {
-        date: r.date.toISOString().slice(0, 10),
-        code: r.code,
-        name: r.name,
-        sector: r.sector ? r.sector.split("、").filter(Boolean) : [],
-        sector_pattern:
-          (r.sectorPattern === "水下拉水上" || r.sectorPattern === "波动三角收窄"
-            ? r.sectorPattern
-            : null) as "水下拉水上" | "波动三角收窄" | null,
-        turnover: r.turnover,
-        chg: r.chg,
-        amount: r.amount,
-        debt_ratio: r.debtRatio,
-        score: r.score,
-        reason,
-      };
-    });
+    console.log("GET /api/signals - 查询条件:", JSON.stringify(where));
 
-    return NextResponse.json(formatted);
+    if (limit === null) {
+      const records = await prisma.signalRecord.findMany({
+        where,
+        orderBy,
+        include: SIGNAL_INCLUDE,
+      });
+      console.log("GET /api/signals - 查询到记录数:", records.length);
+      // 转换为前端需要的格式
+      const formatted: SignalRecord[] = records.map(toSignalRecord);
+      return NextResponse.json(formatted);
+    }
+
+    // 多取一条用于判断是否还有下一页
+    const [rows, total] = await Promise.all([
+      prisma.signalRecord.findMany({
+        where,
+        orderBy,
+        include: SIGNAL_INCLUDE,
+        take: limit + 1,
+        ...(cursor !== null ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      prisma.signalRecord.count({ where }),
+    ]);
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(toSignalRecord);
+    const page: SignalPage = {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id ?? null : null,
+      total,
+    };
+    return NextResponse.json(page);
   } catch (error: any) {
     console.error("GET /api/signals error:", error);
     console.error("错误详情:", {
@@ -88,14 +125,30 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST: 添加新的信号记录（批量）
+const UPSERT_POLICIES: UpsertPolicy[] = ["skip", "overwrite", "merge-nonnull"];
+
+/**
+ * POST: 添加新的信号记录（批量，按「日期 + 代码」幂等写入）
+ * Body: SignalRecord[] 或 { records: SignalRecord[], policy?: UpsertPolicy }
+ *   policy 默认 "skip"；同一批数据中重复的「日期 + 代码」以最后一条为准
+ *   写入的记录均按当前生效的评分规则重新计算 score / reason（忽略传入值）
+ * 返回：{ success, count, created, updated, skipped }
+ */
 export async function POST(req: NextRequest) {
   try {
-    const body: SignalRecord[] = await req.json();
+    const raw = await req.json();
+    const body: SignalRecord[] = Array.isArray(raw) ? raw : raw?.records;
+    const policy: UpsertPolicy = Array.isArray(raw) ? "skip" : raw?.policy ?? "skip";
 
     if (!Array.isArray(body) || body.length === 0) {
       return NextResponse.json({ error: "数据格式错误：需要非空数组" }, { status: 400 });
     }
+    if (!UPSERT_POLICIES.includes(policy)) {
+      return NextResponse.json(
+        { error: `数据格式错误：policy 必须是 ${UPSERT_POLICIES.join(" / ")} 之一` },
+        { status: 400 }
+      );
+    }
 
     // 验证数据格式
     for (const r of body) {
@@ -119,52 +172,72 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    const data = body.map((r) => {
-      // 验证并转换日期
-      const dateObj = new Date(r.date);
-      if (isNaN(dateObj.getTime())) {
-        throw new Error(`无效的日期格式: ${r.date}`);
-      }
+    // 同一批数据内按「日期 + 代码」去重，后出现的覆盖先出现的
+    const incoming = new Map<string, SignalRecord>();
+    for (const r of body) incoming.set(signalKey(r), r);
 
-      // 确保 score 是整数
-      const score = Math.round(Number(r.score)) || 0;
-      if (score < 0 || score > 100) {
-        throw new Error(`score 必须在 0-100 之间，当前值: ${r.score}`);
-      }
+    // 先校验全部数据，避免部分写入
+    for (const r of incoming.values()) toSignalRecordData(r);
 
-      // 确保字符串长度不超过数据库限制
-      const sectorStr = r.sector.join("、");
-      if (sectorStr.length > 255) {
-        throw new Error(`sector 字符串过长 (${sectorStr.length} > 255)`);
-      }
+    const existingRows = await prisma.signalRecord.findMany({
+      include: SIGNAL_INCLUDE,
+      where: {
+        OR: Array.from(incoming.values()).map((r) => ({
+          date: new Date(r.date),
+          code: r.code,
+        })),
+      },
+    });
+    const existingMap = new Map(
+      existingRows.map((row) => {
+        const rec = toSignalRecord(row);
+        return [signalKey(rec), rec] as const;
+      })
+    );
 
-      // 验证 code 和 name 不为空
-      if (!r.code || !r.name) {
-        throw new Error(`code 和 name 不能为空`);
-      }
+    // 新增与更新的记录统一按当前生效的评分规则重新评分
+    const ruleSet = await getActiveRuleSet();
+    const toCreate: SignalRecord[] = [];
+    const toUpdate: { id: number; record: SignalRecord }[] = [];
+    let skipped = 0;
 
-      return {
-        date: dateObj,
-        code: r.code.substring(0, 16), // 限制长度
-        name: r.name.substring(0, 64), // 限制长度
-        sector: sectorStr,
-        sectorPattern: r.sector_pattern ? r.sector_pattern.substring(0, 32) : null,
-        turnover: r.turnover != null ? Number(r.turnover) : null,
-        chg: r.chg != null ? Number(r.chg) : null,
-        amount: r.amount != null ? Number(r.amount) : null,
-        debtRatio: r.debt_ratio != null ? Number(r.debt_ratio) : null,
-        score: score, // 确保是整数
-        reason: JSON.stringify(r.reason || []),
-      };
-    });
+    for (const [key, r] of incoming) {
+      const existing = existingMap.get(key);
+      if (!existing) {
+        toCreate.push(scoreRecord(r, ruleSet));
+      } else if (policy === "skip") {
+        skipped++;
+      } else if (policy === "overwrite") {
+        toUpdate.push({ id: existing.id!, record: scoreRecord(r, ruleSet) });
+      } else {
+        const merged = mergeNonNull(existing, r);
+        toUpdate.push({ id: existing.id!, record: scoreRecord(merged, ruleSet) });
+      }
+    }
 
-    // 添加调试日志
-    console.log("准备保存数据，记录数:", data.length);
-    console.log("第一条数据示例:", JSON.stringify(data[0], null, 2));
+    console.log(
+      `准备保存数据（policy=${policy}）：新增 ${toCreate.length}，更新 ${toUpdate.length}，跳过 ${skipped}`
+    );
 
-    await prisma.signalRecord.createMany({ data });
+    // 板块需通过关联表写入，createMany 不支持嵌套写入，故逐条创建
+    await prisma.$transaction([
+      ...toCreate.map((r) =>
+        prisma.signalRecord.create({ data: toSignalCreateInput(r) })
+      ),
+      ...toUpdate.map(({ id, record }) =>
+        prisma.signalRecord.update({
+          where: { id },
+          data: toSignalUpdateInput(record),
+        })
+      ),
+    ]);
 
-    return NextResponse.json({ success: true, count: data.length });
+    const result: UpsertResult = {
+      created: toCreate.length,
+      updated: toUpdate.length,
+      skipped,
+    };
+    return NextResponse.json({ success: true, count: body.length, ...result });
   } catch (error: any) {
     console.error("POST /api/signals error:", error);
     console.error("错误详情:", {
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkTradeSignal,
+  deleteTrade,
+  getTrade,
+  toTradeData,
+  updateTrade,
+} from "@/lib/trades";
+import type { TradeInput } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// GET: 单笔成交
+export async function GET(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的成交 id" }, { status: 400 });
+  }
+
+  try {
+    const trade = await getTrade(id);
+    if (!trade) {
+      return NextResponse.json({ error: "成交记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(trade);
+  } catch (error: any) {
+    console.error(`GET /api/trades/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "获取成交记录失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH: 修改成交，只更新出现的字段
+ * Body: { code?, name?, side?, price?, quantity?, fees?, tradedAt?, signalId?: number | null }
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的成交 id" }, { status: 400 });
+  }
+
+  let patch: TradeInput;
+  try {
+    patch = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  let data: ReturnType<typeof toTradeData>;
+  try {
+    data = toTradeData(patch, true);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const existing = await getTrade(id);
+    if (!existing) {
+      return NextResponse.json({ error: "成交记录不存在" }, { status: 404 });
+    }
+    // 修改代码或关联时，按修改后的值校验关联信号
+    const signalError = await checkTradeSignal(
+      data.signalId !== undefined ? data.signalId : existing.signalId,
+      data.code ?? existing.code
+    );
+    if (signalError) {
+      return NextResponse.json({ error: signalError }, { status: 400 });
+    }
+    const trade = await updateTrade(id, patch);
+    if (!trade) {
+      return NextResponse.json({ error: "成交记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(trade);
+  } catch (error: any) {
+    console.error(`PATCH /api/trades/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "修改成交失败" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 删除成交
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的成交 id" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteTrade(id))) {
+      return NextResponse.json({ error: "成交记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/trades/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "删除成交失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getTradeJournal } from "@/lib/trades";
+
+/**
+ * GET /api/trades/journal
+ * 交易日志：按信号来源汇总已实现/浮动盈亏、胜率与平均持有天数，以及各股票持仓（按最近收盘价估值）
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getTradeJournal());
+  } catch (error: any) {
+    console.error("GET /api/trades/journal error:", error);
+    return NextResponse.json(
+      { error: error.message || "计算交易日志失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkTradeSignal, createTrade, listTrades, toTradeData } from "@/lib/trades";
+import type { TradeInput } from "@/lib/types";
+
+/**
+ * GET /api/trades?code=000001&signalId=1&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * 成交列表（按成交时间倒序）
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const code = searchParams.get("code");
+  const signalIdParam = searchParams.get("signalId");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  for (const date of [from, to]) {
+    if (date && isNaN(new Date(date).getTime())) {
+      return NextResponse.json({ error: `无效的日期格式: ${date}` }, { status: 400 });
+    }
+  }
+  const signalId = signalIdParam ? Number(signalIdParam) : undefined;
+  if (signalId !== undefined && (!Number.isInteger(signalId) || signalId <= 0)) {
+    return NextResponse.json({ error: `无效的信号记录 id: ${signalIdParam}` }, { status: 400 });
+  }
+
+  try {
+    const trades = await listTrades({
+      code: code ?? undefined,
+      signalId,
+      from: from ?? undefined,
+      to: to ?? undefined,
+    });
+    return NextResponse.json(trades);
+  } catch (error: any) {
+    console.error("GET /api/trades error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取成交记录失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/trades
+ * 新增一笔成交
+ * Body: { code, name?, side: "buy" | "sell", price, quantity, fees?, tradedAt: ISO 时间, signalId? }
+ */
+export async function POST(req: NextRequest) {
+  let input: TradeInput;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  let code: string;
+  try {
+    code = toTradeData(input).code!;
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const signalError = await checkTradeSignal(input.signalId, code);
+    if (signalError) {
+      return NextResponse.json({ error: signalError }, { status: 400 });
+    }
+    return NextResponse.json(await createTrade(input), { status: 201 });
+  } catch (error: any) {
+    console.error("POST /api/trades error:", error);
+    return NextResponse.json(
+      { error: error.message || "新增成交失败" },
+      { status: 500 }
+    );
+  }
+}
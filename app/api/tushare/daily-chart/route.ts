@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDailyChartData } from "@/lib/tushare";
+import { getIndicatorsCached } from "@/lib/indicator-snapshots";
 
 /**
  * GET /api/tushare/daily-chart?code=xxxxxx
  * 返回近30个交易日收盘价/MA5/MA30、near（5日与30日线是否接近）、typicalNearMa30（当日均价与30日线是否接近）
+ * 优先读取收盘后的指标快照
  */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -17,7 +18,9 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const result = await getDailyChartData(code);
+    const [indicators] = await getIndicatorsCached([{ code }]);
+    if (indicators.error) throw new Error(indicators.error);
+    const result = indicators.dailyChart;
     if (!result) {
       return NextResponse.json(
         { error: `未获取到 ${code} 的足够日线数据（需至少30个交易日）` },
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_INDICATOR_BATCH } from "@/lib/tushare";
+import { getIndicatorsCached } from "@/lib/indicator-snapshots";
+
+/**
+ * POST /api/tushare/indicators
+ * Body: { items: { code: string; recordDate?: string }[] }（同一代码可出现多次，对应不同录入日）
+ * 返回：{ results: StockIndicators[] }，每个代码一项，
+ *   含 ma20（同 ma20-chart）、dailyChart（同 daily-chart）、limitUps（录入日 -> 首次涨停，含是否封板）
+ * 有最近一个已收盘交易日的快照（且包含所需录入日）的代码直接读取快照，其余实时计算
+ */
+export async function POST(req: NextRequest) {
+  let items: { code: string; recordDate?: string }[];
+  try {
+    const body = await req.json();
+    items = body?.items;
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return NextResponse.json(
+      { error: "数据格式错误：items 必须是非空数组" },
+      { status: 400 }
+    );
+  }
+  for (const item of items) {
+    if (!item || typeof item.code !== "string" || !item.code) {
+      return NextResponse.json(
+        { error: "数据格式错误：每项都需要 code（6位股票代码）" },
+        { status: 400 }
+      );
+    }
+    if (
+      item.recordDate !== undefined &&
+      (typeof item.recordDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(item.recordDate))
+    ) {
+      return NextResponse.json(
+        { error: `无效的录入日期: ${item.recordDate}（格式 YYYY-MM-DD）` },
+        { status: 400 }
+      );
+    }
+  }
+  const codeCount = new Set(items.map((i) => i.code)).size;
+  if (codeCount > MAX_INDICATOR_BATCH) {
+    return NextResponse.json(
+      { error: `单次最多查询 ${MAX_INDICATOR_BATCH} 只股票，当前 ${codeCount} 只` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await getIndicatorsCached(items);
+    return NextResponse.json({ results });
+  } catch (error: any) {
+    console.error("POST /api/tushare/indicators error:", error);
+    return NextResponse.json(
+      { error: error?.message || "批量获取行情指标失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getFirstLimitUpSince } from "@/lib/tushare";
+import { getIndicatorsCached } from "@/lib/indicator-snapshots";
 
 /**
  * GET /api/tushare/limit-up?code=xxxxxx&recordDate=YYYY-MM-DD
- * 返回：{ limitUpDate: string | null }
+ * 返回：{ limitUpDate: string | null, limitUp: LimitUpEvent | null }
+ *   limitUp 含是否封板（sealed，false 为炸板）、涨停价与首次封板日；优先读取收盘后的指标快照
  */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -16,10 +17,18 @@ export async function GET(req: NextRequest) {
       { status: 400 }
     );
   }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(recordDate)) {
+    return NextResponse.json(
+      { error: `无效的录入日期: ${recordDate}（格式 YYYY-MM-DD）` },
+      { status: 400 }
+    );
+  }
 
   try {
-    const limitUpDate = await getFirstLimitUpSince(code, recordDate);
-    return NextResponse.json({ limitUpDate });
+    const [indicators] = await getIndicatorsCached([{ code, recordDate }]);
+    if (indicators.error) throw new Error(indicators.error);
+    const limitUp = indicators.limitUps[recordDate] ?? null;
+    return NextResponse.json({ limitUpDate: limitUp?.date ?? null, limitUp });
   } catch (error: any) {
     console.error(
       `GET /api/tushare/limit-up [${code} ${recordDate}] error:`,
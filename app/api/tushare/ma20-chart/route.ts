@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getMA20WithOhlc } from "@/lib/tushare";
+import { getIndicatorsCached } from "@/lib/indicator-snapshots";
 
 /**
  * GET /api/tushare/ma20-chart?code=xxxxxx
- * 返回 MA20 状态 + 近30个交易日 OHLC（用于蜡烛图）
+ * 返回 MA20 状态 + 近30个交易日 OHLC（用于蜡烛图），优先读取收盘后的指标快照
  */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -17,7 +17,9 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const result = await getMA20WithOhlc(code);
+    const [indicators] = await getIndicatorsCached([{ code }]);
+    if (indicators.error) throw new Error(indicators.error);
+    const result = indicators.ma20;
     if (!result) {
       return NextResponse.json(
         { error: `未获取到 ${code} 的数据或日线不足` },
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { suggestSectorPattern } from "@/lib/tushare";
+
+/**
+ * GET /api/tushare/sector-pattern?sector=板块名&date=YYYY-MM-DD
+ * 根据板块指数当日 1 分钟线识别分时形态
+ * 返回 SectorPatternSuggestion：pattern（置信度不足为 null）、confidence、reasons（判断依据）
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const sector = searchParams.get("sector")?.trim();
+  const date = searchParams.get("date");
+
+  if (!sector || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json(
+      { error: "缺少参数 sector 或 date（格式 YYYY-MM-DD）" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const suggestion = await suggestSectorPattern(sector, date);
+    if (!suggestion) {
+      return NextResponse.json(
+        { error: `未找到板块「${sector}」${date} 的分钟线数据` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(suggestion);
+  } catch (error: any) {
+    console.error(`GET /api/tushare/sector-pattern [${sector} ${date}] error:`, error);
+    return NextResponse.json(
+      { error: error?.message || "识别板块分时形态失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@ import { getStockInfo } from "@/lib/tushare";
  * GET /api/tushare/stock-info
  * 根据股票代码获取股票信息
  * 查询参数: code (6位股票代码), tradeDate (可选, YYYYMMDD)
+ * 返回 StockInfo：换手率/市值取自 daily_basic，资产负债率取自交易日前已公告的最新财报，
+ *   sources 中记录每个字段的数据接口与所属日期
  */
 export async function GET(req: NextRequest) {
   try {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWatchlistItem, removeFromWatchlist } from "@/lib/watchlist-db";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// GET: 单只关注股票（含状态变更记录）
+export async function GET(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的关注 id" }, { status: 400 });
+  }
+
+  try {
+    const item = await getWatchlistItem(id);
+    if (!item) {
+      return NextResponse.json({ error: "关注记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json(item);
+  } catch (error: any) {
+    console.error(`GET /api/watchlist/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "获取关注记录失败" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 移出关注（连同状态变更记录）
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的关注 id" }, { status: 400 });
+  }
+
+  try {
+    if (!(await removeFromWatchlist(id))) {
+      return NextResponse.json({ error: "关注记录不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`DELETE /api/watchlist/${id} error:`, error);
+    return NextResponse.json(
+      { error: error.message || "移出关注失败" },
+      { status: 500 }
+    );
+  }
+}
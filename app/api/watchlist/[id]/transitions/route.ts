@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWatchlistItem, transitionWatchlistItem } from "@/lib/watchlist-db";
+import {
+  checkWatchlistTransition,
+  isWatchlistState,
+  toTransitionReason,
+  WATCHLIST_STATES,
+} from "@/lib/watchlist";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 路径参数转换为正整数 id，非法时返回 null
+async function parseId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const n = Number(id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * POST /api/watchlist/[id]/transitions
+ * 变更关注状态并记录原因，返回更新后的关注记录；期间状态已被其他请求修改时返回 409
+ * Body: { state: "计划", reason: string }
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (id === null) {
+    return NextResponse.json({ error: "无效的关注 id" }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  if (!isWatchlistState(body.state)) {
+    return NextResponse.json(
+      { error: `无效的关注状态: ${body.state}，可选：${WATCHLIST_STATES.join("、")}` },
+      { status: 400 }
+    );
+  }
+  let reason: string;
+  try {
+    reason = toTransitionReason(body.reason);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const existing = await getWatchlistItem(id);
+    if (!existing) {
+      return NextResponse.json({ error: "关注记录不存在" }, { status: 404 });
+    }
+    const transitionError = checkWatchlistTransition(existing.state, body.state);
+    if (transitionError) {
+      return NextResponse.json({ error: transitionError }, { status: 400 });
+    }
+    const item = await transitionWatchlistItem(id, existing.state, body.state, reason);
+    if (!item) {
+      return NextResponse.json(
+        { error: "关注状态已被修改，请刷新后重试" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(item);
+  } catch (error: any) {
+    console.error(`POST /api/watchlist/${id}/transitions error:`, error);
+    return NextResponse.json(
+      { error: error.message || "变更关注状态失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addToWatchlist, listWatchlist } from "@/lib/watchlist-db";
+import { isWatchlistState, toTransitionReason, WATCHLIST_STATES } from "@/lib/watchlist";
+
+/**
+ * GET /api/watchlist?state=观察&code=000001
+ * 关注列表（最近变更的在前），含每只股票的状态变更记录
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const state = searchParams.get("state");
+  const code = searchParams.get("code");
+
+  if (state && !isWatchlistState(state)) {
+    return NextResponse.json(
+      { error: `无效的关注状态: ${state}，可选：${WATCHLIST_STATES.join("、")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await listWatchlist({
+      state: state && isWatchlistState(state) ? state : undefined,
+      code: code ?? undefined,
+    });
+    return NextResponse.json(items);
+  } catch (error: any) {
+    console.error("GET /api/watchlist error:", error);
+    return NextResponse.json(
+      { error: error.message || "获取关注列表失败" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/watchlist
+ * 加入关注
+ * Body: { code: "000001", name?: string, state?: "观察", reason: string }
+ */
+export async function POST(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "请求体不是合法的 JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "数据格式错误：需要对象" }, { status: 400 });
+  }
+  const code = String(body.code ?? "").replace(/\.(SH|SZ|BJ)$/i, "").trim();
+  if (!/^\d{6}$/.test(code)) {
+    return NextResponse.json({ error: `无效的股票代码: ${body.code}` }, { status: 400 });
+  }
+  if (body.state !== undefined && !isWatchlistState(body.state)) {
+    return NextResponse.json(
+      { error: `无效的关注状态: ${body.state}，可选：${WATCHLIST_STATES.join("、")}` },
+      { status: 400 }
+    );
+  }
+  let reason: string;
+  try {
+    reason = toTransitionReason(body.reason);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const item = await addToWatchlist({
+      code,
+      name: typeof body.name === "string" ? body.name : null,
+      state: body.state,
+      reason,
+    });
+    if (!item) {
+      return NextResponse.json({ error: `${code} 已在关注列表中` }, { status: 409 });
+    }
+    return NextResponse.json(item, { status: 201 });
+  } catch (error: any) {
+    console.error("POST /api/watchlist error:", error);
+    return NextResponse.json(
+      { error: error.message || "加入关注失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,60 +1,108 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Landmark } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ReviewAI } from "@/components/review-ai";
+import { AskAI, type AskAIFocus } from "@/components/ask-ai";
 import { StocksPage } from "@/components/stocks-page";
 import { HistoryPanel } from "@/components/history-panel";
-import type { SignalRecord } from "@/lib/types";
+import { ScoringSettings } from "@/components/scoring-settings";
+import { TradeJournal } from "@/components/trade-journal";
+import { AlertCenter } from "@/components/alert-center";
+import type {
+  SignalNotesPatch,
+  SignalRecord,
+  UpsertPolicy,
+  UpsertResult,
+} from "@/lib/types";
 import {
   addRecords,
-  getAllRecords,
   clearAllRecords,
   getLast30DaysRecords,
+  getRecordCount,
+  getSectorNames,
+  updateRecord,
+  updateRecordNotes,
+  deleteRecord,
 } from "@/lib/store";
 
 export default function Page() {
   const [activeTab, setActiveTab] = useState("history");
-  const [allRecords, setAllRecords] = useState<SignalRecord[]>([]);
+  const [recordCount, setRecordCount] = useState(0);
+  const [existingSectors, setExistingSectors] = useState<string[]>([]);
+  const [last30, setLast30] = useState<SignalRecord[]>([]);
+  // 数据变更版本号：录入/修改/删除后递增，子组件据此重新按条件查询
+  const [dataVersion, setDataVersion] = useState(0);
   const [hasUnsavedInput, setHasUnsavedInput] = useState(false);
+  const [lastSaveResult, setLastSaveResult] = useState<UpsertResult | null>(null);
+  const [stockFocus, setStockFocus] = useState<{ code: string; nonce: number } | null>(null);
+  const [askFocus, setAskFocus] = useState<AskAIFocus | null>(null);
 
-  useEffect(() => {
-    getAllRecords().then(setAllRecords);
+  const refresh = useCallback(async () => {
+    const [count, sectors, last30Data] = await Promise.all([
+      getRecordCount(),
+      getSectorNames(),
+      getLast30DaysRecords(),
+    ]);
+    setRecordCount(count);
+    setExistingSectors(sectors);
+    setLast30(last30Data);
+    setDataVersion((v) => v + 1);
   }, []);
 
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
   const handleParsed = useCallback(
-    async (records: SignalRecord[]) => {
+    async (records: SignalRecord[], policy: UpsertPolicy) => {
       try {
-        const updated = await addRecords(records);
-        setAllRecords(updated);
-        const last30Data = await getLast30DaysRecords();
-        setLast30(last30Data);
+        const result = await addRecords(records, policy);
+        setLastSaveResult(result);
+        await refresh();
         setActiveTab("history");
       } catch (error: any) {
         console.error("保存数据失败:", error);
         alert(`保存数据失败: ${error.message || "未知错误"}`);
       }
     },
-    []
+    [refresh]
   );
 
   const handleClear = useCallback(async () => {
     await clearAllRecords();
-    setAllRecords([]);
-    const last30Data = await getLast30DaysRecords();
-    setLast30(last30Data);
-  }, []);
+    await refresh();
+  }, [refresh]);
 
-  const [last30, setLast30] = useState<SignalRecord[]>([]);
+  // 单条修改/删除后重新拉取，保证信号库与近30天数据一致
+  const handleUpdateRecord = useCallback(
+    async (id: number, patch: Partial<SignalRecord>) => {
+      await updateRecord(id, patch);
+      await refresh();
+    },
+    [refresh]
+  );
 
-  useEffect(() => {
-    getLast30DaysRecords().then(setLast30);
-  }, []);
+  const handleUpdateNotes = useCallback(
+    async (id: number, patch: SignalNotesPatch) => {
+      await updateRecordNotes(id, patch);
+      await refresh();
+    },
+    [refresh]
+  );
 
-  const existingSectors = useMemo(
-    () => Array.from(new Set(allRecords.flatMap((r) => r.sector))).sort(),
-    [allRecords]
+  const handleDeleteRecord = useCallback(
+    async (id: number) => {
+      try {
+        await deleteRecord(id);
+      } catch (error: any) {
+        alert(`删除失败: ${error.message || "未知错误"}`);
+        return;
+      }
+      await refresh();
+    },
+    [refresh]
   );
 
   function handleTabChange(next: string) {
@@ -65,6 +113,18 @@ export default function Page() {
     setActiveTab(next);
   }
 
+  // 从复盘智囊等页面跳转到个股页并定位到该代码
+  function handleOpenStock(code: string) {
+    setStockFocus({ code, nonce: Date.now() });
+    handleTabChange("stocks");
+  }
+
+  // 从个股行打开与该股关联的询问 AI 对话
+  function handleAskAI(record: SignalRecord) {
+    setAskFocus({ code: record.code, title: `${record.code} ${record.name}`, nonce: Date.now() });
+    handleTabChange("ask");
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -84,10 +144,12 @@ export default function Page() {
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <AlertCenter onOpenStock={handleOpenStock} />
+            <div className="h-8 w-px bg-border" />
             <div className="text-right">
               <p className="text-xs text-muted-foreground">信号库</p>
               <p className="text-sm font-mono font-bold text-primary">
-                {allRecords.length} 条
+                {recordCount} 条
               </p>
             </div>
             <div className="h-8 w-px bg-border" />
@@ -111,6 +173,12 @@ export default function Page() {
             >
               复盘智囊
             </TabsTrigger>
+            <TabsTrigger
+              value="ask"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              询问 AI
+            </TabsTrigger>
             <TabsTrigger
               value="history"
               className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -123,27 +191,67 @@ export default function Page() {
             >
               个股
             </TabsTrigger>
+            <TabsTrigger
+              value="trades"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              交易日志
+            </TabsTrigger>
+            <TabsTrigger
+              value="scoring"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              评分规则
+            </TabsTrigger>
           </TabsList>
 
           {/* 复盘智囊 tab */}
           <TabsContent value="ai" className="mt-0">
-            <ReviewAI records={allRecords} />
+            <ReviewAI dataVersion={dataVersion} onOpenStock={handleOpenStock} />
+          </TabsContent>
+
+          {/* 询问 AI tab */}
+          <TabsContent value="ask" className="mt-0">
+            <AskAI focus={askFocus} />
           </TabsContent>
 
           {/* History tab */}
           <TabsContent value="history" className="mt-0">
             <HistoryPanel
               records={last30}
+              dataVersion={dataVersion}
               existingSectors={existingSectors}
               onClear={handleClear}
               onAddRecords={handleParsed}
+              lastSaveResult={lastSaveResult}
+              onUpdateRecord={handleUpdateRecord}
+              onUpdateNotes={handleUpdateNotes}
+              onDeleteRecord={handleDeleteRecord}
               onUnsavedChange={setHasUnsavedInput}
             />
           </TabsContent>
 
           {/* Stocks tab */}
           <TabsContent value="stocks" className="mt-0">
-            <StocksPage records={allRecords} />
+            <StocksPage
+              dataVersion={dataVersion}
+              existingSectors={existingSectors}
+              onUpdateRecord={handleUpdateRecord}
+              onUpdateNotes={handleUpdateNotes}
+              onDeleteRecord={handleDeleteRecord}
+              focusCode={stockFocus}
+              onAskAI={handleAskAI}
+            />
+          </TabsContent>
+
+          {/* 交易日志 tab */}
+          <TabsContent value="trades" className="mt-0">
+            <TradeJournal dataVersion={dataVersion} />
+          </TabsContent>
+
+          {/* Scoring rules tab */}
+          <TabsContent value="scoring" className="mt-0">
+            <ScoringSettings onRecordsRescored={refresh} />
           </TabsContent>
         </Tabs>
       </main>
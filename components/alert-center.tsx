@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import type { AlertEvent, AlertKind, AlertRule } from "@/lib/types";
+import {
+  ALERT_KINDS,
+  ALERT_KIND_LABELS,
+  DEFAULT_NEAR_THRESHOLD,
+  describeAlertRule,
+} from "@/lib/alerts";
+import {
+  createAlertRule,
+  deleteAlertRule,
+  evaluateAlerts,
+  getAlertRules,
+  getAlerts,
+  markAlertsRead,
+  updateAlertRule,
+} from "@/lib/store";
+
+// 未读数轮询间隔：收盘后评估一天只跑一次，5 分钟足够
+const POLL_INTERVAL = 5 * 60 * 1000;
+
+// 接近阈值输入框，取消时返回 undefined，留空取默认值
+function promptThreshold(current: number | null): number | null | undefined {
+  const input = window.prompt(
+    `MA5 与 MA30 相差小于多少 % 视为接近（留空为默认 ${DEFAULT_NEAR_THRESHOLD}%）：`,
+    current === null ? "" : String(current)
+  );
+  if (input === null) return undefined;
+  return input.trim() === "" ? null : Number(input);
+}
+
+interface AlertRuleEditorProps {
+  code: string | null; // null 为全局规则
+}
+
+// 提醒规则列表与新增；用于提醒中心（全局规则）与个股详情（单只股票的规则）
+export function AlertRuleEditor({ code }: AlertRuleEditorProps) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setRules(await getAlertRules(code));
+  }, [code]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(action: () => Promise<unknown>, label: string) {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+    } catch (e: any) {
+      alert(`${label}失败: ${e?.message || "未知错误"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleAdd(kind: AlertKind) {
+    let threshold: number | null = null;
+    if (kind === "ma5_near_ma30") {
+      const input = promptThreshold(null);
+      if (input === undefined) return;
+      threshold = input;
+    }
+    run(() => createAlertRule({ code, kind, threshold }), "新增提醒规则");
+  }
+
+  function handleEditThreshold(rule: AlertRule) {
+    const threshold = promptThreshold(rule.threshold);
+    if (threshold === undefined) return;
+    run(() => updateAlertRule(rule.id, { threshold }), "修改阈值");
+  }
+
+  function handleDelete(rule: AlertRule) {
+    if (!window.confirm(`确定删除「${describeAlertRule(rule)}」吗？已触发的提醒会一并删除。`)) return;
+    run(() => deleteAlertRule(rule.id), "删除提醒规则");
+  }
+
+  const missing = ALERT_KINDS.filter((kind) => !rules.some((r) => r.kind === kind));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rules.length === 0 ? (
+        <span className="text-xs text-muted-foreground">
+          {code ? "该股暂无单独的提醒规则" : "暂无全局提醒规则"}
+        </span>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-2 text-xs">
+              <Switch
+                checked={rule.enabled}
+                disabled={busy}
+                onCheckedChange={(enabled) =>
+                  run(() => updateAlertRule(rule.id, { enabled }), enabled ? "启用" : "停用")
+                }
+              />
+              <span className={rule.enabled ? "text-foreground" : "text-muted-foreground"}>
+                {describeAlertRule(rule)}
+              </span>
+              {rule.kind === "ma5_near_ma30" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-xs"
+                  disabled={busy}
+                  onClick={() => handleEditThreshold(rule)}
+                >
+                  阈值
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                disabled={busy}
+                onClick={() => handleDelete(rule)}
+              >
+                删除
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {missing.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {missing.map((kind) => (
+            <Button
+              key={kind}
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={busy}
+              onClick={() => handleAdd(kind)}
+            >
+              + {ALERT_KIND_LABELS[kind]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AlertCenterProps {
+  onOpenStock: (code: string) => void;
+}
+
+// 页头的提醒中心：未读数角标，展开后列出最近的提醒，点击跳转到个股页并标记已读
+export function AlertCenter({ onOpenStock }: AlertCenterProps) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [evaluating, setEvaluating] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    const data = await getAlerts({ limit: 50 });
+    setEvents(data.events);
+    setUnread(data.unread);
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) load();
+  }
+
+  async function handleClick(event: AlertEvent) {
+    setOpen(false);
+    onOpenStock(event.code);
+    if (event.read) return;
+    try {
+      await markAlertsRead([event.id]);
+      await load();
+    } catch (e: any) {
+      console.error("标记已读失败:", e);
+    }
+  }
+
+  async function handleReadAll() {
+    try {
+      await markAlertsRead("all");
+      await load();
+    } catch (e: any) {
+      alert(`标记已读失败: ${e?.message || "未知错误"}`);
+    }
+  }
+
+  async function handleEvaluate() {
+    setEvaluating(true);
+    try {
+      const result = await evaluateAlerts();
+      await load();
+      alert(
+        `已检查 ${result.checked} 只股票，新增 ${result.triggered} 条提醒` +
+          (result.failed.length > 0 ? `\n行情获取失败：${result.failed.join("、")}` : "")
+      );
+    } catch (e: any) {
+      alert(`检查失败: ${e?.message || "未知错误"}`);
+    } finally {
+      setEvaluating(false);
+    }
+  }
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative" aria-label="提醒">
+            <Bell className="h-5 w-5" />
+            {unread > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 rounded-full bg-destructive px-1 text-[10px] font-mono leading-4 text-white">
+                {unread > 99 ? "99+" : unread}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center gap-1 border-b border-border px-3 py-2">
+            <span className="text-sm font-medium text-foreground">提醒</span>
+            <span className="text-xs text-muted-foreground">{unread} 条未读</span>
+            <div className="ml-auto flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={unread === 0}
+                onClick={handleReadAll}
+              >
+                全部已读
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={evaluating}
+                onClick={handleEvaluate}
+              >
+                {evaluating ? "检查中…" : "立即检查"}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  setOpen(false);
+                  setRulesOpen(true);
+                }}
+              >
+                规则
+              </Button>
+            </div>
+          </div>
+          <ul className="max-h-96 overflow-y-auto">
+            {events.length === 0 ? (
+              <li className="px-3 py-6 text-center text-xs text-muted-foreground">暂无提醒</li>
+            ) : (
+              events.map((event) => (
+                <li key={event.id}>
+                  <button
+                    type="button"
+                    className={`w-full text-left px-3 py-2 border-b border-border last:border-b-0 hover:bg-secondary/50 ${
+                      event.read ? "" : "bg-primary/5"
+                    }`}
+                    onClick={() => handleClick(event)}
+                  >
+                    <div className="flex items-center gap-2 text-xs">
+                      {!event.read && <span className="h-1.5 w-1.5 rounded-full bg-destructive" />}
+                      <span className="font-medium text-foreground">{event.name || event.code}</span>
+                      <span className="font-mono text-muted-foreground">{event.code}</span>
+                      <span className="text-primary">{ALERT_KIND_LABELS[event.kind]}</span>
+                      <span className="ml-auto font-mono text-muted-foreground">{event.tradeDate}</span>
+                    </div>
+                    <p className="mt-0.5 text-xs text-muted-foreground">{event.message}</p>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={rulesOpen} onOpenChange={setRulesOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>全局提醒规则</DialogTitle>
+            <DialogDescription>
+              作用于近 30 天录入过的股票以及关注中的股票，每个交易日收盘后评估；
+              单只股票的规则在个股详情中设置
+            </DialogDescription>
+          </DialogHeader>
+          <AlertRuleEditor code={null} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
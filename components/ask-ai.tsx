@@ -4,61 +4,260 @@ import { useState, useRef, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type { ChatMessage, ChatThread, ChatThreadSummary } from "@/lib/types";
+import {
+  createChatThread,
+  deleteChatThread,
+  getChatThread,
+  getChatThreads,
+  sendChatMessage,
+  updateChatThread,
+} from "@/lib/store";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
+  // 回答未完整输出时的原因，部分内容仍保留在对话中
+  interrupted?: "cancelled" | "error";
+  // 生成回答时查询过的数据（工具名）
+  tools?: string[];
 }
 
-export function AskAI() {
+// 打开与某个交易日或个股关联的对话：nonce 变化时打开最近一个关联对话，没有则新建
+export interface AskAIFocus {
+  code?: string;
+  date?: string;
+  title?: string;
+  nonce: number;
+}
+
+interface AskAIProps {
+  focus?: AskAIFocus | null;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  search_signals: "信号库",
+  get_ma_status: "均线状态",
+  get_limit_up: "涨停记录",
+  get_sector_stats: "板块统计",
+};
+
+function toMessage(m: ChatMessage): Message {
+  return {
+    role: m.role,
+    content: m.content,
+    interrupted:
+      m.status === "cancelled" ? "cancelled" : m.status === "interrupted" ? "error" : undefined,
+    tools: m.tools.length > 0 ? m.tools.map((t) => TOOL_LABELS[t] ?? t) : undefined,
+  };
+}
+
+// 解析关联输入：交易日 YYYY-MM-DD 和/或 6 位代码，空格分隔；格式错误时返回 null
+function parseLink(text: string): { date: string | null; code: string | null } | null {
+  const link: { date: string | null; code: string | null } = { date: null, code: null };
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(token)) link.date = token;
+    else if (/^\d{6}$/.test(token)) link.code = token;
+    else return null;
+  }
+  return link;
+}
+
+function ThreadLinks({ thread }: { thread: Pick<ChatThread, "date" | "code"> }) {
+  return (
+    <>
+      {thread.date && (
+        <Badge variant="outline" className="text-[10px] font-mono px-1.5 py-0">
+          {thread.date}
+        </Badge>
+      )}
+      {thread.code && (
+        <Badge variant="outline" className="text-[10px] font-mono px-1.5 py-0">
+          {thread.code}
+        </Badge>
+      )}
+    </>
+  );
+}
+
+export function AskAI({ focus = null }: AskAIProps) {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [threadsVersion, setThreadsVersion] = useState(0);
+  const [current, setCurrent] = useState<ChatThread | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // 卸载时中止进行中的回答
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getChatThreads().then((list) => {
+      if (cancelled) return;
+      setThreads(list);
+      // 第一条提问会自动成为标题，同步到当前对话
+      setCurrent((prev) => {
+        const summary = prev && list.find((t) => t.id === prev.id);
+        return summary ? { ...prev, title: summary.title } : prev;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadsVersion]);
+
+  function openThread(thread: ChatThread) {
+    setCurrent(thread);
+    setMessages(thread.messages.map(toMessage));
+    setError(null);
+  }
+
+  // 从个股行等处跳转：打开最近一个关联对话，没有则新建
+  useEffect(() => {
+    if (!focus || (!focus.code && !focus.date)) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const [latest] = await getChatThreads({ code: focus.code, date: focus.date, limit: 1 });
+        const thread = latest
+          ? await getChatThread(latest.id)
+          : await createChatThread({ code: focus.code, date: focus.date, title: focus.title });
+        if (cancelled || !thread) return;
+        openThread(thread);
+        if (!latest) setThreadsVersion((v) => v + 1);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "打开对话失败");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [focus]);
+
+  async function handleOpen(id: number) {
+    if (loading) return;
+    const thread = await getChatThread(id);
+    if (!thread) {
+      setError("对话不存在或加载失败");
+      return;
+    }
+    openThread(thread);
+  }
+
+  function handleNew() {
+    if (loading) return;
+    setCurrent(null);
+    setMessages([]);
+    setError(null);
+  }
+
+  async function handleRename() {
+    if (!current) return;
+    const title = window.prompt("对话标题", current.title);
+    if (title === null || !title.trim()) return;
+    try {
+      const thread = await updateChatThread(current.id, { title: title.trim() });
+      setCurrent({ ...current, title: thread.title });
+      setThreadsVersion((v) => v + 1);
+    } catch (e: any) {
+      alert(`改名失败: ${e.message || "未知错误"}`);
+    }
+  }
+
+  async function handleLink() {
+    if (!current) return;
+    const text = window.prompt(
+      "关联交易日（YYYY-MM-DD）和/或股票代码（6 位），空格分隔；留空取消关联",
+      [current.date, current.code].filter(Boolean).join(" ")
+    );
+    if (text === null) return;
+    const link = parseLink(text);
+    if (!link) {
+      alert("格式错误：请输入 YYYY-MM-DD 日期和/或 6 位股票代码");
+      return;
+    }
+    try {
+      const thread = await updateChatThread(current.id, link);
+      setCurrent({ ...current, date: thread.date, code: thread.code });
+      setThreadsVersion((v) => v + 1);
+    } catch (e: any) {
+      alert(`修改关联失败: ${e.message || "未知错误"}`);
+    }
+  }
+
+  async function handleDelete() {
+    if (!current) return;
+    if (!window.confirm(`确定删除对话「${current.title}」吗？`)) return;
+    try {
+      await deleteChatThread(current.id);
+      handleNew();
+      setThreadsVersion((v) => v + 1);
+    } catch (e: any) {
+      alert(`删除失败: ${e.message || "未知错误"}`);
+    }
+  }
+
   async function handleSend() {
     const text = input.trim();
     if (!text || loading) return;
 
     setInput("");
     setError(null);
-    const userMsg: Message = { role: "user", content: text };
-    setMessages((prev) => [...prev, userMsg]);
+    const previous = messages;
+    setMessages([...previous, { role: "user", content: text }, { role: "assistant", content: "" }]);
     setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // 更新最后一条（正在生成的）回答
+    const updateAnswer = (update: (m: Message) => Message) =>
+      setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
 
     try {
-      const res = await fetch("/api/ai/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [...messages, userMsg].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        }),
+      // 尚未打开对话时先新建
+      let thread = current;
+      if (!thread) {
+        thread = await createChatThread();
+        setCurrent(thread);
+      }
+      const result = await sendChatMessage(thread.id, text, {
+        signal: controller.signal,
+        onDelta: (delta) => updateAnswer((m) => ({ ...m, content: m.content + delta })),
+        onTool: ({ name }) =>
+          updateAnswer((m) => ({ ...m, tools: [...(m.tools ?? []), TOOL_LABELS[name] ?? name] })),
       });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data.error || "请求失败");
+      if (result.status === "done") {
+        updateAnswer((m) => ({ ...m, content: result.data.content || m.content }));
+      } else if (result.partial) {
+        updateAnswer((m) => ({
+          ...m,
+          content: result.partial,
+          interrupted: result.status === "cancelled" ? "cancelled" : "error",
+        }));
+        if (result.status === "error") setError(result.error);
+      } else {
+        // 流已开始时提问已保存，只移除空的回答
+        if (result.status === "error") setError(result.error);
         setMessages((prev) => prev.slice(0, -1));
-        return;
       }
-
-      setMessages((prev) => [
-        ...prev,
-        { role: "assistant", content: data.content || "" },
-      ]);
+      // 取消后服务端异步保存，稍后刷新列表（标题与更新时间）
+      setTimeout(() => setThreadsVersion((v) => v + 1), result.status === "cancelled" ? 1000 : 0);
     } catch (e: any) {
+      // 请求未被接受（提问未保存）：撤回问题，放回输入框
       setError(e?.message || "网络错误");
-      setMessages((prev) => prev.slice(0, -1));
+      setMessages(previous);
+      setInput(text);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   }
@@ -70,64 +269,155 @@ export function AskAI() {
           询问 AI
         </CardTitle>
         <p className="text-xs text-muted-foreground">
-          可提问复盘、板块、个股等相关问题
+          可提问复盘、板块、个股等相关问题，AI 会查询信号库与行情后回答；对话自动保存
         </p>
       </CardHeader>
-      <CardContent className="flex flex-col gap-4">
-        <div className="rounded-lg border border-border bg-background/50 min-h-[320px] max-h-[480px] overflow-y-auto p-4 flex flex-col gap-3">
-          {messages.length === 0 && (
-            <p className="text-sm text-muted-foreground py-8 text-center">
-              输入问题后按回车或点击发送
-            </p>
+      <CardContent className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4">
+        <div className="flex flex-col gap-2">
+          <Button variant="outline" size="sm" onClick={handleNew} disabled={loading}>
+            新对话
+          </Button>
+          <div className="flex flex-col gap-1 max-h-[520px] overflow-y-auto pr-1">
+            {threads.length === 0 && (
+              <p className="text-xs text-muted-foreground py-4 text-center">暂无对话</p>
+            )}
+            {threads.map((thread) => (
+              <button
+                key={thread.id}
+                type="button"
+                onClick={() => handleOpen(thread.id)}
+                className={`flex flex-col gap-0.5 rounded-md border px-3 py-2 text-left ${
+                  current?.id === thread.id
+                    ? "border-primary/60 bg-primary/5"
+                    : "border-border bg-secondary/40 hover:bg-secondary"
+                }`}
+              >
+                <span className="text-sm text-foreground truncate">{thread.title}</span>
+                <span className="flex flex-wrap items-center gap-1 text-[11px] text-muted-foreground">
+                  <ThreadLinks thread={thread} />
+                  {thread.messageCount} 条
+                </span>
+                {thread.preview && (
+                  <span className="text-[11px] text-muted-foreground truncate">
+                    {thread.preview}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 min-w-0">
+          {current && (
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium text-foreground truncate">{current.title}</p>
+              <ThreadLinks thread={current} />
+              <div className="ml-auto flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={handleRename}
+                >
+                  改名
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={handleLink}
+                >
+                  关联
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  onClick={handleDelete}
+                  disabled={loading}
+                >
+                  删除
+                </Button>
+              </div>
+            </div>
           )}
-          {messages.map((m, i) => (
-            <div
-              key={i}
-              className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}
-            >
+
+          <div className="rounded-lg border border-border bg-background/50 min-h-[320px] max-h-[480px] overflow-y-auto p-4 flex flex-col gap-3">
+            {messages.length === 0 && (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                输入问题后按回车或点击发送
+              </p>
+            )}
+            {/* 正在生成且尚无输出的回答显示为「思考中…」 */}
+            {messages.filter((m) => m.content !== "" || m.tools).map((m, i) => (
               <div
-                className={`max-w-[85%] rounded-lg px-4 py-2.5 text-sm ${
-                  m.role === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-secondary text-foreground"
-                }`}
+                key={i}
+                className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}
               >
-                <div className="whitespace-pre-wrap break-words">
-                  {m.content}
+                <div
+                  className={`max-w-[85%] rounded-lg px-4 py-2.5 text-sm ${
+                    m.role === "user"
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-secondary text-foreground"
+                  }`}
+                >
+                  {m.tools && (
+                    <p className="mb-1 text-[11px] text-muted-foreground">
+                      已查询：{[...new Set(m.tools)].join("、")}
+                    </p>
+                  )}
+                  <div className="whitespace-pre-wrap break-words">
+                    {m.content}
+                  </div>
+                  {m.interrupted && (
+                    <p className="mt-1 text-[11px] text-amber-500">
+                      {m.interrupted === "cancelled" ? "（已取消）" : "（输出中断）"}
+                    </p>
+                  )}
                 </div>
               </div>
-            </div>
-          ))}
-          {loading && (
-            <div className="flex justify-start">
-              <div className="bg-secondary rounded-lg px-4 py-2.5 text-sm text-muted-foreground animate-pulse">
-                思考中…
+            ))}
+            {loading && messages[messages.length - 1]?.content === "" && (
+              <div className="flex justify-start">
+                <div className="bg-secondary rounded-lg px-4 py-2.5 text-sm text-muted-foreground animate-pulse">
+                  思考中…
+                </div>
               </div>
-            </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
           )}
-          <div ref={bottomRef} />
-        </div>
 
-        {error && (
-          <p className="text-sm text-destructive">{error}</p>
-        )}
-
-        <div className="flex gap-2">
-          <Input
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSend()}
-            placeholder="输入问题..."
-            className="flex-1 bg-secondary text-foreground border-border"
-            disabled={loading}
-          />
-          <Button
-            onClick={handleSend}
-            disabled={loading || !input.trim()}
-            className="shrink-0"
-          >
-            发送
-          </Button>
+          <div className="flex gap-2">
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSend()}
+              placeholder="输入问题..."
+              className="flex-1 bg-secondary text-foreground border-border"
+              disabled={loading}
+            />
+            {loading ? (
+              <Button
+                variant="outline"
+                onClick={() => abortRef.current?.abort()}
+                className="shrink-0"
+              >
+                停止
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="shrink-0"
+              >
+                发送
+              </Button>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -13,6 +13,7 @@ interface CandlestickChartProps {
   ma20?: number | null;
   width?: number;
   height?: number;
+  paddingLeft?: number; // 左侧留白，迷你图可设为较小值
   className?: string;
 }
 
@@ -24,11 +25,12 @@ export function CandlestickChart({
   ma20 = null,
   width = 200,
   height = 56,
+  paddingLeft = 28,
   className = "",
 }: CandlestickChartProps) {
   if (!data || data.length === 0) return null;
 
-  const padding = { top: 4, right: 4, bottom: 4, left: 28 };
+  const padding = { top: 4, right: 4, bottom: 4, left: paddingLeft };
   const chartWidth = width - padding.left - padding.right;
   const chartHeight = height - padding.top - padding.bottom;
 
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ForwardHorizon, ForwardReturnStat } from "@/lib/types";
+import { evaluateForwardReturns, getForwardReturnStats } from "@/lib/store";
+
+interface ForwardReturnStatsProps {
+  dataVersion?: number; // 信号数据变更后递增，用于重新统计
+  onEvaluated?: () => void; // 评估完成后通知上层刷新列表
+}
+
+const HORIZONS: ForwardHorizon[] = [1, 3, 5, 10];
+
+export function PctText({ value }: { value: number | null | undefined }) {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return (
+    <span
+      className={
+        value > 0 ? "text-stock-up" : value < 0 ? "text-stock-down" : "text-muted-foreground"
+      }
+    >
+      {value > 0 ? "+" : ""}
+      {value.toFixed(2)}%
+    </span>
+  );
+}
+
+function StatTable({ title, stats }: { title: string; stats: ForwardReturnStat[] }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <div className="overflow-x-auto rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-transparent">
+              <TableHead className="text-muted-foreground whitespace-nowrap">分组</TableHead>
+              <TableHead className="text-muted-foreground text-right whitespace-nowrap">样本</TableHead>
+              <TableHead className="text-muted-foreground text-right whitespace-nowrap">次日开盘</TableHead>
+              {HORIZONS.map((n) => (
+                <TableHead key={n} className="text-muted-foreground text-right whitespace-nowrap">
+                  T+{n} 收益 / 胜率
+                </TableHead>
+              ))}
+              <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                10日最高 / 回撤
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                  暂无已评估的记录
+                </TableCell>
+              </TableRow>
+            ) : (
+              stats.map((s) => (
+                <TableRow key={s.group} className="border-border hover:bg-secondary/50">
+                  <TableCell className="font-medium text-foreground whitespace-nowrap">{s.group}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">{s.count}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    <PctText value={s.next_open} />
+                  </TableCell>
+                  {HORIZONS.map((n) => {
+                    const h = s.horizons[n];
+                    return (
+                      <TableCell
+                        key={n}
+                        className="text-right font-mono text-xs whitespace-nowrap"
+                        title={`样本 ${h.samples}，平均最高 ${h.avg_max_high ?? "-"}%，平均回撤 ${h.avg_max_drawdown ?? "-"}%`}
+                      >
+                        <PctText value={h.avg_close} />
+                        <span className="text-muted-foreground">
+                          {" / "}
+                          {h.win_rate !== null ? `${h.win_rate.toFixed(0)}%` : "-"}
+                        </span>
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+                    <PctText value={s.horizons[10].avg_max_high} />
+                    <span className="text-muted-foreground"> / </span>
+                    <PctText value={s.horizons[10].avg_max_drawdown} />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// 后续表现统计：按评分档与板块分时分组，检验评分是否有预测力
+export function ForwardReturnStats({ dataVersion = 0, onEvaluated }: ForwardReturnStatsProps) {
+  const [stats, setStats] = useState<{
+    byScore: ForwardReturnStat[];
+    byPattern: ForwardReturnStat[];
+  }>({ byScore: [], byPattern: [] });
+  const [evaluating, setEvaluating] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [statsVersion, setStatsVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getForwardReturnStats().then((data) => {
+      if (!cancelled) setStats(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion, statsVersion]);
+
+  // 分批评估直到没有待更新记录（或某一批没有处理任何记录）；失败的记录进入退避期，不会重复占用后续批次
+  async function handleEvaluate() {
+    setEvaluating(true);
+    setError(null);
+    let evaluated = 0;
+    let skipped = 0;
+    try {
+      for (;;) {
+        const result = await evaluateForwardReturns();
+        evaluated += result.evaluated;
+        skipped = result.skipped; // 含本次失败的记录
+        setProgress(`已更新 ${evaluated} 条，剩余 ${result.remaining} 条待评估…`);
+        if (result.remaining === 0 || result.evaluated + result.failed === 0) break;
+      }
+      setProgress(
+        `已更新 ${evaluated} 条${skipped > 0 ? `，${skipped} 条未取到录入日行情，几天后再试` : ""}。`
+      );
+    } catch (e: any) {
+      setError(e?.message || "评估失败，请重试");
+    } finally {
+      setEvaluating(false);
+      setStatsVersion((v) => v + 1);
+      onEvaluated?.();
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-foreground">
+          后续表现统计
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          以录入日收盘价为基准，统计之后第 1/3/5/10 个交易日的收盘涨跌幅与胜率（收盘为正的比例），
+          以及区间最高涨幅和最大回撤，用来检验评分与板块分时是否有预测力。
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Button size="sm" variant="outline" onClick={handleEvaluate} disabled={evaluating}>
+            {evaluating ? "评估中…" : "更新后续表现"}
+          </Button>
+          {progress && <span className="text-xs text-muted-foreground">{progress}</span>}
+          {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+        <StatTable title="按评分" stats={stats.byScore} />
+        <StatTable title="按板块分时" stats={stats.byPattern} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,23 +11,46 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-import type { SignalRecord, SectorScreenshot } from "@/lib/types";
+import type {
+  SignalNotesPatch,
+  SignalRecord,
+  SectorMarket,
+  SectorScreenshot,
+  SectorStat,
+  UpsertPolicy,
+  UpsertResult,
+} from "@/lib/types";
 import { SignalInput } from "@/components/signal-input";
+import { RecordEditDialog } from "@/components/record-edit-dialog";
+import { RecordNotesDialog } from "@/components/record-notes-dialog";
+import { CandlestickChart } from "@/components/candlestick-chart";
+import { PctText } from "@/components/forward-return-stats";
 import {
   getStockHistory,
   getSectorStats,
   exportToCSV,
   exportToJSON,
   getSectorScreenshotsForDate,
-  upsertSectorScreenshot,
-
+  addSectorScreenshot,
+  updateSectorScreenshot,
+  deleteSectorScreenshot,
+  reorderSectorScreenshots,
+  getRecords,
+  getSectorMarkets,
+  syncSectorIndices,
+  setSectorIndexMapping,
 } from "@/lib/store";
 
 interface HistoryPanelProps {
-  records: SignalRecord[];
+  records: SignalRecord[]; // 近30天记录（用于顶部统计与导出）
+  dataVersion?: number; // 信号数据变更后递增，用于重新加载日历当月记录与板块统计
   existingSectors?: string[];
   onClear: () => void;
-  onAddRecords?: (records: SignalRecord[]) => void;
+  onAddRecords?: (records: SignalRecord[], policy: UpsertPolicy) => void | Promise<void>;
+  lastSaveResult?: UpsertResult | null; // 最近一次录入的新增/更新/跳过统计
+  onUpdateRecord?: (id: number, patch: Partial<SignalRecord>) => Promise<void>;
+  onUpdateNotes?: (id: number, patch: SignalNotesPatch) => Promise<void>;
+  onDeleteRecord?: (id: number) => Promise<void>;
   onUnsavedChange?: (dirty: boolean) => void;
 }
 
@@ -35,6 +58,18 @@ function getMonthDays(year: number, month: number) {
   return new Date(year, month + 1, 0).getDate();
 }
 
+// 解析「HH:mm 说明」形式的输入，时间可省略（取 fallbackTime）
+function parseShotInput(
+  input: string,
+  fallbackTime: string
+): { captureTime: string; caption: string | null } {
+  const match = /^\s*(\d{1,2}:\d{2})?\s*(.*)$/.exec(input);
+  return {
+    captureTime: match?.[1] ? match[1].padStart(5, "0") : fallbackTime,
+    caption: match?.[2].trim() || null,
+  };
+}
+
 function getFirstDayOfWeek(year: number, month: number) {
   // 0=Sun, 1=Mon ... 6=Sat — shift so Mon=0
   const d = new Date(year, month, 1).getDay();
@@ -69,6 +104,21 @@ function getNonTradingDayTip(dateStr: string, nonTradingDays: Set<string>): stri
 
 const WEEKDAYS = ["一", "二", "三", "四", "五", "六", "日"];
 
+// 板块指数行情摘要：当日涨跌、5 日动量与近 20 日迷你K线
+function SectorMarketSummary({ market }: { market: SectorMarket }) {
+  return (
+    <div
+      className="flex items-center gap-2 text-[11px] font-mono"
+      title={`${market.indexName}（${market.indexCode}）截至 ${market.tradeDate}`}
+    >
+      <PctText value={market.pctChg} />
+      <span className="text-muted-foreground">5日</span>
+      <PctText value={market.momentum5} />
+      <CandlestickChart data={market.bars} width={100} height={28} paddingLeft={2} />
+    </div>
+  );
+}
+
 interface DayCellData {
   count: number;
   records: SignalRecord[];
@@ -76,9 +126,14 @@ interface DayCellData {
 
 export function HistoryPanel({
   records,
+  dataVersion = 0,
   existingSectors = [],
   onClear,
   onAddRecords,
+  lastSaveResult,
+  onUpdateRecord,
+  onUpdateNotes,
+  onDeleteRecord,
   onUnsavedChange,
 }: HistoryPanelProps) {
   const today = new Date();
@@ -86,11 +141,14 @@ export function HistoryPanel({
   const [viewMonth, setViewMonth] = useState(today.getMonth());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [selectedSector, setSelectedSector] = useState<string | null>(null);
+  // 预览中的板块与当前第几张（截图列表取自 sectorScreenshots，增删改后自动同步）
   const [previewShot, setPreviewShot] = useState<{
-    url: string;
-    title: string;
+    sector: string;
+    index: number;
   } | null>(null);
   const [inputOpen, setInputOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<SignalRecord | null>(null);
+  const [notesRecord, setNotesRecord] = useState<SignalRecord | null>(null);
   const [hasUnsavedInput, setHasUnsavedInput] = useState(false);
   const [sectorShotVersion, setSectorShotVersion] = useState(0);
   const [sectorScreenshots, setSectorScreenshots] = useState<
@@ -123,10 +181,25 @@ export function HistoryPanel({
     loadTradeCal();
   }, [viewYear, viewMonth]);
 
+  // 日历当月记录：按月份向服务端查询，不受「近30天」限制
+  const [monthRecords, setMonthRecords] = useState<SignalRecord[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const from = `${viewYear}-${pad(viewMonth + 1)}-01`;
+    const to = `${viewYear}-${pad(viewMonth + 1)}-${pad(getMonthDays(viewYear, viewMonth))}`;
+    getRecords({ from, to }).then((recs) => {
+      if (!cancelled) setMonthRecords(recs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewYear, viewMonth, dataVersion]);
+
   // Group records by date
   const dateMap = useMemo(() => {
     const map = new Map<string, DayCellData>();
-    for (const r of records) {
+    for (const r of monthRecords) {
       if (!map.has(r.date)) {
         map.set(r.date, { count: 0, records: [] });
       }
@@ -135,9 +208,76 @@ export function HistoryPanel({
       d.records.push(r);
     }
     return map;
-  }, [records]);
+  }, [monthRecords]);
+
+  // 近30天与当月记录中用过的标签，按使用次数排序，供笔记弹窗提示
+  const usedTags = useMemo(() => {
+    const seen = new Set<number | undefined>();
+    const counts = new Map<string, number>();
+    for (const r of [...records, ...monthRecords]) {
+      if (r.id != null && seen.has(r.id)) continue;
+      seen.add(r.id);
+      for (const t of r.tags ?? []) counts.set(t, (counts.get(t) ?? 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([t]) => t);
+  }, [records, monthRecords]);
+
+  // 板块统计（近30天出现次数排名），由服务端按关联表聚合
+  const [sectorStats, setSectorStats] = useState<SectorStat[]>([]);
+  const [sectorMarketVersion, setSectorMarketVersion] = useState(0);
+  const [syncingSectors, setSyncingSectors] = useState(false);
+  const [sectorSyncMessage, setSectorSyncMessage] = useState<string | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - 30);
+    getSectorStats({ from: cutoff.toISOString().slice(0, 10), limit: 15 }).then(
+      (stats) => {
+        if (!cancelled) setSectorStats(stats);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion, sectorMarketVersion]);
+
+  // 匹配板块指数并拉取日线，完成后刷新板块统计与当日板块行情
+  async function handleSyncSectors() {
+    setSyncingSectors(true);
+    setSectorSyncMessage(null);
+    try {
+      const { mapping, daily } = await syncSectorIndices();
+      const parts = [`新匹配 ${mapping.matched} 个板块`, `新增日线 ${daily.inserted} 条`];
+      if (mapping.unmatched.length > 0) {
+        parts.push(`未匹配：${mapping.unmatched.join("、")}`);
+      }
+      if (daily.failed.length > 0) {
+        parts.push(`${daily.failed.length} 个指数拉取失败`);
+      }
+      setSectorSyncMessage(parts.join("，"));
+      setSectorMarketVersion((v) => v + 1);
+    } catch (error: any) {
+      setSectorSyncMessage(error?.message || "同步板块行情失败");
+    } finally {
+      setSyncingSectors(false);
+    }
+  }
 
-  const sectorStats = useMemo(() => getSectorStats(records), [records]);
+  // 未匹配的板块手动填写指数代码
+  async function handleMapSectorIndex(sector: string) {
+    const code = window.prompt(
+      `为「${sector}」指定板块指数代码（如 885431.TI），留空取消：`
+    );
+    if (!code || !code.trim()) return;
+    try {
+      await setSectorIndexMapping(sector, code.trim());
+      setSectorMarketVersion((v) => v + 1);
+    } catch (error: any) {
+      alert(error?.message || "设置板块指数失败");
+    }
+  }
 
   // Build calendar grid
   const totalDays = getMonthDays(viewYear, viewMonth);
@@ -228,19 +368,35 @@ export function HistoryPanel({
 
           return Array.from(sectorMap.entries())
             .map(([sector, { count }]) => {
-              const shot = sectorScreenshots.find(
-                (s) => s.sector === sector
-              );
               return {
                 sector,
                 count,
-                imageDataUrl: shot?.imageDataUrl ?? null,
+                shots: sectorScreenshots.filter((s) => s.sector === sector),
               };
             })
             .sort((a, b) => b.count - a.count || a.sector.localeCompare(b.sector));
         })()
       : [];
 
+  // 选中日期各板块的指数行情（截至该日）
+  const selectedSectorNames = selectedDateSectors.map((s) => s.sector).join("|");
+  const [selectedSectorMarkets, setSelectedSectorMarkets] = useState<
+    Record<string, SectorMarket | null>
+  >({});
+  useEffect(() => {
+    if (!selectedDate || !selectedSectorNames) {
+      setSelectedSectorMarkets({});
+      return;
+    }
+    let cancelled = false;
+    getSectorMarkets(selectedSectorNames.split("|"), selectedDate).then((markets) => {
+      if (!cancelled) setSelectedSectorMarkets(markets);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate, selectedSectorNames, sectorMarketVersion]);
+
   const handlePasteSectorShot = useCallback(
     async (e: React.ClipboardEvent<HTMLDivElement>, sector: string) => {
       if (!selectedDate) return;
@@ -250,19 +406,35 @@ export function HistoryPanel({
         if (item.kind === "file" && item.type.startsWith("image/")) {
           const file = item.getAsFile();
           if (!file) continue;
+          e.preventDefault();
+          // 当天截图默认取当前时间，历史日期默认收盘
+          const now = new Date();
+          const defaultTime =
+            selectedDate === now.toISOString().slice(0, 10)
+              ? `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`
+              : "15:00";
+          const input = window.prompt(
+            `截图时间与说明（如「10:30 冲高回落」），时间留空则为 ${defaultTime}`,
+            defaultTime
+          );
+          if (input === null) return;
+          const { captureTime, caption } = parseShotInput(input, defaultTime);
+
           const reader = new FileReader();
           reader.onload = async () => {
             if (typeof reader.result === "string") {
-              await upsertSectorScreenshot({
+              const saved = await addSectorScreenshot({
                 date: selectedDate,
                 sector,
                 imageDataUrl: reader.result as string,
+                captureTime,
+                caption: caption ?? undefined,
               });
+              if (!saved) alert("保存截图失败，请检查截图时间（HH:mm）与图片格式（PNG/JPEG/WebP/GIF，最大 10MB）");
               setSectorShotVersion((v) => v + 1);
             }
           };
           reader.readAsDataURL(file);
-          e.preventDefault();
           break;
         }
       }
@@ -270,6 +442,82 @@ export function HistoryPanel({
     [selectedDate]
   );
 
+  const previewShots = previewShot
+    ? sectorScreenshots.filter((s) => s.sector === previewShot.sector)
+    : [];
+  const previewIndex = previewShot
+    ? Math.min(previewShot.index, previewShots.length - 1)
+    : 0;
+  const previewCurrent = previewShots[previewIndex] ?? null;
+
+  // 删除最后一张后自动关闭预览
+  useEffect(() => {
+    if (previewShot && previewShots.length === 0) setPreviewShot(null);
+  }, [previewShot, previewShots.length]);
+
+  const pagePreview = useCallback(
+    (delta: number) => {
+      setPreviewShot((p) => {
+        if (!p) return p;
+        const count = sectorScreenshots.filter((s) => s.sector === p.sector).length;
+        return { ...p, index: Math.min(Math.max(p.index + delta, 0), count - 1) };
+      });
+    },
+    [sectorScreenshots]
+  );
+
+  // 预览时 ← / → 翻页，Esc 关闭
+  useEffect(() => {
+    if (!previewShot) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") pagePreview(-1);
+      else if (e.key === "ArrowRight") pagePreview(1);
+      else if (e.key === "Escape") setPreviewShot(null);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [previewShot, pagePreview]);
+
+  async function handleEditShot(shot: SectorScreenshot) {
+    const input = window.prompt(
+      "修改截图时间与说明（如「10:30 冲高回落」）",
+      `${shot.captureTime} ${shot.caption ?? ""}`.trim()
+    );
+    if (input === null) return;
+    try {
+      await updateSectorScreenshot(shot.id, parseShotInput(input, shot.captureTime));
+      setSectorShotVersion((v) => v + 1);
+    } catch (error: any) {
+      alert(error?.message || "修改截图失败");
+    }
+  }
+
+  async function handleMoveShot(shot: SectorScreenshot, delta: number) {
+    const shots = sectorScreenshots.filter((s) => s.sector === shot.sector);
+    const from = shots.findIndex((s) => s.id === shot.id);
+    const to = from + delta;
+    if (from < 0 || to < 0 || to >= shots.length) return;
+    const ids = shots.map((s) => s.id);
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    try {
+      await reorderSectorScreenshots(shot.date, shot.sector, ids);
+      setPreviewShot((p) => (p ? { ...p, index: to } : p));
+      setSectorShotVersion((v) => v + 1);
+    } catch (error: any) {
+      alert(error?.message || "调整截图顺序失败");
+    }
+  }
+
+  async function handleDeleteShot(shot: SectorScreenshot) {
+    if (!window.confirm(`确定删除 ${shot.sector} ${shot.captureTime} 的截图吗？`)) return;
+    try {
+      await deleteSectorScreenshot(shot.id);
+      setSectorShotVersion((v) => v + 1);
+    } catch (error: any) {
+      alert(error?.message || "删除截图失败");
+    }
+  }
+
   // Heat color based on count
   function getCellBg(data: DayCellData | undefined) {
     if (!data) return "bg-muted/40";
@@ -304,6 +552,11 @@ export function HistoryPanel({
               <span className="text-sm font-normal text-muted-foreground ml-2">
                 {records.length} 条 / {uniqueDates.length} 天 / {stockHistory.length} 只去重
               </span>
+              {lastSaveResult && (
+                <span className="text-xs font-normal text-muted-foreground ml-3">
+                  上次录入：新增 {lastSaveResult.created} / 更新 {lastSaveResult.updated} / 跳过 {lastSaveResult.skipped}
+                </span>
+              )}
             </span>
             <div className="flex items-center gap-2">
               <Button
@@ -579,7 +832,7 @@ export function HistoryPanel({
                     .sort((a, b) => a.code.localeCompare(b.code))
                     .map((r, i) => (
                       <div
-                        key={`${r.code}-${i}`}
+                        key={r.id ?? `${r.code}-${i}`}
                         className="group relative flex items-start justify-between gap-4 rounded-lg border-2 border-border bg-gradient-to-br from-card to-secondary/30 px-4 py-3 shadow-sm hover:shadow-md hover:border-primary/40 transition-all"
                       >
                         <div className="flex flex-col gap-2 min-w-0 flex-1">
@@ -656,7 +909,65 @@ export function HistoryPanel({
                               </div>
                             )}
                           </div>
+
+                          {/* 第四行：复盘笔记与标签 */}
+                          {(r.note || (r.tags && r.tags.length > 0)) && (
+                            <div className="flex flex-col gap-1 mt-1 rounded-md bg-secondary/40 px-2 py-1.5">
+                              {r.tags && r.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {r.tags.map((t) => (
+                                    <span key={t} className="text-[11px] text-primary">
+                                      #{t}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {r.note && (
+                                <p className="text-xs text-muted-foreground whitespace-pre-wrap line-clamp-3">
+                                  {r.note}
+                                </p>
+                              )}
+                            </div>
+                          )}
                         </div>
+                        {r.id != null && (onUpdateRecord || onUpdateNotes || onDeleteRecord) && (
+                          <div className="flex flex-col gap-1 shrink-0">
+                            {onUpdateRecord && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                                onClick={() => setEditingRecord(r)}
+                              >
+                                修改
+                              </Button>
+                            )}
+                            {onUpdateNotes && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                                onClick={() => setNotesRecord(r)}
+                              >
+                                笔记
+                              </Button>
+                            )}
+                            {onDeleteRecord && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => {
+                                  if (window.confirm(`确定删除 ${r.date} ${r.code} ${r.name} 这条记录吗？`)) {
+                                    onDeleteRecord(r.id as number);
+                                  }
+                                }}
+                              >
+                                删除
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                 </div>
@@ -698,36 +1009,55 @@ export function HistoryPanel({
                               {s.sector}
                             </button>
                             <div className="flex items-center gap-2">
+                              {selectedSectorMarkets[s.sector] ? (
+                                <SectorMarketSummary market={selectedSectorMarkets[s.sector]!} />
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => handleMapSectorIndex(s.sector)}
+                                  className="text-[11px] text-muted-foreground hover:text-primary hover:underline"
+                                  title="尚未匹配板块指数或未同步日线，点击手动指定指数代码"
+                                >
+                                  无指数行情
+                                </button>
+                              )}
                               <Badge className="bg-primary/15 text-primary border-0 text-[11px]">
                                 {s.count} 只
                               </Badge>
                             </div>
                           </div>
                           <div
-                            className="mt-1 rounded-md border border-dashed border-border/60 bg-muted/40 flex items-center justify-center text-[11px] text-muted-foreground overflow-hidden max-h-64"
+                            className="mt-1 rounded-md border border-dashed border-border/60 bg-muted/40 flex flex-col gap-1 p-1 text-[11px] text-muted-foreground overflow-hidden"
                             onPaste={(e) => handlePasteSectorShot(e, s.sector)}
                             tabIndex={0}
                           >
-                            {s.imageDataUrl ? (
-                              <button
-                                type="button"
-                                className="w-full h-full flex items-center justify-center"
-                                onClick={() =>
-                                  setPreviewShot({
-                                    url: s.imageDataUrl as string,
-                                    title: `${selectedDate ?? ""} ${s.sector}`.trim(),
-                                  })
-                                }
-                              >
-                                <img
-                                  src={s.imageDataUrl}
-                                  alt={`${s.sector} 分时截图`}
-                                  className="w-full h-auto object-contain cursor-zoom-in"
-                                />
-                              </button>
-                            ) : (
-                              "分时截图（选中此区域后直接 Ctrl+V 粘贴图片上传）"
+                            {s.shots.length > 0 && (
+                              <div className="grid grid-cols-2 gap-1">
+                                {s.shots.map((shot, index) => (
+                                  <button
+                                    key={shot.id}
+                                    type="button"
+                                    className="flex flex-col text-left rounded border border-border/60 bg-background/60 overflow-hidden"
+                                    onClick={() => setPreviewShot({ sector: s.sector, index })}
+                                  >
+                                    <img
+                                      src={shot.thumbnailUrl}
+                                      alt={`${s.sector} ${shot.captureTime} 分时截图`}
+                                      className="w-full h-auto max-h-32 object-contain cursor-zoom-in"
+                                    />
+                                    <span className="px-1 py-0.5 truncate">
+                                      <span className="font-mono text-foreground">{shot.captureTime}</span>
+                                      {shot.caption ? ` ${shot.caption}` : ""}
+                                    </span>
+                                  </button>
+                                ))}
+                              </div>
                             )}
+                            <span className="text-center py-1">
+                              {s.shots.length > 0
+                                ? "选中此区域后 Ctrl+V 可继续添加截图"
+                                : "分时截图（选中此区域后直接 Ctrl+V 粘贴图片上传）"}
+                            </span>
                           </div>
                         </div>
                       ))
@@ -751,9 +1081,21 @@ export function HistoryPanel({
       {/* Sector frequency chips */}
       <Card className="border-border bg-card">
         <CardHeader className="pb-3">
-          <CardTitle className="text-base font-semibold text-foreground">
-            板块统计（近30天出现次数排名）
+          <CardTitle className="flex items-center justify-between text-base font-semibold text-foreground">
+            <span>板块统计（近30天出现次数排名）</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSyncSectors}
+              disabled={syncingSectors}
+              className="text-xs border-border text-muted-foreground hover:text-foreground bg-transparent"
+            >
+              {syncingSectors ? "同步中…" : "同步板块行情"}
+            </Button>
           </CardTitle>
+          {sectorSyncMessage && (
+            <p className="text-xs text-muted-foreground">{sectorSyncMessage}</p>
+          )}
         </CardHeader>
         <CardContent>
           <div className="flex flex-wrap gap-3">
@@ -768,6 +1110,7 @@ export function HistoryPanel({
                 <Badge className="bg-primary/20 text-primary border-0 text-xs">
                   {s.count} 次
                 </Badge>
+                {s.market && <SectorMarketSummary market={s.market} />}
               </div>
             ))}
           </div>
@@ -818,8 +1161,26 @@ export function HistoryPanel({
         </Dialog>
       )}
 
+      {onUpdateRecord && (
+        <RecordEditDialog
+          record={editingRecord}
+          existingSectors={existingSectors}
+          onClose={() => setEditingRecord(null)}
+          onSave={onUpdateRecord}
+        />
+      )}
+
+      {onUpdateNotes && (
+        <RecordNotesDialog
+          record={notesRecord}
+          existingTags={usedTags}
+          onClose={() => setNotesRecord(null)}
+          onSave={onUpdateNotes}
+        />
+      )}
+
       {/* Screenshot preview overlay */}
-      {previewShot && (
+      {previewShot && previewCurrent && (
         <div
           className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center"
           onClick={() => setPreviewShot(null)}
@@ -828,21 +1189,84 @@ export function HistoryPanel({
             className="max-w-5xl w-full max-h-[90vh] px-4"
             onClick={(e) => e.stopPropagation()}
           >
-            <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
-              <span className="truncate max-w-[70%]">{previewShot.title}</span>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-7 px-2 text-xs border-border bg-background/80"
-                onClick={() => setPreviewShot(null)}
-              >
-                关闭
-              </Button>
+            <div className="flex items-center justify-between gap-2 mb-2 text-xs text-muted-foreground">
+              <span className="truncate max-w-[50%]">
+                {`${selectedDate ?? ""} ${previewShot.sector}`.trim()}
+                <span className="ml-2 font-mono text-foreground">{previewCurrent.captureTime}</span>
+                {previewCurrent.caption ? ` ${previewCurrent.caption}` : ""}
+              </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  disabled={previewIndex === 0}
+                  onClick={() => pagePreview(-1)}
+                >
+                  上一张
+                </Button>
+                <span className="font-mono px-1">
+                  {previewIndex + 1} / {previewShots.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  disabled={previewIndex >= previewShots.length - 1}
+                  onClick={() => pagePreview(1)}
+                >
+                  下一张
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  disabled={previewIndex === 0}
+                  onClick={() => handleMoveShot(previewCurrent, -1)}
+                  title="在该板块截图中前移一位"
+                >
+                  前移
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  disabled={previewIndex >= previewShots.length - 1}
+                  onClick={() => handleMoveShot(previewCurrent, 1)}
+                  title="在该板块截图中后移一位"
+                >
+                  后移
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  onClick={() => handleEditShot(previewCurrent)}
+                >
+                  编辑说明
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80 text-destructive"
+                  onClick={() => handleDeleteShot(previewCurrent)}
+                >
+                  删除
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs border-border bg-background/80"
+                  onClick={() => setPreviewShot(null)}
+                >
+                  关闭
+                </Button>
+              </div>
             </div>
             <div className="bg-background rounded-md overflow-auto max-h-[85vh] border border-border">
               <img
-                src={previewShot.url}
-                alt={previewShot.title}
+                src={previewCurrent.imageUrl}
+                alt={`${previewShot.sector} ${previewCurrent.captureTime} 分时截图`}
                 className="w-full h-auto"
               />
             </div>
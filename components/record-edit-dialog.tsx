@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SignalRecord } from "@/lib/types";
+
+interface RecordEditDialogProps {
+  record: SignalRecord | null; // 为 null 时关闭弹窗
+  existingSectors?: string[];
+  onClose: () => void;
+  onSave: (id: number, patch: Partial<SignalRecord>) => Promise<void>;
+}
+
+interface FormData {
+  date: string;
+  code: string;
+  name: string;
+  sector: string;
+  sector_pattern: string;
+  turnover: string;
+  chg: string;
+  amount: string;
+  debt_ratio: string;
+}
+
+function recordToForm(r: SignalRecord): FormData {
+  return {
+    date: r.date,
+    code: r.code,
+    name: r.name,
+    sector: r.sector.join("、"),
+    sector_pattern: r.sector_pattern ?? "none",
+    turnover: r.turnover != null ? String(r.turnover) : "",
+    chg: r.chg != null ? String(r.chg) : "",
+    amount: r.amount != null ? String(r.amount) : "",
+    debt_ratio: r.debt_ratio != null ? String(r.debt_ratio) : "",
+  };
+}
+
+function parseNum(val: string): number | null {
+  const n = parseFloat(val);
+  return val.trim() && !isNaN(n) ? n : null;
+}
+
+function formToPatch(form: FormData): Partial<SignalRecord> {
+  const sectors = form.sector
+    .split(/[,，、]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return {
+    date: form.date,
+    code: form.code.replace(/[^\d]/g, "").padStart(6, "0"),
+    name: form.name.trim(),
+    sector: sectors.length > 0 ? sectors : ["未分类"],
+    sector_pattern:
+      form.sector_pattern === "水下拉水上" || form.sector_pattern === "波动三角收窄"
+        ? form.sector_pattern
+        : null,
+    turnover: parseNum(form.turnover),
+    chg: parseNum(form.chg),
+    amount: parseNum(form.amount),
+    debt_ratio: parseNum(form.debt_ratio),
+  };
+}
+
+// 单条信号记录编辑弹窗（近30天日详情与个股页共用）
+export function RecordEditDialog({
+  record,
+  existingSectors = [],
+  onClose,
+  onSave,
+}: RecordEditDialogProps) {
+  const [form, setForm] = useState<FormData | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(record ? recordToForm(record) : null);
+    setError(null);
+  }, [record]);
+
+  function update(field: keyof FormData, value: string) {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  }
+
+  async function handleSave() {
+    if (!record?.id || !form) return;
+    const patch = formToPatch(form);
+    if (!patch.code || !patch.name) {
+      setError("代码和名称不能为空");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(record.id, patch);
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || "保存失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const fields: { key: keyof FormData; label: string; type?: string; placeholder?: string }[] = [
+    { key: "date", label: "日期", type: "date" },
+    { key: "code", label: "代码", placeholder: "600519" },
+    { key: "name", label: "名称", placeholder: "贵州茅台" },
+    { key: "sector", label: "板块", placeholder: "白酒、消费" },
+    { key: "turnover", label: "换手率%", type: "number", placeholder: "3.2" },
+    { key: "chg", label: "涨跌幅%", type: "number", placeholder: "2.5" },
+    { key: "amount", label: "市值(亿)", type: "number", placeholder: "85" },
+    { key: "debt_ratio", label: "资产负债率%", type: "number", placeholder: "45.2" },
+  ];
+
+  return (
+    <Dialog open={!!record} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>修改信号记录</DialogTitle>
+          <DialogDescription>
+            {record ? `${record.date} ${record.code} ${record.name}` : ""}
+            ，保存后将按当前生效的评分规则重新评分。
+          </DialogDescription>
+        </DialogHeader>
+        {form && (
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map((f) => (
+              <label key={f.key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+                {f.label}
+                <Input
+                  type={f.type ?? "text"}
+                  step={f.type === "number" ? "0.01" : undefined}
+                  value={form[f.key]}
+                  onChange={(e) => update(f.key, e.target.value)}
+                  placeholder={f.placeholder}
+                  list={f.key === "sector" && existingSectors.length > 0 ? "record-edit-sectors" : undefined}
+                  className="h-8 bg-secondary text-foreground border-border text-xs"
+                />
+              </label>
+            ))}
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              板块分时
+              <Select
+                value={form.sector_pattern}
+                onValueChange={(val) => update("sector_pattern", val)}
+              >
+                <SelectTrigger className="h-8 bg-secondary text-foreground border-border text-xs">
+                  <SelectValue placeholder="选择形态" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border text-foreground">
+                  <SelectItem value="none" className="text-xs text-muted-foreground">
+                    无
+                  </SelectItem>
+                  <SelectItem value="水下拉水上" className="text-xs">
+                    水下拉水上
+                  </SelectItem>
+                  <SelectItem value="波动三角收窄" className="text-xs">
+                    波动三角收窄
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+            {existingSectors.length > 0 && (
+              <datalist id="record-edit-sectors">
+                {existingSectors.map((s) => (
+                  <option key={s} value={s} />
+                ))}
+              </datalist>
+            )}
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose} disabled={saving}>
+            取消
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? "保存中…" : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
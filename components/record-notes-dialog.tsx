@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import type { SignalNotesPatch, SignalRecord, StockHistory } from "@/lib/types";
+import { getRecords, getStockHistory } from "@/lib/store";
+
+interface RecordNotesDialogProps {
+  record: SignalRecord | null; // 为 null 时关闭弹窗
+  existingTags?: string[]; // 已用过的标签，输入时提示
+  onClose: () => void;
+  onSave: (id: number, patch: SignalNotesPatch) => Promise<void>;
+}
+
+// 标签输入：逗号、顿号或空格分隔，# 前缀可有可无
+function parseTagInput(text: string): string[] {
+  return text
+    .split(/[,，、\s]+/)
+    .map((t) => t.replace(/^#+/, "").trim())
+    .filter(Boolean);
+}
+
+// 单条信号记录的复盘笔记与标签（近30天日详情与个股页共用），保存时不重新评分
+// 下方汇总该股其他日期的笔记与标签
+export function RecordNotesDialog({
+  record,
+  existingTags = [],
+  onClose,
+  onSave,
+}: RecordNotesDialogProps) {
+  const [note, setNote] = useState("");
+  const [tagText, setTagText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 该股所有出现记录的笔记与标签汇总
+  const [history, setHistory] = useState<StockHistory | null>(null);
+
+  useEffect(() => {
+    setNote(record?.note ?? "");
+    setTagText((record?.tags ?? []).join("、"));
+    setError(null);
+    setHistory(null);
+    if (!record?.code) return;
+    let cancelled = false;
+    getRecords({ code: record.code }).then((recs) => {
+      if (!cancelled) setHistory(getStockHistory(recs)[0] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [record]);
+
+  // 其他日期的笔记（当前记录的笔记在上方编辑）
+  const otherNotes = (history?.noteSummary ?? []).filter(
+    (n) => !record || !n.startsWith(`${record.date}：`)
+  );
+
+  const tags = parseTagInput(tagText);
+  const suggestions = existingTags.filter((t) => !tags.includes(t)).slice(0, 12);
+
+  function addTag(tag: string) {
+    setTagText([...tags, tag].join("、"));
+  }
+
+  async function handleSave() {
+    if (!record?.id) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(record.id, { note: note.trim() || null, tags });
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || "保存失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!record} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>复盘笔记</DialogTitle>
+          <DialogDescription>
+            {record ? `${record.date} ${record.code} ${record.name}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+            笔记
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="买卖点、盘中表现、复盘结论…"
+              rows={6}
+              className="bg-secondary text-foreground border-border text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+            标签（逗号、顿号或空格分隔）
+            <Input
+              value={tagText}
+              onChange={(e) => setTagText(e.target.value)}
+              placeholder="龙头、首板、低吸"
+              className="h-8 bg-secondary text-foreground border-border text-xs"
+            />
+          </label>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-[11px] text-muted-foreground">常用：</span>
+              {suggestions.map((t) => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => addTag(t)}
+                  className="rounded-md border border-border bg-secondary/60 px-1.5 py-0.5 text-[11px] text-foreground hover:border-primary/50"
+                >
+                  #{t}
+                </button>
+              ))}
+            </div>
+          )}
+          {history && (history.tagSummary.length > 0 || otherNotes.length > 0) && (
+            <div className="flex flex-col gap-1.5 rounded-md border border-border bg-secondary/30 px-3 py-2">
+              <span className="text-xs text-muted-foreground">
+                该股共出现 {history.appearances} 次
+              </span>
+              {history.tagSummary.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {history.tagSummary.map(({ tag, count }) => (
+                    <span key={tag} className="text-[11px] text-primary">
+                      #{tag}
+                      {count > 1 && <span className="text-muted-foreground"> ×{count}</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {otherNotes.length > 0 && (
+                <ul className="flex max-h-40 flex-col gap-1 overflow-y-auto text-xs text-foreground">
+                  {otherNotes.map((n, i) => (
+                    <li key={i} className="whitespace-pre-wrap">
+                      {n}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose} disabled={saving}>
+            取消
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? "保存中…" : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
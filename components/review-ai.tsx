@@ -1,65 +1,372 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import type { SignalRecord } from "@/lib/types";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PctText } from "@/components/forward-return-stats";
+import type {
+  AIModelInfo,
+  ReviewHitStat,
+  ReviewSession,
+  ReviewSessionSummary,
+  ReviewVerdict,
+  ReviewVerdictKind,
+  SignalRecord,
+} from "@/lib/types";
+import {
+  generateReviewSuggestion,
+  getAIConfig,
+  getRecordsByDate,
+  getReviewHitStats,
+  getReviewSession,
+  getReviewSessions,
+  gradeReviewVerdicts,
+} from "@/lib/store";
 
 interface ReviewAIProps {
-  records: SignalRecord[];
+  dataVersion?: number; // 信号数据变更后递增，用于重新加载当日记录
+  onOpenStock?: (code: string) => void; // 点击代码跳转到个股页
 }
 
-export function ReviewAI({ records }: ReviewAIProps) {
+const VERDICT_STYLE: Record<ReviewVerdictKind, string> = {
+  优先: "bg-stock-up/15 text-stock-up",
+  观察: "bg-amber-500/15 text-amber-600 dark:text-amber-500",
+  回避: "bg-stock-down/15 text-stock-down",
+};
+
+function HitText({ grade }: { grade: ReviewVerdict["grade"] }) {
+  if (!grade) return <span className="text-muted-foreground">待评估</span>;
+  if (grade.hit === null) return <span className="text-muted-foreground">-</span>;
+  return grade.hit ? (
+    <span className="text-stock-up">命中</span>
+  ) : (
+    <span className="text-stock-down">未中</span>
+  );
+}
+
+function VerdictTable({
+  verdicts,
+  onOpenStock,
+}: {
+  verdicts: ReviewVerdict[];
+  onOpenStock?: (code: string) => void;
+}) {
+  return (
+    <div className="overflow-x-auto rounded-md border border-border">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border hover:bg-transparent">
+            <TableHead className="text-muted-foreground whitespace-nowrap">个股</TableHead>
+            <TableHead className="text-muted-foreground whitespace-nowrap">结论</TableHead>
+            <TableHead className="text-muted-foreground">理由</TableHead>
+            <TableHead className="text-muted-foreground text-right whitespace-nowrap">次日开盘</TableHead>
+            <TableHead className="text-muted-foreground text-right whitespace-nowrap">次日收盘</TableHead>
+            <TableHead className="text-muted-foreground text-right whitespace-nowrap">评估</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {verdicts.map((v) => (
+            <TableRow key={v.code} className="border-border">
+              <TableCell className="whitespace-nowrap">
+                <button
+                  type="button"
+                  className="font-mono text-primary hover:underline underline-offset-2"
+                  onClick={() => onOpenStock?.(v.code)}
+                  title="在个股页查看"
+                >
+                  {v.code}
+                </button>
+                {v.name && <span className="ml-1 text-foreground">{v.name}</span>}
+              </TableCell>
+              <TableCell>
+                <Badge className={`border-0 text-[11px] ${VERDICT_STYLE[v.verdict]}`}>
+                  {v.verdict}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-xs text-foreground min-w-[16rem]">{v.reason}</TableCell>
+              <TableCell className="text-right font-mono text-xs">
+                <PctText value={v.grade?.next_open} />
+              </TableCell>
+              <TableCell className="text-right font-mono text-xs">
+                <PctText value={v.grade?.next_close} />
+              </TableCell>
+              <TableCell className="text-right text-xs whitespace-nowrap">
+                <HitText grade={v.grade} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// 生成记录的输出：结构化结论显示总体判断 + 表格，旧版记录显示自由文本
+function SessionOutput({
+  session,
+  onOpenStock,
+}: {
+  session: ReviewSession;
+  onOpenStock?: (code: string) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3">
+      {session.output && (
+        <div className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+          {session.output}
+        </div>
+      )}
+      {session.verdicts.length > 0 && (
+        <VerdictTable verdicts={session.verdicts} onOpenStock={onOpenStock} />
+      )}
+    </div>
+  );
+}
+
+// 生成时间只显示到分钟
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+const PARTIAL_STATUS_LABEL: Record<string, string> = {
+  cancelled: "已取消，部分结果",
+  interrupted: "输出中断，部分结果",
+};
+
+function SessionMeta({ session }: { session: ReviewSession | ReviewSessionSummary }) {
+  return (
+    <span className="text-[11px] text-muted-foreground">
+      {formatTime(session.createdAt)} · {session.model} · {session.recordIds.length} 只个股 ·{" "}
+      {session.screenshotIds.length} 张截图
+      {PARTIAL_STATUS_LABEL[session.status] && (
+        <span className="ml-1 text-amber-500">（{PARTIAL_STATUS_LABEL[session.status]}）</span>
+      )}
+    </span>
+  );
+}
+
+// 流式输出过程中的预览：从尚未完整的 JSON 中取出总体判断，并统计已输出的结论条数
+function StreamingPreview({ text }: { text: string }) {
+  const summaryMatch = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(text);
+  const summary = summaryMatch
+    ? summaryMatch[1].replace(/\\n/g, "\n").replace(/\\(.)/g, "$1")
+    : "";
+  const verdictCount = (text.match(/"verdict"\s*:/g) ?? []).length;
+  return (
+    <div className="flex flex-col gap-2">
+      {summary ? (
+        <div className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{summary}</div>
+      ) : (
+        <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+          {text || "等待模型输出…"}
+        </pre>
+      )}
+      {verdictCount > 0 && (
+        <p className="text-[11px] text-muted-foreground">已输出 {verdictCount} 条个股结论…</p>
+      )}
+    </div>
+  );
+}
+
+export function ReviewAI({ dataVersion = 0, onOpenStock }: ReviewAIProps) {
   const [date, setDate] = useState(() =>
     new Date().toISOString().slice(0, 10)
   );
+  const [dayRecords, setDayRecords] = useState<SignalRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [suggestion, setSuggestion] = useState<string | null>(null);
+  // 当前展示的生成记录
+  const [current, setCurrent] = useState<ReviewSession | null>(null);
+  // 当日历史生成记录（新的在前）
+  const [sessions, setSessions] = useState<ReviewSessionSummary[]>([]);
+  const [sessionsVersion, setSessionsVersion] = useState(0);
+  // 勾选用于对比的记录 id（最多两条）与加载后的完整记录
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [comparing, setComparing] = useState<ReviewSession[] | null>(null);
+  // 结论命中率
+  const [hitStats, setHitStats] = useState<ReviewHitStat[]>([]);
+  const [hitStatsVersion, setHitStatsVersion] = useState(0);
+  const [grading, setGrading] = useState(false);
+  const [gradeProgress, setGradeProgress] = useState<string | null>(null);
+  // 生成中的流式输出与用于取消的控制器
+  const [streamText, setStreamText] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const [modelInfo, setModelInfo] = useState<AIModelInfo | null>(null);
 
   async function handleGenerate() {
     setError(null);
-    setSuggestion(null);
     setLoading(true);
+    setStreamText("");
+    setComparing(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const dayRecords = records.filter((r) => r.date === date);
-
-      const screenshotsRes = await fetch(
-        `/api/sector-screenshots?date=${date}`
-      );
-      const sectorScreenshots =
-        screenshotsRes.ok ? await screenshotsRes.json() : [];
-
-      const res = await fetch("/api/ai/review-suggestions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          date,
-          records: dayRecords,
-          sectorScreenshots,
-        }),
+      const result = await generateReviewSuggestion(date, {
+        signal: controller.signal,
+        onDelta: (text) => setStreamText((prev) => prev + text),
       });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data.error || "请求失败");
-        return;
+      if (result.status === "done") {
+        setCurrent(result.data.session);
+        setSessionsVersion((v) => v + 1);
+      } else if (result.status === "cancelled") {
+        // 取消后服务端异步保存已生成的部分，稍后刷新历史并打开最近一条
+        setError(result.partial ? "已取消生成，已生成的部分已保存" : "已取消生成");
+        setCurrent(null);
+        setTimeout(() => setSessionsVersion((v) => v + 1), 1000);
+      } else if (result.data?.session) {
+        setError(`${result.error}（已生成的部分已保存）`);
+        setCurrent(result.data.session);
+        setSessionsVersion((v) => v + 1);
+      } else {
+        setError(result.error);
       }
-
-      setSuggestion(data.content || "");
     } catch (e: any) {
       setError(e?.message || "网络错误");
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setStreamText("");
+    }
+  }
+
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
+
+  async function handleOpen(id: number) {
+    setError(null);
+    const session = await getReviewSession(id);
+    if (!session) {
+      setError("复盘记录不存在或加载失败");
+      return;
+    }
+    setCurrent(session);
+    setComparing(null);
+  }
+
+  // 分批评估直到没有待评估结论（或某一批没有处理任何结论），然后刷新当前记录与命中率；
+  // 失败的结论当天不再重试，不会重复占用后续批次
+  async function handleGrade() {
+    setGrading(true);
+    setError(null);
+    let graded = 0;
+    let skipped = 0;
+    try {
+      for (;;) {
+        const result = await gradeReviewVerdicts();
+        graded += result.graded;
+        skipped = result.skipped; // 含本次失败的结论
+        setGradeProgress(`已评估 ${graded} 条，剩余 ${result.remaining} 条…`);
+        if (result.remaining === 0 || result.graded + result.failed === 0) break;
+      }
+      setGradeProgress(
+        `已评估 ${graded} 条${skipped > 0 ? `，${skipped} 条暂无次日行情，明天再试` : ""}。`
+      );
+      if (current) {
+        const refreshed = await getReviewSession(current.id);
+        if (refreshed) setCurrent(refreshed);
+      }
+    } catch (e: any) {
+      setError(e?.message || "评估失败，请重试");
+    } finally {
+      setGrading(false);
+      setHitStatsVersion((v) => v + 1);
+    }
+  }
+
+  function toggleCompare(id: number, checked: boolean) {
+    setCompareIds((ids) =>
+      checked ? [...ids.filter((x) => x !== id), id].slice(-2) : ids.filter((x) => x !== id)
+    );
+  }
+
+  async function handleCompare() {
+    setError(null);
+    const loaded = await Promise.all(compareIds.map(getReviewSession));
+    if (loaded.some((s) => !s)) {
+      setError("复盘记录不存在或加载失败");
+      return;
     }
+    // 旧的在左，新的在右
+    setComparing(
+      (loaded as ReviewSession[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    );
   }
 
-  const dayRecords = records.filter((r) => r.date === date);
+  useEffect(() => {
+    let cancelled = false;
+    getRecordsByDate(date).then((recs) => {
+      if (!cancelled) setDayRecords(recs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, dataVersion]);
+
+  // 卸载时中止进行中的生成
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    getAIConfig().then((config) => setModelInfo(config?.review ?? null));
+  }, []);
+
+  // 切换日期时清空当前结果与对比选择
+  useEffect(() => {
+    setCurrent(null);
+    setComparing(null);
+    setCompareIds([]);
+  }, [date]);
+
+  // 加载当日历史；尚未打开任何记录时自动打开最近一条
+  useEffect(() => {
+    let cancelled = false;
+    getReviewSessions({ date }).then(async (list) => {
+      if (cancelled) return;
+      setSessions(list);
+      if (list.length > 0) {
+        const latest = await getReviewSession(list[0].id);
+        if (!cancelled && latest) {
+          setCurrent((prev) => prev ?? latest);
+        }
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, sessionsVersion]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewHitStats().then((stats) => {
+      if (!cancelled) setHitStats(stats);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hitStatsVersion, sessionsVersion]);
+
   const daySectorCount = new Set(dayRecords.flatMap((r) => r.sector)).size;
 
+  // 当前记录生成后当日信号有增删时提示重新生成
+  const recordsChanged =
+    current !== null &&
+    (current.recordIds.length !== dayRecords.length ||
+      dayRecords.some((r) => r.id !== undefined && !current.recordIds.includes(r.id)));
+
   return (
     <Card className="border-border bg-card">
       <CardHeader className="pb-3">
@@ -72,7 +379,6 @@ export function ReviewAI({ records }: ReviewAIProps) {
       </CardHeader>
       <CardContent className="flex flex-col gap-4">
         <div className="flex flex-wrap items-center gap-3">
-          <label className="text-sm text-muted-foreground">选择日期</label>
           <Input
             type="date"
             value={date}
@@ -84,33 +390,168 @@ export function ReviewAI({ records }: ReviewAIProps) {
             disabled={loading}
             className="shrink-0"
           >
-            {loading ? "生成中…" : "生成建议"}
+            {loading ? "生成中…" : sessions.length > 0 ? "重新生成" : "生成建议"}
           </Button>
+          {loading && (
+            <Button variant="outline" onClick={handleCancel} className="shrink-0">
+              取消
+            </Button>
+          )}
           <span className="text-xs text-muted-foreground">
             {date}：{dayRecords.length} 只个股，{daySectorCount} 个板块
           </span>
         </div>
 
+        {modelInfo && (
+          <p className="text-[11px] text-muted-foreground -mt-2">
+            模型：{modelInfo.model}
+            {modelInfo.local && "（本机）"}
+            {!modelInfo.vision && "，不支持图片，将只根据个股数据生成（不发送板块截图）"}
+            {modelInfo.error && <span className="ml-1 text-destructive">{modelInfo.error}</span>}
+          </p>
+        )}
+
         {error && (
           <p className="text-sm text-destructive">{error}</p>
         )}
 
-        {suggestion && (
+        {loading ? (
           <div className="rounded-lg border border-border bg-background/50 p-4">
-            <p className="text-xs font-medium text-muted-foreground mb-2">
-              AI 操作建议
-            </p>
-            <div className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
-              {suggestion}
+            <p className="text-xs font-medium text-muted-foreground mb-2">AI 正在生成…</p>
+            <StreamingPreview text={streamText} />
+          </div>
+        ) : comparing ? (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-muted-foreground">对比两次生成结果</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setComparing(null)}
+              >
+                关闭对比
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {comparing.map((session) => (
+                <div
+                  key={session.id}
+                  className="rounded-lg border border-border bg-background/50 p-4 flex flex-col gap-2"
+                >
+                  <SessionMeta session={session} />
+                  <SessionOutput session={session} onOpenStock={onOpenStock} />
+                </div>
+              ))}
             </div>
           </div>
-        )}
-
-        {!suggestion && !loading && (
+        ) : current ? (
+          <div className="rounded-lg border border-border bg-background/50 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <p className="text-xs font-medium text-muted-foreground">
+                AI 操作建议
+              </p>
+              <SessionMeta session={current} />
+            </div>
+            {recordsChanged && (
+              <p className="text-[11px] text-amber-500 mb-2">
+                生成后当日信号有变动，可点击「重新生成」
+              </p>
+            )}
+            <SessionOutput session={current} onOpenStock={onOpenStock} />
+          </div>
+        ) : (
           <p className="text-sm text-muted-foreground py-6 text-center">
             选择日期后点击「生成建议」，将结合该日板块分时截图与个股数据给出操作建议
           </p>
         )}
+
+        {sessions.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-muted-foreground">
+                {date} 的历史生成（{sessions.length}）
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={compareIds.length !== 2}
+                onClick={handleCompare}
+                title="勾选两条记录后对比"
+              >
+                对比所选（{compareIds.length}/2）
+              </Button>
+            </div>
+            <div className="flex flex-col gap-1 max-h-60 overflow-y-auto pr-1">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={`flex items-start gap-2 rounded-md border px-3 py-2 ${
+                    current?.id === session.id && !comparing
+                      ? "border-primary/60 bg-primary/5"
+                      : "border-border bg-secondary/40"
+                  }`}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={compareIds.includes(session.id)}
+                    onCheckedChange={(checked) => toggleCompare(session.id, checked === true)}
+                  />
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left flex flex-col gap-0.5"
+                    onClick={() => handleOpen(session.id)}
+                  >
+                    <SessionMeta session={session} />
+                    <span className="text-xs text-foreground truncate">{session.preview}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 border-t border-border pt-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="text-xs font-medium text-muted-foreground">
+              结论命中率（每个日期取最近一次生成；优先看次日收涨、回避看次日收跌）
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              onClick={handleGrade}
+              disabled={grading}
+            >
+              {grading ? "评估中…" : "评估次日表现"}
+            </Button>
+            {gradeProgress && (
+              <span className="text-xs text-muted-foreground">{gradeProgress}</span>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {hitStats.map((stat) => (
+              <div
+                key={stat.verdict}
+                className="rounded-md border border-border bg-secondary/40 px-3 py-2 flex flex-col gap-1"
+              >
+                <Badge className={`self-start border-0 text-[11px] ${VERDICT_STYLE[stat.verdict]}`}>
+                  {stat.verdict}
+                </Badge>
+                <span className="text-lg font-mono font-bold text-foreground">
+                  {stat.hit_rate !== null ? `${stat.hit_rate.toFixed(1)}%` : "-"}
+                </span>
+                <span className="text-[11px] text-muted-foreground">
+                  {stat.verdict === "观察"
+                    ? `已评估 ${stat.graded}/${stat.count} 条`
+                    : `命中 ${stat.hits}/${stat.graded} 条（共 ${stat.count} 条）`}
+                  ，次日均值 <PctText value={stat.avg_next_close} />
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
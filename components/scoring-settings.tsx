@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  ScoringCondition,
+  ScoringField,
+  ScoringOperator,
+  ScoringRule,
+  ScoringRuleSet,
+} from "@/lib/types";
+import { DEFAULT_SCORING_RULES, SCORING_FIELDS, SCORING_OPERATORS } from "@/lib/scoring";
+import {
+  getScoringRuleSets,
+  saveScoringRuleSet,
+  activateScoringRuleSet,
+  rescoreAllRecords,
+} from "@/lib/store";
+
+interface ScoringSettingsProps {
+  onRecordsRescored?: () => void; // 重新评分后通知上层刷新信号数据
+}
+
+const NO_VALUE_OPS: ScoringOperator[] = ["missing", "present"];
+
+function emptyCondition(): ScoringCondition {
+  return { field: "turnover", op: "gte", value: "" };
+}
+
+// 评分规则设置：查看/切换历史版本，编辑后保存为新版本，并可按生效规则重新评分全部记录
+export function ScoringSettings({ onRecordsRescored }: ScoringSettingsProps) {
+  const [ruleSets, setRuleSets] = useState<ScoringRuleSet[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<string>("");
+  const [draftName, setDraftName] = useState("");
+  const [draftRules, setDraftRules] = useState<ScoringRule[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = ruleSets.find((s) => String(s.version) === selectedVersion) ?? null;
+  const active = ruleSets.find((s) => s.active) ?? null;
+
+  const load = useCallback(async (version?: number) => {
+    const sets = await getScoringRuleSets();
+    setRuleSets(sets);
+    const target =
+      sets.find((s) => s.version === version) ?? sets.find((s) => s.active) ?? sets[0];
+    setSelectedVersion(target ? String(target.version) : "");
+    setDraftName(target?.name ?? "默认规则");
+    setDraftRules(structuredClone(target?.rules ?? DEFAULT_SCORING_RULES));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function handleSelectVersion(value: string) {
+    const target = ruleSets.find((s) => String(s.version) === value);
+    if (!target) return;
+    setSelectedVersion(value);
+    setDraftName(target.name);
+    setDraftRules(structuredClone(target.rules));
+    setError(null);
+    setMessage(null);
+  }
+
+  function updateRule(index: number, patch: Partial<ScoringRule>) {
+    setDraftRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function updateCondition(ruleIndex: number, condIndex: number, patch: Partial<ScoringCondition>) {
+    setDraftRules((prev) =>
+      prev.map((r, i) =>
+        i === ruleIndex
+          ? {
+              ...r,
+              conditions: r.conditions.map((c, j) => (j === condIndex ? { ...c, ...patch } : c)),
+            }
+          : r
+      )
+    );
+  }
+
+  function moveRule(index: number, delta: number) {
+    setDraftRules((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  async function handleSave() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await saveScoringRuleSet(draftName, draftRules);
+      await load(saved.version);
+      setMessage(`已保存为 v${saved.version} 并设为生效；已有记录需点击「重新评分」才会按新规则更新。`);
+    } catch (e: any) {
+      setError(e?.message || "保存失败，请重试");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleActivate() {
+    if (!selected) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await activateScoringRuleSet(selected.version);
+      await load(selected.version);
+      setMessage(`已启用 v${selected.version}。`);
+    } catch (e: any) {
+      setError(e?.message || "启用失败，请重试");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRescore() {
+    const label = active ? `v${active.version}「${active.name}」` : "默认规则";
+    if (!window.confirm(`确定用${label}重新评分全部信号记录吗？`)) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await rescoreAllRecords();
+      setMessage(`重新评分完成：共 ${result.total} 条，${result.updated} 条有变化。`);
+      onRecordsRescored?.();
+    } catch (e: any) {
+      setError(e?.message || "重新评分失败，请重试");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-foreground">
+          评分规则
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          规则按顺序匹配，条件全部满足即加分；同一分组只取第一条命中的规则（用于换手率等阶梯档位）。
+          说明文案中可用 {"{turnover}"} 等字段名引用记录的值。每次保存生成新版本，记录会标注评分所用的版本。
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm text-muted-foreground">版本</label>
+          <Select value={selectedVersion} onValueChange={handleSelectVersion}>
+            <SelectTrigger className="w-64 bg-secondary text-foreground border-border text-sm">
+              <SelectValue placeholder="尚无保存的版本" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border text-foreground">
+              {ruleSets.map((s) => (
+                <SelectItem key={s.version} value={String(s.version)} className="text-sm">
+                  v{s.version} {s.name}
+                  {s.active ? "（生效中）" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && !selected.active && (
+            <Button variant="outline" size="sm" onClick={handleActivate} disabled={busy}>
+              启用此版本
+            </Button>
+          )}
+          {selected && (
+            <span className="text-xs text-muted-foreground">
+              创建于 {new Date(selected.createdAt).toLocaleString()}
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={handleRescore}
+            disabled={busy}
+          >
+            按生效规则重新评分全部记录
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {draftRules.map((rule, i) => (
+            <div
+              key={i}
+              className="rounded-lg border border-border bg-background/50 p-3 flex flex-col gap-2"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-mono text-muted-foreground w-6">{i + 1}</span>
+                <Input
+                  value={rule.label}
+                  onChange={(e) => updateRule(i, { label: e.target.value })}
+                  placeholder="说明文案，如 换手率{turnover}% >= 8%"
+                  className="h-8 flex-1 min-w-[200px] bg-secondary text-foreground border-border text-xs"
+                />
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                  分值
+                  <Input
+                    type="number"
+                    step="1"
+                    value={String(rule.points)}
+                    onChange={(e) => updateRule(i, { points: Number(e.target.value) })}
+                    className="h-8 w-20 bg-secondary text-foreground border-border text-xs"
+                  />
+                </label>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                  分组
+                  <Input
+                    value={rule.group ?? ""}
+                    onChange={(e) => updateRule(i, { group: e.target.value || null })}
+                    placeholder="可选"
+                    className="h-8 w-28 bg-secondary text-foreground border-border text-xs"
+                  />
+                </label>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => moveRule(i, -1)} disabled={i === 0}>
+                  ↑
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => moveRule(i, 1)} disabled={i === draftRules.length - 1}>
+                  ↓
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                  onClick={() => setDraftRules((prev) => prev.filter((_, j) => j !== i))}
+                >
+                  删除
+                </Button>
+              </div>
+              {rule.conditions.map((c, j) => (
+                <div key={j} className="flex flex-wrap items-center gap-2 pl-8">
+                  <span className="text-xs text-muted-foreground w-6">{j === 0 ? "当" : "且"}</span>
+                  <Select
+                    value={c.field}
+                    onValueChange={(val) => updateCondition(i, j, { field: val as ScoringField })}
+                  >
+                    <SelectTrigger className="h-8 w-32 bg-secondary text-foreground border-border text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border text-foreground">
+                      {(Object.keys(SCORING_FIELDS) as ScoringField[]).map((f) => (
+                        <SelectItem key={f} value={f} className="text-xs">
+                          {SCORING_FIELDS[f]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={c.op}
+                    onValueChange={(val) => updateCondition(i, j, { op: val as ScoringOperator })}
+                  >
+                    <SelectTrigger className="h-8 w-24 bg-secondary text-foreground border-border text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border text-foreground">
+                      {(Object.keys(SCORING_OPERATORS) as ScoringOperator[]).map((op) => (
+                        <SelectItem key={op} value={op} className="text-xs">
+                          {SCORING_OPERATORS[op]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!NO_VALUE_OPS.includes(c.op) && (
+                    <Input
+                      value={c.value == null ? "" : String(c.value)}
+                      onChange={(e) => updateCondition(i, j, { value: e.target.value })}
+                      placeholder={c.field === "sector_pattern" ? "水下拉水上" : "数值"}
+                      className="h-8 w-32 bg-secondary text-foreground border-border text-xs"
+                    />
+                  )}
+                  {rule.conditions.length > 1 && (
+                    <button
+                      onClick={() =>
+                        updateRule(i, { conditions: rule.conditions.filter((_, k) => k !== j) })
+                      }
+                      className="text-xs text-muted-foreground hover:text-destructive"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                onClick={() => updateRule(i, { conditions: [...rule.conditions, emptyCondition()] })}
+                className="self-start pl-16 text-xs text-primary underline-offset-2 hover:underline"
+              >
+                + 条件
+              </button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="self-start"
+            onClick={() =>
+              setDraftRules((prev) => [
+                ...prev,
+                { label: "", points: 10, group: null, conditions: [emptyCondition()] },
+              ])
+            }
+          >
+            + 新增规则
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 border-t border-border pt-4">
+          <label className="text-sm text-muted-foreground">版本名称</label>
+          <Input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            maxLength={64}
+            className="w-56 bg-secondary text-foreground border-border"
+          />
+          <Button size="sm" onClick={handleSave} disabled={busy}>
+            {busy ? "处理中…" : "保存为新版本"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
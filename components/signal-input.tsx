@@ -18,10 +18,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { SignalRecord } from "@/lib/types";
+import type { SignalRecord, UpsertPolicy } from "@/lib/types";
+import type { StockInfo, StockInfoField, StockInfoSource } from "@/lib/tushare";
+import type { SectorPatternSuggestion } from "@/lib/sector-pattern";
 
 interface SignalInputProps {
-  onParsed: (records: SignalRecord[]) => void | Promise<void>;
+  onParsed: (records: SignalRecord[], policy: UpsertPolicy) => void | Promise<void>;
   fixedDate?: string; // 如果提供，则锁定为该日期并隐藏头部日期选择
   onSubmitted?: () => void; // 成功提交后回调（例如关闭弹窗）
   existingSectors?: string[]; // 历史录入过的板块选项，用于下拉建议
@@ -38,6 +40,68 @@ interface RowData {
   chg: string;
   amount: string;
   debt_ratio: string;
+  sources: Partial<Record<StockInfoField, StockInfoSource>>; // 自动补全字段的来源，手动修改后移除
+  patternSuggestion: SectorPatternSuggestion | null; // 按板块分钟线识别的形态，板块变更后清空
+}
+
+const SOURCE_FIELDS: StockInfoField[] = ["chg", "turnover", "amount", "debt_ratio"];
+
+// 输入框下方的来源提示，例如 “daily_basic · 2026-10-16”
+function SourceHint({ source }: { source?: StockInfoSource }) {
+  if (!source) return null;
+  const text = `${source.source} · ${source.asOf}`;
+  return (
+    <p
+      className="mt-0.5 truncate text-[10px] leading-tight text-muted-foreground"
+      title={source.note ? `${text}（${source.note}）` : text}
+    >
+      {text}
+    </p>
+  );
+}
+
+// 板块分时下方的识别按钮与算法建议，悬停查看判断依据
+function PatternHint({
+  suggestion,
+  detecting,
+  disabled,
+  onDetect,
+}: {
+  suggestion: SectorPatternSuggestion | null;
+  detecting: boolean;
+  disabled: boolean;
+  onDetect: () => void;
+}) {
+  const percent = suggestion ? `${Math.round(suggestion.confidence * 100)}%` : "";
+  const title = suggestion
+    ? [
+        `${suggestion.sector} ${suggestion.date}：${suggestion.pattern ?? "无明显形态"} ${percent}`,
+        ...suggestion.reasons.map((r) => `· ${r}`),
+      ].join("\n")
+    : "按板块指数当日 1 分钟线识别形态（取第一个板块）";
+  return (
+    <div className="mt-0.5 flex items-center gap-1 text-[10px] leading-tight text-muted-foreground">
+      <button
+        type="button"
+        onClick={onDetect}
+        disabled={disabled || detecting}
+        className="shrink-0 text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+        title={title}
+      >
+        {detecting ? "识别中…" : "识别"}
+      </button>
+      {suggestion && (
+        <span className="truncate" title={title}>
+          {suggestion.pattern ? `${suggestion.pattern} ${percent}` : "无明显形态"}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// 多个板块时取第一个用于识别分时形态
+function firstSector(sectorText: string): string | undefined {
+  return sectorText.split(/[,，、]/).map((s) => s.trim()).find(Boolean);
 }
 
 function createEmptyRow(): RowData {
@@ -51,6 +115,8 @@ function createEmptyRow(): RowData {
     chg: "",
     amount: "",
     debt_ratio: "",
+    sources: {},
+    patternSuggestion: null,
   };
 }
 
@@ -90,7 +156,7 @@ function rowToRecord(row: RowData, date: string): SignalRecord | null {
     chg: chg != null && !isNaN(chg) ? chg : null,
     amount: amount != null && !isNaN(amount) ? amount : null,
     debt_ratio: debt_ratio != null && !isNaN(debt_ratio) ? debt_ratio : null,
-    score: 0,
+    score: 0, // 由服务端按生效的评分规则计算
     reason: [],
   };
 }
@@ -109,8 +175,13 @@ export function SignalInput({
     Array.from({ length: 1 }, createEmptyRow)
   );
   const [error, setError] = useState<string | null>(null);
+  // 同一日期已存在相同代码时的处理方式
+  const [policy, setPolicy] = useState<UpsertPolicy>("skip");
   const [loadingCodes, setLoadingCodes] = useState<Set<string>>(new Set());
+  const [detectingRows, setDetectingRows] = useState<Set<string>>(new Set());
   const codeTimeoutRefs = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  // 每行进行中的形态识别请求，板块或日期变化、重新识别时中止旧请求
+  const patternRequestRefs = useRef<Map<string, AbortController>>(new Map());
   const initialDateRef = useRef(date);
   const dirtyRef = useRef(false);
 
@@ -132,7 +203,7 @@ export function SignalInput({
         );
 
         if (response.ok) {
-          const info = await response.json();
+          const info: StockInfo = await response.json();
           setRows((prev) =>
             prev.map((r) => {
               if (r.id !== rowId) return r;
@@ -140,13 +211,16 @@ export function SignalInput({
               const updated = {
                 ...r,
                 name: r.name || info.name || "",
-                chg: r.chg || (info.chg != null ? info.chg.toFixed(2) : "") || "",
-                turnover: r.turnover || (info.turnover != null ? info.turnover.toFixed(2) : "") || "",
-                amount: r.amount || (info.amount != null ? info.amount.toFixed(2) : "") || "",
-                debt_ratio: r.debt_ratio || (info.debt_ratio != null ? info.debt_ratio.toFixed(2) : "") || "",
                 sector: r.sector || (info.industry ? String(info.industry) : r.sector),
+                sources: { ...r.sources },
               };
-              
+              for (const field of SOURCE_FIELDS) {
+                const value = info[field];
+                if (r[field] || value == null) continue;
+                updated[field] = value.toFixed(2);
+                const source = info.sources?.[field];
+                if (source) updated.sources[field] = source;
+              }
               return updated;
             })
           );
@@ -175,12 +249,74 @@ export function SignalInput({
     [date]
   );
 
+  // 识别板块分时形态：auto 为失焦自动触发，只在形态未选择时预填且不提示错误
+  const detectPattern = useCallback(
+    async (rowId: string, sectorText: string, auto: boolean) => {
+      const sector = firstSector(sectorText);
+      if (!sector) return;
+
+      patternRequestRefs.current.get(rowId)?.abort();
+      const controller = new AbortController();
+      patternRequestRefs.current.set(rowId, controller);
+      setDetectingRows((prev) => new Set(prev).add(rowId));
+      try {
+        const response = await fetch(
+          `/api/tushare/sector-pattern?sector=${encodeURIComponent(sector)}&date=${date}`,
+          { signal: controller.signal }
+        );
+        const data = await response.json();
+        if (controller.signal.aborted) return;
+        if (!response.ok) {
+          if (!auto) setError(data.error || "识别板块分时形态失败");
+          return;
+        }
+        const suggestion: SectorPatternSuggestion = data;
+        setRows((prev) =>
+          prev.map((r) => {
+            // 请求期间板块已被修改的行不再回填
+            if (r.id !== rowId || firstSector(r.sector) !== sector) return r;
+            const fill = suggestion.pattern && (!auto || !r.sector_pattern || r.sector_pattern === "none");
+            return {
+              ...r,
+              patternSuggestion: suggestion,
+              sector_pattern: fill ? suggestion.pattern! : r.sector_pattern,
+            };
+          })
+        );
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("识别板块分时形态失败:", err);
+        if (!auto) setError("识别板块分时形态失败，请手动选择");
+      } finally {
+        // 已被新请求取代时由新请求负责清除加载状态
+        if (patternRequestRefs.current.get(rowId) === controller) {
+          patternRequestRefs.current.delete(rowId);
+          setDetectingRows((prev) => {
+            const next = new Set(prev);
+            next.delete(rowId);
+            return next;
+          });
+        }
+      }
+    },
+    [date]
+  );
+
   const updateRow = useCallback(
     (id: string, field: keyof RowData, value: string | boolean) => {
       setRows((prev) =>
         prev.map((r) => {
           if (r.id !== id) return r;
           const updated = { ...r, [field]: value };
+          if (field === "sector") {
+            updated.patternSuggestion = null;
+            patternRequestRefs.current.get(id)?.abort();
+          }
+          // 手动修改自动补全的字段后不再显示来源
+          if ((SOURCE_FIELDS as string[]).includes(field) && r.sources[field as StockInfoField]) {
+            updated.sources = { ...r.sources };
+            delete updated.sources[field as StockInfoField];
+          }
           
           // 当代码字段更新时，延迟查询股票信息
           if (field === "code" && typeof value === "string") {
@@ -208,6 +344,16 @@ export function SignalInput({
     [fetchStockInfo]
   );
 
+  // 形态建议与日期绑定，切换日期后清空并中止进行中的识别
+  useEffect(() => {
+    patternRequestRefs.current.forEach((controller) => controller.abort());
+    setRows((prev) =>
+      prev.some((r) => r.patternSuggestion)
+        ? prev.map((r) => ({ ...r, patternSuggestion: null }))
+        : prev
+    );
+  }, [date]);
+
   // 清理定时器
   useEffect(() => {
     return () => {
@@ -266,6 +412,8 @@ export function SignalInput({
         chg: "2.5",
         amount: "85",
         debt_ratio: "25.8",
+        sources: {},
+        patternSuggestion: null,
       },
       {
         id: crypto.randomUUID(),
@@ -277,6 +425,8 @@ export function SignalInput({
         chg: "5.1",
         amount: "42",
         debt_ratio: "38.5",
+        sources: {},
+        patternSuggestion: null,
       },
       {
         id: crypto.randomUUID(),
@@ -288,6 +438,8 @@ export function SignalInput({
         chg: "3.8",
         amount: "120",
         debt_ratio: "52.3",
+        sources: {},
+        patternSuggestion: null,
       },
     ]);
   }, []);
@@ -307,7 +459,7 @@ export function SignalInput({
     }
 
     try {
-      await onParsed(records);
+      await onParsed(records, policy);
       // 提交成功后清空表格
       setRows(Array.from({ length: 1 }, createEmptyRow));
       initialDateRef.current = date;
@@ -417,6 +569,11 @@ export function SignalInput({
                       onChange={(e) =>
                         updateRow(row.id, "sector", e.target.value)
                       }
+                      onBlur={() => {
+                        if (row.sector && !row.sector_pattern && !row.patternSuggestion) {
+                          detectPattern(row.id, row.sector, true);
+                        }
+                      }}
                       placeholder="白酒、消费"
                       list={existingSectors.length > 0 ? `sector-datalist-${row.id}` : undefined}
                       className="h-8 bg-secondary text-foreground border-border text-xs px-2"
@@ -461,6 +618,12 @@ export function SignalInput({
                         </SelectItem>
                       </SelectContent>
                     </Select>
+                    <PatternHint
+                      suggestion={row.patternSuggestion}
+                      detecting={detectingRows.has(row.id)}
+                      disabled={!row.sector.trim()}
+                      onDetect={() => detectPattern(row.id, row.sector, false)}
+                    />
                   </TableCell>
                   <TableCell className="p-1">
                     <Input
@@ -478,6 +641,7 @@ export function SignalInput({
                       className="h-8 bg-secondary text-foreground border-border text-xs font-mono px-2"
                       title={row.turnover ? `换手率: ${row.turnover}%` : "请输入换手率或通过代码自动获取"}
                     />
+                    <SourceHint source={row.sources.turnover} />
                   </TableCell>
                   <TableCell className="p-1">
                     <Input
@@ -495,6 +659,7 @@ export function SignalInput({
                       className="h-8 bg-secondary text-foreground border-border text-xs font-mono px-2"
                       title={row.chg ? `涨跌幅: ${row.chg}%` : "请输入涨跌幅或通过代码自动获取"}
                     />
+                    <SourceHint source={row.sources.chg} />
                   </TableCell>
                   <TableCell className="p-1">
                     <Input
@@ -512,6 +677,7 @@ export function SignalInput({
                       className="h-8 bg-secondary text-foreground border-border text-xs font-mono px-2"
                       title={row.amount ? `市值: ${row.amount} 亿` : "请输入市值或通过代码自动获取"}
                     />
+                    <SourceHint source={row.sources.amount} />
                   </TableCell>
                   <TableCell className="p-1">
                     <Input
@@ -530,8 +696,9 @@ export function SignalInput({
                       }}
                       placeholder="45.2"
                       className="h-8 bg-secondary text-foreground border-border text-xs font-mono px-2"
-                      title={row.debt_ratio ? `资产负债率: ${row.debt_ratio}%` : "请输入资产负债率（0-100%）"}
+                      title={row.debt_ratio ? `资产负债率: ${row.debt_ratio}%` : "请输入资产负债率（0-100%）或通过代码自动获取"}
                     />
+                    <SourceHint source={row.sources.debt_ratio} />
                   </TableCell>
                   <TableCell className="p-1">
                     <Button
@@ -606,16 +773,37 @@ export function SignalInput({
               清空表格
             </Button>
           </div>
-          <Button
-            onClick={handleSubmit}
-            className="bg-primary text-primary-foreground hover:bg-primary/90 px-8"
-          >
-            录入
-          </Button>
+          <div className="flex items-center gap-2">
+            <Select value={policy} onValueChange={(v) => setPolicy(v as UpsertPolicy)}>
+              <SelectTrigger
+                className="h-9 w-44 bg-secondary text-foreground border-border text-xs"
+                title="同一日期已录入过相同代码时的处理方式"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border text-foreground">
+                <SelectItem value="skip" className="text-xs focus:bg-secondary focus:text-foreground">
+                  已存在：跳过
+                </SelectItem>
+                <SelectItem value="overwrite" className="text-xs focus:bg-secondary focus:text-foreground">
+                  已存在：覆盖
+                </SelectItem>
+                <SelectItem value="merge-nonnull" className="text-xs focus:bg-secondary focus:text-foreground">
+                  已存在：补全非空字段
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleSubmit}
+              className="bg-primary text-primary-foreground hover:bg-primary/90 px-8"
+            >
+              录入
+            </Button>
+          </div>
         </div>
 
         <p className="text-xs text-muted-foreground">
-        填写代码和名称即可录入。板块用顿号或逗号分隔多个。板块分时可选「水下拉水上」或「波动三角收窄」。
+        填写代码和名称即可录入。板块用顿号或逗号分隔多个。板块分时可选「水下拉水上」或「波动三角收窄」。同一日期同一代码只保留一条记录，重复录入按右下角选择的方式处理。
         </p>
     </div>
   );
@@ -0,0 +1,378 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CandlestickChart } from "@/components/candlestick-chart";
+import { PctText } from "@/components/forward-return-stats";
+import { AlertRuleEditor } from "@/components/alert-center";
+import type { SignalRecord, StockHistory, WatchlistItem, WatchlistState } from "@/lib/types";
+import type { StockIndicators } from "@/lib/tushare";
+import { WATCHLIST_TRANSITIONS } from "@/lib/watchlist";
+import {
+  addToWatchlist,
+  getRecords,
+  getStockHistory,
+  getStockIndicators,
+  getWatchlist,
+  removeFromWatchlist,
+  transitionWatchlistItem,
+} from "@/lib/store";
+
+export const WATCH_STATE_CLASS: Record<WatchlistState, string> = {
+  观察: "border-primary/40 text-primary bg-primary/10",
+  计划: "border-amber-500/40 text-amber-500 bg-amber-500/10",
+  持有: "border-stock-up/40 text-stock-up bg-stock-up/10",
+  卖出: "border-border text-muted-foreground bg-secondary/60",
+  淘汰: "border-stock-down/40 text-stock-down bg-stock-down/10",
+};
+
+const MA20_STATUS_LABEL = { above: "已上穿", touched: "触及", below: "未达到" } as const;
+
+interface StockDetailPanelProps {
+  stock: { code: string; name: string } | null; // 为 null 时关闭
+  dataVersion?: number;
+  onClose: () => void;
+  onWatchlistChange?: () => void; // 关注状态变更后通知上层刷新
+}
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// 个股详情：关注状态与流转记录、提醒规则、历次信号、均线状态与录入后的涨停情况
+export function StockDetailPanel({
+  stock,
+  dataVersion = 0,
+  onClose,
+  onWatchlistChange,
+}: StockDetailPanelProps) {
+  const [item, setItem] = useState<WatchlistItem | null>(null);
+  const [records, setRecords] = useState<SignalRecord[]>([]);
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [indicators, setIndicators] = useState<StockIndicators | null>(null);
+  const [indicatorError, setIndicatorError] = useState<string | null>(null);
+  const [indicatorLoading, setIndicatorLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setItem(null);
+    setRecords([]);
+    setHistory(null);
+    setIndicators(null);
+    setIndicatorError(null);
+    if (!stock) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      getWatchlist({ code: stock.code }),
+      getRecords({ code: stock.code, sort: "date", order: "desc" }),
+    ]).then(([items, recs]) => {
+      if (cancelled) return;
+      setItem(items[0] ?? null);
+      setRecords(recs);
+      setHistory(getStockHistory(recs)[0] ?? null);
+      setLoading(false);
+
+      setIndicatorLoading(true);
+      getStockIndicators(stock.code, Array.from(new Set(recs.map((r) => r.date))))
+        .then((data) => {
+          if (!cancelled) setIndicators(data);
+        })
+        .catch((e: any) => {
+          if (!cancelled) setIndicatorError(e?.message || "获取行情指标失败");
+        })
+        .finally(() => {
+          if (!cancelled) setIndicatorLoading(false);
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [stock, dataVersion]);
+
+  async function handleAdd() {
+    if (!stock) return;
+    const reason = window.prompt(`加入关注（观察）的原因：`);
+    if (reason === null) return;
+    setBusy(true);
+    try {
+      setItem(await addToWatchlist({ code: stock.code, name: stock.name, reason }));
+      onWatchlistChange?.();
+    } catch (e: any) {
+      alert(`加入关注失败: ${e?.message || "未知错误"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleTransition(to: WatchlistState) {
+    if (!item) return;
+    const reason = window.prompt(`「${item.state}」→「${to}」的原因：`);
+    if (reason === null) return;
+    setBusy(true);
+    try {
+      setItem(await transitionWatchlistItem(item.id, to, reason));
+      onWatchlistChange?.();
+    } catch (e: any) {
+      alert(`变更失败: ${e?.message || "未知错误"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRemove() {
+    if (!item) return;
+    if (!window.confirm(`确定将 ${item.code} 移出关注列表吗？状态变更记录会一并删除。`)) return;
+    setBusy(true);
+    try {
+      await removeFromWatchlist(item.id);
+      setItem(null);
+      onWatchlistChange?.();
+    } catch (e: any) {
+      alert(`移出关注失败: ${e?.message || "未知错误"}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const ma20 = indicators?.ma20 ?? null;
+  const chart = indicators?.dailyChart ?? null;
+  const latestPoint = chart?.series[chart.series.length - 1] ?? null;
+
+  return (
+    <Dialog open={!!stock} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span>{stock?.name}</span>
+            <span className="font-mono text-sm text-muted-foreground">{stock?.code}</span>
+            {item && (
+              <Badge variant="outline" className={`text-xs ${WATCH_STATE_CLASS[item.state]}`}>
+                {item.state}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {history
+              ? `共出现 ${history.appearances} 次，平均评分 ${history.avgScore}，最高 ${history.maxScore}`
+              : loading
+                ? "加载中…"
+                : "信号库中没有该股的记录"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 关注状态与流转 */}
+        <section className="flex flex-col gap-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs font-medium text-muted-foreground">关注状态</span>
+            {item ? (
+              <>
+                {WATCHLIST_TRANSITIONS[item.state].map((to) => (
+                  <Button
+                    key={to}
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={busy}
+                    onClick={() => handleTransition(to)}
+                  >
+                    → {to}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  disabled={busy}
+                  onClick={handleRemove}
+                >
+                  移出关注
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={busy || loading}
+                onClick={handleAdd}
+              >
+                加入关注
+              </Button>
+            )}
+          </div>
+          {item && (
+            <ol className="flex flex-col gap-1 border-l border-border pl-3">
+              {[...item.transitions].reverse().map((t) => (
+                <li key={t.id} className="text-xs">
+                  <span className="font-mono text-muted-foreground">{formatTime(t.createdAt)}</span>
+                  <span className="ml-2 text-foreground">
+                    {t.from ? `${t.from} → ${t.to}` : `加入关注（${t.to}）`}
+                  </span>
+                  <span className="ml-2 text-muted-foreground">{t.reason}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {/* 该股的提醒规则（全局规则在提醒中心设置） */}
+        {stock && (
+          <section className="flex flex-col gap-2">
+            <span className="text-xs font-medium text-muted-foreground">提醒规则</span>
+            <AlertRuleEditor code={stock.code} />
+          </section>
+        )}
+
+        {/* 均线状态 */}
+        <section className="flex flex-col gap-2">
+          <span className="text-xs font-medium text-muted-foreground">
+            均线状态
+            {ma20 && <span className="ml-1 font-normal">（数据日期 {ma20.latestTradeDate}）</span>}
+          </span>
+          {indicatorLoading ? (
+            <span className="text-xs text-muted-foreground animate-pulse">查询中…</span>
+          ) : indicatorError ? (
+            <span className="text-xs text-destructive">{indicatorError}</span>
+          ) : (
+            <div className="flex flex-wrap items-start gap-6">
+              {ma20 ? (
+                <div className="flex flex-col gap-1">
+                  <CandlestickChart data={ma20.ohlc} ma20={ma20.ma20} width={320} height={90} />
+                  <span className="text-xs text-foreground">
+                    MA20 {ma20.ma20.toFixed(2)}，收盘 {ma20.latestClose.toFixed(2)}
+                    <span className="ml-2 font-semibold">{MA20_STATUS_LABEL[ma20.status]}</span>
+                  </span>
+                </div>
+              ) : (
+                <span className="text-xs text-muted-foreground">日线不足 20 天，无法计算 MA20</span>
+              )}
+              {chart && latestPoint ? (
+                <div className="flex flex-col gap-1 text-xs">
+                  <span className="text-foreground">
+                    MA5 {latestPoint.ma5?.toFixed(2) ?? "-"} / MA30 {latestPoint.ma30?.toFixed(2) ?? "-"}
+                  </span>
+                  <span className={chart.near ? "text-stock-up font-semibold" : "text-muted-foreground"}>
+                    {chart.near ? "5日线与30日线接近" : "5日线与30日线未接近"}
+                  </span>
+                  {chart.typicalNearMa30 && (
+                    <span className="text-primary">当日均价接近30日线</span>
+                  )}
+                </div>
+              ) : (
+                <span className="text-xs text-muted-foreground">日线不足 30 天，无法计算 MA5/MA30</span>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* 历次信号 */}
+        <section className="flex flex-col gap-2">
+          <span className="text-xs font-medium text-muted-foreground">
+            历次信号
+            {history && history.tagSummary.length > 0 && (
+              <span className="ml-2 font-normal text-primary">
+                {history.tagSummary.map(({ tag, count }) => `#${tag}${count > 1 ? `×${count}` : ""}`).join(" ")}
+              </span>
+            )}
+          </span>
+          <div className="overflow-x-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground whitespace-nowrap">日期</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">评分</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">板块 / 形态</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">涨跌</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">次日 / T+5</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">首次涨停</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">笔记</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                      {loading ? "加载中…" : "暂无记录"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  records.map((r) => {
+                    const limitUp = indicators?.limitUps[r.date];
+                    return (
+                      <TableRow key={r.id ?? r.date} className="border-border hover:bg-secondary/50">
+                        <TableCell className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                          {r.date}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm font-semibold">{r.score}</TableCell>
+                        <TableCell className="text-xs">
+                          {r.sector.join("、")}
+                          {r.sector_pattern && (
+                            <span className="ml-1 text-primary">{r.sector_pattern}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-xs">
+                          <PctText value={r.chg} />
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+                          <PctText value={r.forward?.windows[1]?.close} />
+                          <span className="text-muted-foreground"> / </span>
+                          <PctText value={r.forward?.windows[5]?.close} />
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {indicatorLoading ? (
+                            <span className="text-muted-foreground animate-pulse">查询中…</span>
+                          ) : !indicators ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : limitUp ? (
+                            <span className={limitUp.sealed ? "text-stock-up" : "text-primary"}>
+                              {limitUp.date}
+                              {limitUp.sealed
+                                ? " 封板"
+                                : ` 炸板${limitUp.sealedDate ? `，${limitUp.sealedDate} 封板` : ""}`}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">暂无涨停</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs max-w-[220px]">
+                          {r.tags && r.tags.length > 0 && (
+                            <span className="mr-1 text-primary">{r.tags.map((t) => `#${t}`).join(" ")}</span>
+                          )}
+                          {r.note && (
+                            <span className="text-muted-foreground line-clamp-2" title={r.note}>
+                              {r.note}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,17 +30,38 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { CandlestickChart } from "@/components/candlestick-chart";
-import type { SignalRecord, SectorScreenshot } from "@/lib/types";
-import { getSectorScreenshot } from "@/lib/store";
+import { RecordEditDialog } from "@/components/record-edit-dialog";
+import { RecordNotesDialog } from "@/components/record-notes-dialog";
+import { StockDetailPanel, WATCH_STATE_CLASS } from "@/components/stock-detail-panel";
+import { ForwardReturnStats, PctText } from "@/components/forward-return-stats";
+import type {
+  SignalNotesPatch,
+  SignalRecord,
+  SectorScreenshot,
+  SignalQuery,
+  WatchlistState,
+} from "@/lib/types";
+import { getSectorScreenshots, getRecords, getWatchlist, querySignals } from "@/lib/store";
+import { WATCHLIST_STATES } from "@/lib/watchlist";
+import type { StockIndicators } from "@/lib/tushare";
 
 interface StocksPageProps {
-  records: SignalRecord[];
+  dataVersion?: number; // 信号数据变更后递增，用于重新查询
+  existingSectors?: string[];
+  onUpdateRecord?: (id: number, patch: Partial<SignalRecord>) => Promise<void>;
+  onUpdateNotes?: (id: number, patch: SignalNotesPatch) => Promise<void>;
+  onDeleteRecord?: (id: number) => Promise<void>;
+  // 从其他页面跳转查看某只个股：nonce 变化时把搜索框设为该代码
+  focusCode?: { code: string; nonce: number } | null;
+  // 打开（或新建）与该股关联的询问 AI 对话
+  onAskAI?: (record: SignalRecord) => void;
 }
 
 type SortKey =
   | "date"
   | "code"
   | "name"
+  | "score"
   | "amount"
   | "debt_ratio"
   | "tradingDays"
@@ -82,13 +103,50 @@ interface Ma5Ma30Status {
 }
 
 interface LimitUpInfo {
-  limitUpDate: string | null;
+  limitUpDate: string | null; // 首次触及涨停的交易日
+  sealed?: boolean; // 当日是否封板（false 为炸板）
+  sealedDate?: string | null; // 首次封板日
   loading: boolean;
   error?: string;
 }
 
-export function StocksPage({ records }: StocksPageProps) {
+const EMPTY_MA20: Omit<Ma20Status, "loading"> = {
+  ma20: null,
+  latestClose: null,
+  latestHigh: null,
+  latestTradeDate: null,
+  status: null,
+  ohlc: [],
+};
+
+const EMPTY_MA5_MA30: Omit<Ma5Ma30Status, "loading"> = {
+  series: [],
+  near: null,
+  typicalNearMa30: null,
+  latestTradeDate: null,
+};
+
+// 单次批量指标请求包含的股票数（服务端上限 100）
+const INDICATOR_BATCH_SIZE = 50;
+
+export function StocksPage({
+  dataVersion = 0,
+  existingSectors = [],
+  onUpdateRecord,
+  onUpdateNotes,
+  onDeleteRecord,
+  focusCode = null,
+  onAskAI,
+}: StocksPageProps) {
   const [search, setSearch] = useState("");
+  const [editingRecord, setEditingRecord] = useState<SignalRecord | null>(null);
+  const [notesRecord, setNotesRecord] = useState<SignalRecord | null>(null);
+  const [detailStock, setDetailStock] = useState<{ code: string; name: string } | null>(null);
+  // 关注状态筛选：all 不筛选，any 为已关注（任意状态）
+  const [watchFilter, setWatchFilter] = useState<"all" | "any" | WatchlistState>("all");
+  // 关注列表（代码 -> 状态），状态变更后递增 watchVersion 重新加载
+  const [watchStates, setWatchStates] = useState<Record<string, WatchlistState>>({});
+  const [watchVersion, setWatchVersion] = useState(0);
   const [sectorFilter, setSectorFilter] = useState("all");
   const [sortKey, setSortKey] = useState<SortKey>("date");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
@@ -169,307 +227,310 @@ export function StocksPage({ records }: StocksPageProps) {
   const sectorShotCache = useRef<Map<string, SectorScreenshot | null>>(new Map());
   const [hoverPreview, setHoverPreview] = useState<{ url: string; title: string } | null>(null);
 
-  const fetchMa20 = useCallback(async (code: string) => {
-    setMa20Map((prev) => ({
-      ...prev,
-      [code]: {
-        ma20: null,
-        latestClose: null,
-        latestHigh: null,
-        latestTradeDate: null,
-        status: null,
-        ohlc: [],
-        loading: true,
-      },
-    }));
-    try {
-      const res = await fetch(`/api/tushare/ma20-chart?code=${code}`);
-      const data = await res.json();
-      if (!res.ok) {
-        setMa20Map((prev) => ({
-          ...prev,
-          [code]: {
-            ma20: null,
-            latestClose: null,
-            latestHigh: null,
-            latestTradeDate: null,
-            status: null,
-            ohlc: [],
-            loading: false,
-            error: data.error || "获取失败",
-          },
-        }));
-        return;
-      }
-      setMa20Map((prev) => ({
-        ...prev,
-        [code]: {
-          ma20: data.ma20,
-          latestClose: data.latestClose,
-          latestHigh: data.latestHigh,
-          latestTradeDate: data.latestTradeDate ?? null,
-          status: data.status,
-          ohlc: data.ohlc ?? [],
-          loading: false,
-        },
-      }));
-      if (data.latestTradeDate) {
-        setLatestMa20DataDate((d) =>
-          !d || data.latestTradeDate > d ? data.latestTradeDate : d
-        );
-      }
-    } catch (e: any) {
-      setMa20Map((prev) => ({
-        ...prev,
-        [code]: {
-          ma20: null,
-          latestClose: null,
-          latestHigh: null,
-          latestTradeDate: null,
-          status: null,
-          ohlc: [],
-          loading: false,
-          error: e?.message || "网络请求失败",
-        },
-      }));
-    }
-  }, []);
+  // 批量查询 MA20 / MA5-MA30 / 涨停信息：每个代码只取一次日线，每批最多 INDICATOR_BATCH_SIZE 只股票
+  const fetchIndicators = useCallback(
+    async (items: { code: string; recordDate?: string }[]) => {
+      const codes = Array.from(new Set(items.map((i) => i.code)));
+      if (codes.length === 0) return;
 
-  const fetchDailyChart = useCallback(async (code: string) => {
-    setMa5ma30Map((prev) => ({
-      ...prev,
-      [code]: {
-        series: [],
-        latestTradeDate: null,
-        near: null,
-        typicalNearMa30: null,
-        loading: true,
-      },
-    }));
-    try {
-      const res = await fetch(`/api/tushare/daily-chart?code=${code}`);
-      const data = await res.json();
-      if (!res.ok) {
-        setMa5ma30Map((prev) => ({
-          ...prev,
-          [code]: {
-            series: [],
-            latestTradeDate: null,
-            near: null,
-            typicalNearMa30: null,
-            loading: false,
-            error: data.error || "获取失败",
-          },
-        }));
-        return;
-      }
-      const latestDate =
-        data.series?.length > 0
-          ? data.series[data.series.length - 1].date
-          : null;
-      setMa5ma30Map((prev) => ({
-        ...prev,
-        [code]: {
-          series: data.series ?? [],
-          near: data.near ?? false,
-          typicalNearMa30: data.typicalNearMa30 ?? false,
-          latestTradeDate: latestDate,
-          loading: false,
-        },
-      }));
-      if (latestDate) {
-        setLatestMa5Ma30DataDate((d) =>
-          !d || latestDate > d ? latestDate : d
-        );
-      }
-    } catch (e: any) {
-      setMa5ma30Map((prev) => ({
-        ...prev,
-        [code]: {
-          series: [],
-          latestTradeDate: null,
-          near: null,
-          typicalNearMa30: null,
-          loading: false,
-          error: e?.message || "网络请求失败",
-        },
-      }));
-    }
-  }, []);
+      setMa20Map((prev) => {
+        const next = { ...prev };
+        for (const code of codes) next[code] = { ...EMPTY_MA20, loading: true };
+        return next;
+      });
+      setMa5ma30Map((prev) => {
+        const next = { ...prev };
+        for (const code of codes) next[code] = { ...EMPTY_MA5_MA30, loading: true };
+        return next;
+      });
+      setLimitUpMap((prev) => {
+        const next = { ...prev };
+        for (const i of items) {
+          if (i.recordDate) next[`${i.code}-${i.recordDate}`] = { limitUpDate: null, loading: true };
+        }
+        return next;
+      });
 
-  const fetchLimitUp = useCallback(
-    async (code: string, recordDate: string) => {
-      const key = `${code}-${recordDate}`;
-      setLimitUpMap((prev) => ({
-        ...prev,
-        [key]: {
-          limitUpDate: null,
-          loading: true,
-        },
-      }));
-      try {
-        const params = new URLSearchParams({ code, recordDate });
-        const res = await fetch(`/api/tushare/limit-up?${params.toString()}`);
-        const data = await res.json();
-        if (!res.ok) {
-          setLimitUpMap((prev) => ({
-            ...prev,
-            [key]: {
-              limitUpDate: null,
-              loading: false,
-              error: data.error || "获取失败",
-            },
-          }));
-          return;
+      const apply = (
+        results: StockIndicators[],
+        batchItems: { code: string; recordDate?: string }[]
+      ) => {
+        const byCode = new Map(results.map((r) => [r.code, r]));
+        setMa20Map((prev) => {
+          const next = { ...prev };
+          for (const r of results) {
+            next[r.code] = r.ma20
+              ? { ...r.ma20, loading: false }
+              : {
+                  ...EMPTY_MA20,
+                  loading: false,
+                  error: r.error || `未获取到 ${r.code} 的数据或日线不足`,
+                };
+          }
+          return next;
+        });
+        setMa5ma30Map((prev) => {
+          const next = { ...prev };
+          for (const r of results) {
+            const series = r.dailyChart?.series ?? [];
+            next[r.code] = r.dailyChart
+              ? {
+                  series,
+                  near: r.dailyChart.near,
+                  typicalNearMa30: r.dailyChart.typicalNearMa30,
+                  latestTradeDate: series.length > 0 ? series[series.length - 1].date : null,
+                  loading: false,
+                }
+              : {
+                  ...EMPTY_MA5_MA30,
+                  loading: false,
+                  error: r.error || `未获取到 ${r.code} 的足够日线数据（需至少30个交易日）`,
+                };
+          }
+          return next;
+        });
+        setLimitUpMap((prev) => {
+          const next = { ...prev };
+          for (const i of batchItems) {
+            if (!i.recordDate) continue;
+            const r = byCode.get(i.code);
+            next[`${i.code}-${i.recordDate}`] =
+              !r || r.error
+                ? { limitUpDate: null, loading: false, error: r?.error || "获取失败" }
+                : {
+                    limitUpDate: r.limitUps[i.recordDate]?.date ?? null,
+                    sealed: r.limitUps[i.recordDate]?.sealed,
+                    sealedDate: r.limitUps[i.recordDate]?.sealedDate ?? null,
+                    loading: false,
+                  };
+          }
+          return next;
+        });
+
+        const ma20Dates = results.map((r) => r.ma20?.latestTradeDate).filter(Boolean) as string[];
+        if (ma20Dates.length > 0) {
+          const latest = ma20Dates.reduce((a, b) => (a > b ? a : b));
+          setLatestMa20DataDate((d) => (!d || latest > d ? latest : d));
+        }
+        const chartDates = results
+          .map((r) => r.dailyChart?.series[r.dailyChart.series.length - 1]?.date)
+          .filter(Boolean) as string[];
+        if (chartDates.length > 0) {
+          const latest = chartDates.reduce((a, b) => (a > b ? a : b));
+          setLatestMa5Ma30DataDate((d) => (!d || latest > d ? latest : d));
+        }
+      };
+
+      for (let i = 0; i < codes.length; i += INDICATOR_BATCH_SIZE) {
+        const batchCodes = new Set(codes.slice(i, i + INDICATOR_BATCH_SIZE));
+        const batchItems = items.filter((it) => batchCodes.has(it.code));
+        try {
+          const res = await fetch("/api/tushare/indicators", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ items: batchItems }),
+          });
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "获取失败");
+          apply(data.results ?? [], batchItems);
+        } catch (e: any) {
+          const error = e?.message || "网络请求失败";
+          apply(
+            Array.from(batchCodes).map((code) => ({
+              code,
+              ma20: null,
+              dailyChart: null,
+              limitUps: {},
+              error,
+            })),
+            batchItems
+          );
         }
-        setLimitUpMap((prev) => ({
-          ...prev,
-          [key]: {
-            limitUpDate: data.limitUpDate ?? null,
-            loading: false,
-          },
-        }));
-      } catch (e: any) {
-        setLimitUpMap((prev) => ({
-          ...prev,
-          [key]: {
-            limitUpDate: null,
-            loading: false,
-            error: e?.message || "网络请求失败",
-          },
-        }));
       }
     },
     []
   );
 
-  const allSectors = useMemo(() => {
-    const set = new Set<string>();
-    for (const r of records) {
-      for (const s of r.sector) set.add(s);
-    }
-    return Array.from(set).sort();
-  }, [records]);
+  useEffect(() => {
+    if (!focusCode) return;
+    setSearch(focusCode.code);
+    setSectorFilter("all");
+  }, [focusCode]);
 
-  const filtered = useMemo(() => {
-    let list = [...records];
+  // 搜索框防抖，避免每次按键都请求服务端
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(t);
+  }, [search]);
 
-    if (search.trim()) {
-      const q = search.trim().toLowerCase();
-      list = list.filter(
-        (r) =>
-          r.code.includes(q) ||
-          r.name.toLowerCase().includes(q) ||
-          r.sector.some((s) => s.toLowerCase().includes(q))
-      );
+  // 「涨停情况」依赖逐条查询结果，只能在前端排序：此时拉取全部匹配记录后本地排序分页
+  const clientMode = pageSize === "all" || sortKey === "limitUpDays";
+
+  // 服务端查询条件：筛选 + 排序（交易天数越多即录入日越早，按录入日反向排序）
+  const baseQuery = useMemo<SignalQuery>(() => {
+    const query: SignalQuery = {
+      q: debouncedSearch || undefined,
+      sector: sectorFilter !== "all" ? sectorFilter : undefined,
+      watch: watchFilter !== "all" ? watchFilter : undefined,
+    };
+    if (sortKey === "tradingDays") {
+      query.sort = "date";
+      query.order = sortDir === "asc" ? "desc" : "asc";
+    } else if (sortKey === "limitUpDays") {
+      query.sort = "date";
+      query.order = "desc";
+    } else {
+      query.sort = sortKey;
+      query.order = sortDir;
     }
+    return query;
+  }, [debouncedSearch, sectorFilter, watchFilter, sortKey, sortDir]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWatchlist().then((items) => {
+      if (!cancelled) setWatchStates(Object.fromEntries(items.map((i) => [i.code, i.state])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion, watchVersion]);
 
-    if (sectorFilter !== "all") {
-      list = list.filter((r) => r.sector.includes(sectorFilter));
+  // 后续表现评估完成后递增，重新拉取列表以显示最新数据
+  const [forwardVersion, setForwardVersion] = useState(0);
+  const queryKey = JSON.stringify({
+    ...baseQuery,
+    pageSize,
+    clientMode,
+    dataVersion,
+    forwardVersion,
+    // 按关注状态筛选时，状态变更后需要重新查询
+    watchVersion: watchFilter !== "all" ? watchVersion : 0,
+  });
+
+  // 服务端返回的记录：分页模式下为当前页，clientMode 下为全部匹配记录
+  const [rows, setRows] = useState<SignalRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [listLoading, setListLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  // 每页的起始游标（第 0 页为 null），查询条件变化时重置
+  const cursorsRef = useRef<{ key: string; list: (number | null)[] }>({
+    key: "",
+    list: [null],
+  });
+
+  // 当过滤条件或页大小变化时，重置页码
+  useEffect(() => {
+    setPageIndex(0);
+  }, [queryKey]);
+
+  useEffect(() => {
+    if (cursorsRef.current.key !== queryKey) {
+      cursorsRef.current = { key: queryKey, list: [null] };
     }
+    const cursors = cursorsRef.current.list;
+    // 条件刚变化、页码尚未重置时，等待重置后再查询
+    if (!clientMode && cursors[pageIndex] === undefined) return;
 
-    list.sort((a, b) => {
-      let av: string | number | null = null;
-      let bv: string | number | null = null;
-      switch (sortKey) {
-        case "date":
-          av = a.date;
-          bv = b.date;
-          break;
-        case "code":
-          av = a.code;
-          bv = b.code;
-          break;
-        case "name":
-          av = a.name;
-          bv = b.name;
-          break;
-        case "amount":
-          av = a.amount;
-          bv = b.amount;
-          break;
-        case "debt_ratio":
-          av = a.debt_ratio;
-          bv = b.debt_ratio;
-          break;
-        case "tradingDays": {
-          const ta = calcTradingDays(a.date);
-          const tb = calcTradingDays(b.date);
-          av = ta;
-          bv = tb;
-          break;
-        }
-        case "limitUpDays": {
-          const getDays = (r: SignalRecord): number | null => {
-            const info = limitUpMap[`${r.code}-${r.date}`];
-            if (!info || info.loading || !info.limitUpDate) return null;
-            return calcTradingDaysBetween(r.date, info.limitUpDate);
-          };
-          av = getDays(a);
-          bv = getDays(b);
-          break;
+    let cancelled = false;
+    const load = async () => {
+      setListLoading(true);
+      setListError(null);
+      try {
+        if (clientMode) {
+          const all = await getRecords(baseQuery);
+          if (cancelled) return;
+          setRows(all);
+          setTotal(all.length);
+        } else {
+          const page = await querySignals({
+            ...baseQuery,
+            limit: Number(pageSize),
+            cursor: cursors[pageIndex] ?? undefined,
+          });
+          if (cancelled) return;
+          cursors[pageIndex + 1] = page.nextCursor;
+          setRows(page.items);
+          setTotal(page.total);
         }
+      } catch (e: any) {
+        if (cancelled) return;
+        setRows([]);
+        setTotal(0);
+        setListError(e?.message || "获取数据失败");
+      } finally {
+        if (!cancelled) setListLoading(false);
       }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryKey, baseQuery, clientMode, pageSize, pageIndex]);
+
+  const filtered = useMemo(() => {
+    if (sortKey !== "limitUpDays") return rows;
+
+    const getDays = (r: SignalRecord): number | null => {
+      const info = limitUpMap[`${r.code}-${r.date}`];
+      if (!info || info.loading || !info.limitUpDate) return null;
+      return calcTradingDaysBetween(r.date, info.limitUpDate);
+    };
+    return [...rows].sort((a, b) => {
+      const av = getDays(a);
+      const bv = getDays(b);
       if (av === null && bv === null) return 0;
       if (av === null) return 1;
       if (bv === null) return -1;
-      if (av < bv) return sortDir === "asc" ? -1 : 1;
-      if (av > bv) return sortDir === "asc" ? 1 : -1;
-      return 0;
+      return sortDir === "asc" ? av - bv : bv - av;
     });
-
-    return list;
-  }, [records, search, sectorFilter, sortKey, sortDir, calcTradingDays, calcTradingDaysBetween, limitUpMap]);
+  }, [rows, sortKey, sortDir, calcTradingDaysBetween, limitUpMap]);
 
   const visibleRecords = useMemo(() => {
-    if (filtered.length === 0) return [];
-    if (pageSize === "all") {
-      return filtered;
-    }
+    if (!clientMode || pageSize === "all") return filtered;
     const limit = Number(pageSize);
     const start = pageIndex * limit;
-    const end = start + limit;
-    return filtered.slice(start, end);
-  }, [filtered, pageSize, pageIndex]);
+    return filtered.slice(start, start + limit);
+  }, [filtered, clientMode, pageSize, pageIndex]);
 
-  // 当过滤条件或页大小变化时，重置或校正页码
-  useEffect(() => {
-    setPageIndex(0);
-  }, [search, sectorFilter, sortKey, sortDir, pageSize]);
+  const totalPages =
+    pageSize === "all" ? 1 : Math.max(1, Math.ceil(total / Number(pageSize)));
 
-  useEffect(() => {
-    if (pageSize === "all") return;
-    const limit = Number(pageSize);
-    const totalPages = Math.max(1, Math.ceil(filtered.length / (limit || 1)));
-    setPageIndex((prev) => Math.min(prev, totalPages - 1));
-  }, [filtered.length, pageSize]);
+  // 当前结果中用过的标签，按使用次数排序，供笔记弹窗提示
+  const usedTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const t of rows.flatMap((r) => r.tags ?? [])) {
+      counts.set(t, (counts.get(t) ?? 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([t]) => t);
+  }, [rows]);
 
-  // 自动查询：列表数据变化时，对当前展示的记录触发 MA20 / MA5-MA30，
-  // 对「涨停情况排序」时会对所有过滤后的记录触发涨停查询（避免对全部历史记录打满 API 的同时保证排序正确）
+  // 自动查询：列表数据变化时，对当前展示的记录批量查询 MA20 / MA5-MA30 / 涨停，
+  // 对「涨停情况排序」时会对所有过滤后的记录查询涨停（避免对全部历史记录打满 API 的同时保证排序正确）
   const fetchedRef = useRef<Set<string>>(new Set());
-  const fetchedMa5Ma30Ref = useRef<Set<string>>(new Set());
   const fetchedLimitUpRef = useRef<Set<string>>(new Set());
   useEffect(() => {
-    const codes = Array.from(new Set(visibleRecords.map((r) => r.code)));
-    for (const code of codes) {
-      if (!fetchedRef.current.has(code)) {
-        fetchedRef.current.add(code);
-        fetchMa20(code);
-      }
-      if (!fetchedMa5Ma30Ref.current.has(code)) {
-        fetchedMa5Ma30Ref.current.add(code);
-        fetchDailyChart(code);
-      }
-    }
+    const items: { code: string; recordDate?: string }[] = [];
     const baseForLimitUp = sortKey === "limitUpDays" ? filtered : visibleRecords;
     for (const r of baseForLimitUp) {
       const key = `${r.code}-${r.date}`;
       if (!fetchedLimitUpRef.current.has(key)) {
         fetchedLimitUpRef.current.add(key);
-        fetchLimitUp(r.code, r.date);
+        fetchedRef.current.add(r.code);
+        items.push({ code: r.code, recordDate: r.date });
+      }
+    }
+    for (const r of visibleRecords) {
+      if (!fetchedRef.current.has(r.code)) {
+        fetchedRef.current.add(r.code);
+        items.push({ code: r.code });
       }
     }
-  }, [visibleRecords, filtered, sortKey, fetchMa20, fetchDailyChart, fetchLimitUp]);
+    fetchIndicators(items);
+  }, [visibleRecords, filtered, sortKey, fetchIndicators]);
 
   function handleSort(key: SortKey) {
     if (sortKey === key) {
@@ -510,7 +571,7 @@ export function StocksPage({ records }: StocksPageProps) {
             {s.error}
           </span>
           <button
-            onClick={() => fetchMa20(code)}
+            onClick={() => fetchIndicators([{ code }])}
             className="text-[10px] text-primary underline-offset-2 hover:underline text-left mt-0.5"
           >
             重试
@@ -590,7 +651,7 @@ export function StocksPage({ records }: StocksPageProps) {
             {s.error}
           </span>
           <button
-            onClick={() => fetchDailyChart(code)}
+            onClick={() => fetchIndicators([{ code }])}
             className="text-[10px] text-primary underline-offset-2 hover:underline text-left mt-0.5"
           >
             重试
@@ -676,6 +737,55 @@ export function StocksPage({ records }: StocksPageProps) {
     );
   }
 
+  // 后续表现三列：次日开/收、T+3/5/10 收盘、10日内最高/最大回撤（交易日未满时显示已有天数）
+  function ForwardCells({ record }: { record: SignalRecord }) {
+    const f = record.forward;
+    if (!f) {
+      return (
+        <TableCell className="text-right text-xs text-muted-foreground" colSpan={3}>
+          未评估
+        </TableCell>
+      );
+    }
+    const w = f.windows;
+    return (
+      <>
+        <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+          <PctText value={f.next_open} />
+          <span className="text-muted-foreground"> / </span>
+          <PctText value={w[1]?.close} />
+        </TableCell>
+        <TableCell
+          className="text-right font-mono text-xs whitespace-nowrap"
+          title={([3, 5, 10] as const)
+            .map((n) =>
+              w[n]
+                ? `T+${n}：收盘 ${w[n]!.close}%，最高 ${w[n]!.max_high}%，回撤 ${w[n]!.max_drawdown}%`
+                : `T+${n}：交易日不足`
+            )
+            .join("\n")}
+        >
+          <PctText value={w[3]?.close} />
+          <span className="text-muted-foreground"> / </span>
+          <PctText value={w[5]?.close} />
+          <span className="text-muted-foreground"> / </span>
+          <PctText value={w[10]?.close} />
+        </TableCell>
+        <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+          {w[10] ? (
+            <>
+              <PctText value={w[10].max_high} />
+              <span className="text-muted-foreground"> / </span>
+              <PctText value={w[10].max_drawdown} />
+            </>
+          ) : (
+            <span className="text-muted-foreground">已 {f.days} 日</span>
+          )}
+        </TableCell>
+      </>
+    );
+  }
+
   function LimitUpCell({ code, date }: { code: string; date: string }) {
     const key = `${code}-${date}`;
     const info = limitUpMap[key];
@@ -698,7 +808,7 @@ export function StocksPage({ records }: StocksPageProps) {
             {info.error}
           </span>
           <button
-            onClick={() => fetchLimitUp(code, date)}
+            onClick={() => fetchIndicators([{ code, recordDate: date }])}
             className="text-[10px] text-primary underline-offset-2 hover:underline text-left mt-0.5"
           >
             重试
@@ -738,8 +848,17 @@ export function StocksPage({ records }: StocksPageProps) {
           <Badge
             className={`text-[10px] px-1.5 py-0 h-5 font-semibold border ${highlightClass}`}
           >
-            已涨停
+            {info.sealed === false ? "触及涨停" : "已涨停"}
           </Badge>
+          {info.sealed === false && (
+            <Badge
+              variant="outline"
+              className="text-[10px] px-1.5 py-0 h-5 text-stock-down border-stock-down/40"
+              title={info.sealedDate ? `${info.sealedDate} 首次封板` : "之后未出现封板"}
+            >
+              炸板{info.sealedDate ? ` · ${info.sealedDate.slice(5)} 封板` : ""}
+            </Badge>
+          )}
           {days != null && (
             <span className="text-[11px] text-muted-foreground font-mono">
               第 {days} 个交易日
@@ -778,9 +897,9 @@ export function StocksPage({ records }: StocksPageProps) {
     const cacheKey = `${record.date}|${sectorName}`;
     if (sectorShotCache.current.has(cacheKey)) {
       const cached = sectorShotCache.current.get(cacheKey);
-      if (cached?.imageDataUrl) {
+      if (cached) {
         setHoverPreview({
-          url: cached.imageDataUrl,
+          url: cached.thumbnailUrl,
           title: `${record.date} ${sectorName}`,
         });
       } else {
@@ -789,11 +908,12 @@ export function StocksPage({ records }: StocksPageProps) {
       return;
     }
     try {
-      const shot = await getSectorScreenshot(record.date, sectorName);
+      // 悬停预览只取第一张
+      const shot = (await getSectorScreenshots(record.date, sectorName))[0] ?? null;
       sectorShotCache.current.set(cacheKey, shot);
-      if (shot?.imageDataUrl) {
+      if (shot) {
         setHoverPreview({
-          url: shot.imageDataUrl,
+          url: shot.thumbnailUrl,
           title: `${record.date} ${sectorName}`,
         });
       } else {
@@ -811,7 +931,8 @@ export function StocksPage({ records }: StocksPageProps) {
           <CardTitle className="text-lg font-semibold text-foreground">
             个股列表
             <span className="text-sm font-normal text-muted-foreground ml-2">
-              显示 {visibleRecords.length} / {filtered.length} 条（总 {records.length} 条）
+              显示 {visibleRecords.length} / {total} 条
+              {listLoading && <span className="ml-2 animate-pulse">加载中…</span>}
             </span>
           </CardTitle>
         </CardHeader>
@@ -831,7 +952,7 @@ export function StocksPage({ records }: StocksPageProps) {
                 <SelectItem value="all" className="text-sm focus:bg-secondary focus:text-foreground">
                   全部板块
                 </SelectItem>
-                {allSectors.map((s) => (
+                {existingSectors.map((s) => (
                   <SelectItem
                     key={s}
                     value={s}
@@ -842,6 +963,31 @@ export function StocksPage({ records }: StocksPageProps) {
                 ))}
               </SelectContent>
             </Select>
+            <Select
+              value={watchFilter}
+              onValueChange={(v) => setWatchFilter(v as "all" | "any" | WatchlistState)}
+            >
+              <SelectTrigger className="w-32 bg-secondary text-foreground border-border text-sm">
+                <SelectValue placeholder="关注状态" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border text-foreground">
+                <SelectItem value="all" className="text-sm focus:bg-secondary focus:text-foreground">
+                  全部股票
+                </SelectItem>
+                <SelectItem value="any" className="text-sm focus:bg-secondary focus:text-foreground">
+                  已关注
+                </SelectItem>
+                {WATCHLIST_STATES.map((state) => (
+                  <SelectItem
+                    key={state}
+                    value={state}
+                    className="text-sm focus:bg-secondary focus:text-foreground"
+                  >
+                    {state}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={pageSize} onValueChange={(v) => setPageSize(v as "10" | "20" | "50" | "all")}>
               <SelectTrigger className="w-32 bg-secondary text-foreground border-border text-sm">
                 <SelectValue placeholder="显示数量" />
@@ -892,6 +1038,12 @@ export function StocksPage({ records }: StocksPageProps) {
                   <TableHead className="text-muted-foreground text-center whitespace-nowrap min-w-[100px]">
                     板块分时
                   </TableHead>
+                  <TableHead
+                    className="text-muted-foreground text-right cursor-pointer select-none whitespace-nowrap hover:text-foreground"
+                    onClick={() => handleSort("score")}
+                  >
+                    评分<SortIcon col="score" />
+                  </TableHead>
                   <TableHead
                     className="text-muted-foreground text-right cursor-pointer select-none whitespace-nowrap hover:text-foreground"
                     onClick={() => handleSort("amount")}
@@ -917,6 +1069,15 @@ export function StocksPage({ records }: StocksPageProps) {
                     涨停情况
                     <SortIcon col="limitUpDays" />
                   </TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                    次日开 / 收
+                  </TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                    T+3 / T+5 / T+10
+                  </TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                    10日最高 / 回撤
+                  </TableHead>
                   <TableHead className="text-muted-foreground whitespace-nowrap">
                     5日/30日线
                     {latestMa5Ma30DataDate && (
@@ -933,16 +1094,24 @@ export function StocksPage({ records }: StocksPageProps) {
                       </span>
                     )}
                   </TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">
+                    笔记
+                  </TableHead>
+                  {(onUpdateRecord || onUpdateNotes || onDeleteRecord || onAskAI) && (
+                    <TableHead className="text-muted-foreground whitespace-nowrap">
+                      操作
+                    </TableHead>
+                  )}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filtered.length === 0 ? (
+                {visibleRecords.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={12}
+                      colSpan={18}
                       className="text-center text-muted-foreground py-12"
                     >
-                      暂无数据
+                      {listError ?? (listLoading ? "加载中…" : "暂无数据")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -950,7 +1119,7 @@ export function StocksPage({ records }: StocksPageProps) {
                     const days = calcTradingDays(r.date);
                     return (
                       <TableRow
-                        key={`${r.code}-${r.date}-${i}`}
+                        key={r.id ?? `${r.code}-${r.date}-${i}`}
                         className="border-border hover:bg-secondary/50"
                       >
                         <TableCell className="text-muted-foreground font-mono text-xs">
@@ -963,7 +1132,22 @@ export function StocksPage({ records }: StocksPageProps) {
                           {r.code}
                         </TableCell>
                         <TableCell className="font-medium text-foreground whitespace-nowrap">
-                          {r.name}
+                          <button
+                            type="button"
+                            className="hover:text-primary hover:underline underline-offset-2"
+                            onClick={() => setDetailStock({ code: r.code, name: r.name })}
+                            title="查看个股详情与关注状态"
+                          >
+                            {r.name}
+                          </button>
+                          {watchStates[r.code] && (
+                            <Badge
+                              variant="outline"
+                              className={`ml-1.5 text-[10px] px-1.5 py-0 h-5 ${WATCH_STATE_CLASS[watchStates[r.code]]}`}
+                            >
+                              {watchStates[r.code]}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="align-middle min-w-[140px]">
                           <div className="flex flex-wrap gap-2 items-center">
@@ -994,6 +1178,24 @@ export function StocksPage({ records }: StocksPageProps) {
                             <span className="text-muted-foreground text-xs">-</span>
                           )}
                         </TableCell>
+                        <TableCell
+                          className="text-right font-mono text-sm whitespace-nowrap cursor-help"
+                          title={`${r.reason.join("\n")}\n（${
+                            r.rule_set_version != null ? `评分规则 v${r.rule_set_version}` : "评分规则版本未记录"
+                          }）`}
+                        >
+                          <span
+                            className={`font-bold ${
+                              r.score >= 75
+                                ? "text-stock-up"
+                                : r.score >= 50
+                                  ? "text-primary"
+                                  : "text-stock-down"
+                            }`}
+                          >
+                            {r.score}
+                          </span>
+                        </TableCell>
                         <TableCell className="text-right font-mono text-sm whitespace-nowrap">
                           {r.amount != null ? r.amount : "-"}
                         </TableCell>
@@ -1020,12 +1222,88 @@ export function StocksPage({ records }: StocksPageProps) {
                         <TableCell>
                           <LimitUpCell code={r.code} date={r.date} />
                         </TableCell>
+                        <ForwardCells record={r} />
                         <TableCell>
                           <Ma5Ma30Cell code={r.code} />
                         </TableCell>
                         <TableCell>
                           <Ma20Cell code={r.code} />
                         </TableCell>
+                        <TableCell className="min-w-[120px] max-w-[220px]">
+                          {r.note || (r.tags && r.tags.length > 0) ? (
+                            <div className="flex flex-col gap-0.5" title={r.note ?? undefined}>
+                              {r.tags && r.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {r.tags.map((t) => (
+                                    <span key={t} className="text-[11px] text-primary whitespace-nowrap">
+                                      #{t}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {r.note && (
+                                <span className="text-xs text-muted-foreground truncate">
+                                  {r.note}
+                                </span>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-xs">-</span>
+                          )}
+                        </TableCell>
+                        {(onUpdateRecord || onUpdateNotes || onDeleteRecord || onAskAI) && (
+                          <TableCell className="whitespace-nowrap">
+                            {r.id != null && (
+                              <div className="flex items-center gap-1">
+                                {onAskAI && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                                    onClick={() => onAskAI(r)}
+                                    title="打开与该股关联的询问 AI 对话"
+                                  >
+                                    问 AI
+                                  </Button>
+                                )}
+                                {onUpdateRecord && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                                    onClick={() => setEditingRecord(r)}
+                                  >
+                                    修改
+                                  </Button>
+                                )}
+                                {onUpdateNotes && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                                    onClick={() => setNotesRecord(r)}
+                                  >
+                                    笔记
+                                  </Button>
+                                )}
+                                {onDeleteRecord && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                    onClick={() => {
+                                      if (window.confirm(`确定删除 ${r.date} ${r.code} ${r.name} 这条记录吗？`)) {
+                                        onDeleteRecord(r.id as number);
+                                      }
+                                    }}
+                                  >
+                                    删除
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        )}
                       </TableRow>
                     );
                   })
@@ -1035,7 +1313,7 @@ export function StocksPage({ records }: StocksPageProps) {
           </div>
 
           {/* 分页器 */}
-          {pageSize !== "all" && filtered.length > Number(pageSize) && (
+          {pageSize !== "all" && total > Number(pageSize) && (
             <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
               <div>
                 第{" "}
@@ -1044,7 +1322,7 @@ export function StocksPage({ records }: StocksPageProps) {
                 </span>
                 {" / "}
                 <span className="font-mono text-foreground">
-                  {Math.ceil(filtered.length / Number(pageSize))}
+                  {totalPages}
                 </span>{" "}
                 页
               </div>
@@ -1053,7 +1331,7 @@ export function StocksPage({ records }: StocksPageProps) {
                   variant="outline"
                   size="icon"
                   className="h-7 w-7 px-0 text-xs"
-                  disabled={pageIndex === 0}
+                  disabled={listLoading || pageIndex === 0}
                   onClick={() => setPageIndex((p) => Math.max(0, p - 1))}
                 >
                   ‹
@@ -1062,17 +1340,8 @@ export function StocksPage({ records }: StocksPageProps) {
                   variant="outline"
                   size="icon"
                   className="h-7 w-7 px-0 text-xs"
-                  disabled={pageSize === "all" || pageIndex >= Math.ceil(filtered.length / Number(pageSize)) - 1}
-                  onClick={() =>
-                    setPageIndex((p) =>
-                      pageSize === "all"
-                        ? 0
-                        : Math.min(
-                            Math.ceil(filtered.length / Number(pageSize)) - 1,
-                            p + 1
-                          )
-                    )
-                  }
+                  disabled={listLoading || pageIndex >= totalPages - 1}
+                  onClick={() => setPageIndex((p) => Math.min(totalPages - 1, p + 1))}
                 >
                   ›
                 </Button>
@@ -1081,6 +1350,32 @@ export function StocksPage({ records }: StocksPageProps) {
           )}
         </CardContent>
       </Card>
+      <ForwardReturnStats
+        dataVersion={dataVersion}
+        onEvaluated={() => setForwardVersion((v) => v + 1)}
+      />
+      {onUpdateRecord && (
+        <RecordEditDialog
+          record={editingRecord}
+          existingSectors={existingSectors}
+          onClose={() => setEditingRecord(null)}
+          onSave={onUpdateRecord}
+        />
+      )}
+      {onUpdateNotes && (
+        <RecordNotesDialog
+          record={notesRecord}
+          existingTags={usedTags}
+          onClose={() => setNotesRecord(null)}
+          onSave={onUpdateNotes}
+        />
+      )}
+      <StockDetailPanel
+        stock={detailStock}
+        dataVersion={dataVersion}
+        onClose={() => setDetailStock(null)}
+        onWatchlistChange={() => setWatchVersion((v) => v + 1)}
+      />
       {hoverPreview && (
         <div className="fixed bottom-4 right-4 z-40 rounded-md border border-border bg-background/95 shadow-xl px-3 py-2 max-w-[420px] max-h-[260px]">
           <div className="text-[11px] text-muted-foreground mb-1 truncate">
@@ -0,0 +1,561 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type {
+  SignalRecord,
+  Trade,
+  TradeJournal as TradeJournalData,
+  TradeSide,
+  TradeSourceStat,
+} from "@/lib/types";
+import {
+  createTrade,
+  deleteTrade,
+  getRecords,
+  getTradeJournal,
+  getTrades,
+  updateTrade,
+} from "@/lib/store";
+
+interface TradeJournalProps {
+  dataVersion?: number; // 信号数据变更后递增（关联信号的形态可能变化）
+}
+
+interface TradeForm {
+  code: string;
+  name: string;
+  side: TradeSide;
+  price: string;
+  quantity: string;
+  fees: string;
+  tradedAt: string; // datetime-local：YYYY-MM-DDTHH:mm（本地时间）
+  signalId: string; // "none" 表示不关联
+}
+
+const SIDE_LABEL: Record<TradeSide, string> = { buy: "买入", sell: "卖出" };
+
+// ISO 时间 -> datetime-local 输入框的本地时间
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function emptyForm(): TradeForm {
+  return {
+    code: "",
+    name: "",
+    side: "buy",
+    price: "",
+    quantity: "",
+    fees: "",
+    tradedAt: toLocalInput(new Date().toISOString()),
+    signalId: "none",
+  };
+}
+
+// 金额（元），正数红色、负数绿色
+function MoneyText({ value }: { value: number | null | undefined }) {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return (
+    <span
+      className={
+        value > 0 ? "text-stock-up" : value < 0 ? "text-stock-down" : "text-muted-foreground"
+      }
+    >
+      {value > 0 ? "+" : ""}
+      {value.toLocaleString("zh-CN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+    </span>
+  );
+}
+
+function SourceRow({ stat, bold }: { stat: TradeSourceStat; bold?: boolean }) {
+  return (
+    <TableRow className="border-border hover:bg-secondary/50">
+      <TableCell className={`whitespace-nowrap text-foreground ${bold ? "font-semibold" : "font-medium"}`}>
+        {stat.source}
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">{stat.buys}</TableCell>
+      <TableCell className="text-right font-mono text-xs">
+        {stat.closedLots}
+        <span className="text-muted-foreground"> / {stat.wins}</span>
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">
+        {stat.winRate !== null ? `${stat.winRate.toFixed(0)}%` : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">
+        {stat.avgHoldingDays !== null ? stat.avgHoldingDays : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">
+        <MoneyText value={stat.realizedPnl} />
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">
+        <MoneyText value={stat.unrealizedPnl} />
+      </TableCell>
+      <TableCell className="text-right font-mono text-xs">{stat.openQuantity || "-"}</TableCell>
+    </TableRow>
+  );
+}
+
+// 交易日志：录入实际成交并关联信号，按信号来源统计盈亏、胜率与持有天数
+export function TradeJournal({ dataVersion = 0 }: TradeJournalProps) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [journal, setJournal] = useState<TradeJournalData | null>(null);
+  const [journalLoading, setJournalLoading] = useState(false);
+  const [tradeVersion, setTradeVersion] = useState(0);
+  const [form, setForm] = useState<TradeForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 表单中代码对应的信号记录，供选择关联
+  const [signals, setSignals] = useState<SignalRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setJournalLoading(true);
+    Promise.all([getTrades(), getTradeJournal()]).then(([list, data]) => {
+      if (cancelled) return;
+      setTrades(list);
+      setJournal(data);
+      setJournalLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion, tradeVersion]);
+
+  useEffect(() => {
+    const code = form.code.trim();
+    if (!/^\d{6}$/.test(code)) {
+      setSignals([]);
+      return;
+    }
+    let cancelled = false;
+    getRecords({ code, sort: "date", order: "desc" }).then((recs) => {
+      if (!cancelled) setSignals(recs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form.code, dataVersion]);
+
+  function update<K extends keyof TradeForm>(key: K, value: TradeForm[K]) {
+    setForm((f) => ({ ...f, [key]: value }));
+  }
+
+  function handleSignalChange(value: string) {
+    const signal = signals.find((s) => String(s.id) === value);
+    setForm((f) => ({ ...f, signalId: value, name: f.name || signal?.name || "" }));
+  }
+
+  function handleEdit(t: Trade) {
+    setEditingId(t.id);
+    setError(null);
+    setForm({
+      code: t.code,
+      name: t.name ?? "",
+      side: t.side,
+      price: String(t.price),
+      quantity: String(t.quantity),
+      fees: t.fees ? String(t.fees) : "",
+      tradedAt: toLocalInput(t.tradedAt),
+      signalId: t.signalId != null ? String(t.signalId) : "none",
+    });
+  }
+
+  function handleCancelEdit() {
+    setEditingId(null);
+    setError(null);
+    setForm(emptyForm());
+  }
+
+  async function handleSubmit() {
+    const tradedAt = new Date(form.tradedAt);
+    if (isNaN(tradedAt.getTime())) {
+      setError("请填写成交时间");
+      return;
+    }
+    const input = {
+      code: form.code.trim(),
+      name: form.name.trim() || null,
+      side: form.side,
+      price: Number(form.price),
+      quantity: Number(form.quantity),
+      fees: form.fees.trim() ? Number(form.fees) : 0,
+      tradedAt: tradedAt.toISOString(),
+      signalId: form.signalId === "none" ? null : Number(form.signalId),
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      if (editingId !== null) {
+        await updateTrade(editingId, input);
+      } else {
+        await createTrade(input);
+      }
+      setEditingId(null);
+      // 连续录入同一只股票时保留代码、名称与关联
+      setForm((f) => ({ ...emptyForm(), code: f.code, name: f.name, signalId: f.signalId }));
+      setTradeVersion((v) => v + 1);
+    } catch (e: any) {
+      setError(e?.message || "保存失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(t: Trade) {
+    if (
+      !window.confirm(
+        `确定删除 ${toLocalInput(t.tradedAt).replace("T", " ")} ${t.code} ${SIDE_LABEL[t.side]} ${t.quantity} 股这笔成交吗？`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteTrade(t.id);
+      if (editingId === t.id) handleCancelEdit();
+      setTradeVersion((v) => v + 1);
+    } catch (e: any) {
+      alert(`删除失败: ${e?.message || "未知错误"}`);
+    }
+  }
+
+  const inputClass = "h-8 bg-secondary text-foreground border-border text-xs";
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-foreground">
+            {editingId !== null ? "修改成交" : "录入成交"}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            记录实际买入/卖出，可关联触发该笔交易的信号；盈亏按先进先出配对，买卖费用计入成本
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4 xl:grid-cols-8">
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              代码
+              <Input
+                value={form.code}
+                onChange={(e) => update("code", e.target.value)}
+                placeholder="000001"
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              名称
+              <Input
+                value={form.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="可选"
+                className={inputClass}
+              />
+            </label>
+            <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+              方向
+              <Select value={form.side} onValueChange={(v) => update("side", v as TradeSide)}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border text-foreground">
+                  <SelectItem value="buy" className="text-sm focus:bg-secondary focus:text-foreground">
+                    买入
+                  </SelectItem>
+                  <SelectItem value="sell" className="text-sm focus:bg-secondary focus:text-foreground">
+                    卖出
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              成交价
+              <Input
+                type="number"
+                step="0.001"
+                value={form.price}
+                onChange={(e) => update("price", e.target.value)}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              数量（股）
+              <Input
+                type="number"
+                step="100"
+                value={form.quantity}
+                onChange={(e) => update("quantity", e.target.value)}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              费用（元）
+              <Input
+                type="number"
+                step="0.01"
+                value={form.fees}
+                onChange={(e) => update("fees", e.target.value)}
+                placeholder="佣金+印花税"
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+              成交时间
+              <Input
+                type="datetime-local"
+                value={form.tradedAt}
+                onChange={(e) => update("tradedAt", e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+              关联信号
+              <Select value={form.signalId} onValueChange={handleSignalChange}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border text-foreground">
+                  <SelectItem value="none" className="text-sm focus:bg-secondary focus:text-foreground">
+                    不关联
+                  </SelectItem>
+                  {signals.map((s) => (
+                    <SelectItem
+                      key={s.id}
+                      value={String(s.id)}
+                      className="text-sm focus:bg-secondary focus:text-foreground"
+                    >
+                      {s.date} {s.name}（{s.score}分{s.sector_pattern ? `，${s.sector_pattern}` : ""}）
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSubmit} disabled={saving}>
+              {saving ? "保存中…" : editingId !== null ? "保存修改" : "添加成交"}
+            </Button>
+            {editingId !== null && (
+              <Button variant="outline" size="sm" onClick={handleCancelEdit} disabled={saving}>
+                取消修改
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-foreground">交易日志</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            按信号来源（关联信号的板块分时形态）统计：胜率与平均持有天数只计已全部卖出的买入；浮动盈亏按最近交易日收盘价估值
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {journalLoading && !journal ? (
+            <p className="text-sm text-muted-foreground">计算中…</p>
+          ) : !journal || journal.totals.buys === 0 ? (
+            <p className="text-sm text-muted-foreground">暂无成交记录</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border hover:bg-transparent">
+                      <TableHead className="text-muted-foreground whitespace-nowrap">信号来源</TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">买入笔数</TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                        已平仓 / 盈利
+                      </TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">胜率</TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">
+                        平均持有天数
+                      </TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">已实现盈亏</TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">浮动盈亏</TableHead>
+                      <TableHead className="text-muted-foreground text-right whitespace-nowrap">持仓股数</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {journal.sources.map((s) => (
+                      <SourceRow key={s.source} stat={s} />
+                    ))}
+                    <SourceRow stat={journal.totals} bold />
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <p className="text-xs font-medium text-muted-foreground">持仓与个股盈亏</p>
+                <div className="overflow-x-auto rounded-md border border-border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-border hover:bg-transparent">
+                        <TableHead className="text-muted-foreground whitespace-nowrap">股票</TableHead>
+                        <TableHead className="text-muted-foreground text-right whitespace-nowrap">持仓股数</TableHead>
+                        <TableHead className="text-muted-foreground text-right whitespace-nowrap">持仓成本</TableHead>
+                        <TableHead className="text-muted-foreground text-right whitespace-nowrap">最近收盘</TableHead>
+                        <TableHead className="text-muted-foreground text-right whitespace-nowrap">浮动盈亏</TableHead>
+                        <TableHead className="text-muted-foreground text-right whitespace-nowrap">已实现盈亏</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {journal.positions.map((p) => (
+                        <TableRow key={p.code} className="border-border hover:bg-secondary/50">
+                          <TableCell className="whitespace-nowrap">
+                            <span className="font-mono text-sm text-foreground">{p.code}</span>
+                            {p.name && <span className="ml-2 text-foreground">{p.name}</span>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">{p.openQuantity || "-"}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            {p.avgCost !== null ? p.avgCost.toFixed(3) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+                            {p.markPrice !== null ? p.markPrice.toFixed(2) : "-"}
+                            {p.markDate && (
+                              <span className="ml-1 text-[10px] text-muted-foreground">({p.markDate})</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            {p.openQuantity > 0 ? <MoneyText value={p.unrealizedPnl} /> : "-"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            <MoneyText value={p.realizedPnl} />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              {journal.warnings.length > 0 && (
+                <ul className="flex flex-col gap-0.5 text-xs text-amber-500">
+                  {journal.warnings.map((w, i) => (
+                    <li key={i}>{w}</li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-foreground">
+            成交记录
+            <span className="ml-2 text-sm font-normal text-muted-foreground">{trades.length} 笔</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground whitespace-nowrap">成交时间</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">股票</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">方向</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">成交价</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">数量</TableHead>
+                  <TableHead className="text-muted-foreground text-right whitespace-nowrap">费用</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">关联信号</TableHead>
+                  <TableHead className="text-muted-foreground whitespace-nowrap">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trades.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                      暂无成交记录
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  trades.map((t) => (
+                    <TableRow
+                      key={t.id}
+                      className={`border-border hover:bg-secondary/50 ${editingId === t.id ? "bg-secondary/60" : ""}`}
+                    >
+                      <TableCell className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                        {toLocalInput(t.tradedAt).replace("T", " ")}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <span className="font-mono text-sm text-foreground">{t.code}</span>
+                        {t.name && <span className="ml-2 text-foreground">{t.name}</span>}
+                      </TableCell>
+                      <TableCell
+                        className={`whitespace-nowrap text-sm font-medium ${
+                          t.side === "buy" ? "text-stock-up" : "text-stock-down"
+                        }`}
+                      >
+                        {SIDE_LABEL[t.side]}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{t.price}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{t.quantity}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{t.fees || "-"}</TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {t.signal ? (
+                          <span className="text-foreground">
+                            {t.signal.date}
+                            {t.signal.sector_pattern && (
+                              <span className="ml-1 text-muted-foreground">{t.signal.sector_pattern}</span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                            onClick={() => handleEdit(t)}
+                          >
+                            修改
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDelete(t)}
+                          >
+                            删除
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
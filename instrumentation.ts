@@ -0,0 +1,9 @@
+// 服务启动时由 Next.js 调用：在 Node.js 运行时开启收盘任务调度（见 lib/eod-scheduler.ts），
+// 并在后台把旧版 Data URL 截图迁移到文件存储（见 lib/sector-screenshots.ts）
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startEodScheduler } = await import("./lib/eod-scheduler");
+  startEodScheduler();
+  const { migrateAllLegacyScreenshots } = await import("./lib/sector-screenshots");
+  migrateAllLegacyScreenshots().catch((error) => console.error("迁移旧版板块截图失败:", error));
+}
@@ -0,0 +1,276 @@
+import { prisma } from "./prisma";
+import { parseSignalQuery, SIGNAL_INCLUDE, toSignalRecord } from "./signal-db";
+import { getSectorStats } from "./sector-db";
+import { getFirstLimitUpSince, getMA20, getMA5MA30 } from "./tushare";
+import type { ForwardHorizon, SignalRecord } from "./types";
+
+/**
+ * 询问 AI 可调用的工具（OpenAI function calling）：查询本地信号库与行情
+ * 工具结果以 JSON 字符串返回给模型；参数错误或查询失败时返回 { error }，由模型自行说明
+ */
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+// 汇总后续表现时最多统计的记录数
+const MAX_SUMMARY_RECORDS = 2000;
+
+export const CHAT_TOOLS = [
+  {
+    type: "function",
+    function: {
+      name: "search_signals",
+      description:
+        "在信号库中搜索个股信号记录，可按代码、名称关键字、板块、板块分时形态、评分与日期范围过滤。返回匹配总数、后续表现汇总（次日/3日/5日/10日平均涨跌幅与胜率）以及前若干条记录。",
+      parameters: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "6 位股票代码，精确匹配" },
+          q: { type: "string", description: "代码、名称或板块名关键字（模糊匹配）" },
+          sector: { type: "string", description: "板块名，精确匹配，如 半导体" },
+          sector_pattern: {
+            type: "string",
+            enum: ["水下拉水上", "波动三角收窄", "none"],
+            description: "板块分时形态，none 表示未标注",
+          },
+          from: { type: "string", description: "起始录入日期 YYYY-MM-DD（含）" },
+          to: { type: "string", description: "结束录入日期 YYYY-MM-DD（含）" },
+          scoreMin: { type: "number" },
+          scoreMax: { type: "number" },
+          sort: {
+            type: "string",
+            enum: ["date", "score", "chg", "turnover", "amount"],
+            description: "排序字段，默认 date",
+          },
+          order: { type: "string", enum: ["asc", "desc"], description: "默认 desc" },
+          limit: {
+            type: "integer",
+            description: `返回的记录条数，默认 ${DEFAULT_SEARCH_LIMIT}，最多 ${MAX_SEARCH_LIMIT}`,
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_ma_status",
+      description:
+        "查询个股最新交易日的均线状态：20 日均线（收盘站上 above / 盘中触及 touched / 未达到 below）以及 5 日线与 30 日线是否接近（相差 2% 以内）。",
+      parameters: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "6 位股票代码" },
+        },
+        required: ["code"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_limit_up",
+      description:
+        "查询个股自某日（含）以来首次触及涨停的日期、是否封板以及首次封板日期，通常以信号录入日作为起始日。",
+      parameters: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "6 位股票代码" },
+          since: { type: "string", description: "起始日期 YYYY-MM-DD" },
+        },
+        required: ["code", "since"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_sector_stats",
+      description:
+        "按板块汇总信号：出现天数、平均评分、评分最高的个股，以及对应板块指数的最新涨跌幅与 5 日动量。",
+      parameters: {
+        type: "object",
+        properties: {
+          from: { type: "string", description: "起始录入日期 YYYY-MM-DD（含）" },
+          to: { type: "string", description: "结束录入日期 YYYY-MM-DD（含）" },
+          limit: { type: "integer", description: "返回的板块数，默认 10，最多 30" },
+        },
+      },
+    },
+  },
+];
+
+export type ChatToolName =
+  | "search_signals"
+  | "get_ma_status"
+  | "get_limit_up"
+  | "get_sector_stats";
+
+function isDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(new Date(value).getTime())
+  );
+}
+
+function requireCode(value: unknown): string {
+  const code = String(value ?? "").replace(/\.(SH|SZ|BJ)$/i, "");
+  if (!/^\d{6}$/.test(code)) throw new Error(`无效的股票代码: ${value}`);
+  return code;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// 传给模型的精简记录
+function compactRecord(r: SignalRecord) {
+  const ret = (h: ForwardHorizon) => r.forward?.windows[h]?.close ?? null;
+  return {
+    date: r.date,
+    code: r.code,
+    name: r.name,
+    sectors: r.sector,
+    sector_pattern: r.sector_pattern,
+    score: r.score,
+    chg: r.chg,
+    turnover: r.turnover,
+    amount: r.amount,
+    reason: r.reason,
+    forward: r.forward
+      ? {
+          next_open: r.forward.next_open,
+          ret_1: ret(1),
+          ret_3: ret(3),
+          ret_5: ret(5),
+          ret_10: ret(10),
+        }
+      : null,
+  };
+}
+
+// 汇总已评估记录的后续表现：各周期平均收盘涨跌幅与胜率
+function summarizeForward(records: SignalRecord[]) {
+  const horizons: ForwardHorizon[] = [1, 3, 5, 10];
+  const evaluated = records.filter((r) => r.forward);
+  const summary: Record<string, unknown> = { evaluated: evaluated.length };
+  for (const h of horizons) {
+    const closes = evaluated
+      .map((r) => r.forward!.windows[h]?.close)
+      .filter((c): c is number => typeof c === "number");
+    summary[`ret_${h}`] = closes.length
+      ? {
+          samples: closes.length,
+          avg: round2(closes.reduce((a, b) => a + b, 0) / closes.length),
+          win_rate: round2((closes.filter((c) => c > 0).length / closes.length) * 100),
+        }
+      : null;
+  }
+  return summary;
+}
+
+async function searchSignals(args: Record<string, unknown>) {
+  const params = new URLSearchParams();
+  for (const key of ["code", "q", "sector", "sector_pattern", "from", "to", "sort", "order"]) {
+    if (typeof args[key] === "string" && args[key]) params.set(key, args[key] as string);
+  }
+  for (const key of ["scoreMin", "scoreMax"]) {
+    if (typeof args[key] === "number") params.set(key, String(args[key]));
+  }
+  const { where, orderBy } = parseSignalQuery(params);
+  const limit = Math.min(
+    Math.max(Number(args.limit) || DEFAULT_SEARCH_LIMIT, 1),
+    MAX_SEARCH_LIMIT
+  );
+
+  const [total, rows] = await Promise.all([
+    prisma.signalRecord.count({ where }),
+    prisma.signalRecord.findMany({
+      where,
+      orderBy,
+      take: MAX_SUMMARY_RECORDS,
+      include: SIGNAL_INCLUDE,
+    }),
+  ]);
+  const records = rows.map(toSignalRecord);
+  return {
+    total,
+    summary: {
+      ...summarizeForward(records),
+      truncated: total > MAX_SUMMARY_RECORDS,
+    },
+    records: records.slice(0, limit).map(compactRecord),
+  };
+}
+
+async function getMaStatus(args: Record<string, unknown>) {
+  const code = requireCode(args.code);
+  const [ma20, ma5ma30] = await Promise.all([
+    getMA20(code).catch((e: any) => ({ error: e?.message || "获取 MA20 失败" })),
+    getMA5MA30(code).catch((e: any) => ({ error: e?.message || "获取 MA5/MA30 失败" })),
+  ]);
+  return { code, ma20, ma5_ma30: ma5ma30 ?? { error: "交易日不足 30 天" } };
+}
+
+async function getLimitUp(args: Record<string, unknown>) {
+  const code = requireCode(args.code);
+  if (!isDate(args.since)) throw new Error(`无效的日期格式: ${args.since}`);
+  const event = await getFirstLimitUpSince(code, args.since);
+  return { code, since: args.since, limit_up: event };
+}
+
+async function sectorStats(args: Record<string, unknown>) {
+  for (const key of ["from", "to"]) {
+    if (args[key] !== undefined && !isDate(args[key])) {
+      throw new Error(`无效的日期格式: ${args[key]}`);
+    }
+  }
+  const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 30);
+  const stats = await getSectorStats({
+    from: args.from as string | undefined,
+    to: args.to as string | undefined,
+    limit,
+  });
+  return stats.map((s) => ({
+    sector: s.sector,
+    days: s.count,
+    avg_score: s.avgScore,
+    top: s.topRecords.map((r) => ({ date: r.date, code: r.code, name: r.name, score: r.score })),
+    index: s.market
+      ? {
+          name: s.market.indexName,
+          trade_date: s.market.tradeDate,
+          pct_chg: s.market.pctChg,
+          momentum_5: s.market.momentum5,
+        }
+      : null,
+  }));
+}
+
+const HANDLERS: Record<ChatToolName, (args: Record<string, unknown>) => Promise<unknown>> = {
+  search_signals: searchSignals,
+  get_ma_status: getMaStatus,
+  get_limit_up: getLimitUp,
+  get_sector_stats: sectorStats,
+};
+
+/**
+ * 执行一次工具调用；rawArgs 为模型给出的 JSON 参数字符串
+ * 始终返回 JSON 字符串，出错时为 { error }
+ */
+export async function runChatTool(name: string, rawArgs: string): Promise<string> {
+  if (!Object.hasOwn(HANDLERS, name)) return JSON.stringify({ error: `未知的工具: ${name}` });
+  const handler = HANDLERS[name as ChatToolName];
+  let args: Record<string, unknown>;
+  try {
+    args = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+  } catch {
+    return JSON.stringify({ error: "工具参数不是合法 JSON" });
+  }
+  try {
+    return JSON.stringify(await handler(args ?? {}));
+  } catch (error: any) {
+    console.error(`runChatTool [${name}] error:`, error);
+    return JSON.stringify({ error: error?.message || "查询失败" });
+  }
+}
@@ -0,0 +1,129 @@
+import { readSSE } from "./sse";
+
+/**
+ * AI 接口流式输出（服务端）：读取上游 OpenAI 兼容接口的增量内容，并以 SSE 转发给前端
+ * 前端收到的事件：
+ *   delta  { text }              增量文本
+ *   tool   { name, arguments }   模型调用了工具（询问 AI 查询信号库时）
+ *   done   { content, ... }      正常结束
+ *   error  { error, partial, ... } 上游中断或出错，partial 为已生成的部分
+ * 前端断开连接（取消）时中止上游请求
+ */
+
+// 逐个产出上游流式响应中的 choices[0].delta
+async function* readChatChunks(res: Response): AsyncGenerator<any> {
+  if (!res.body) return;
+  for await (const { data } of readSSE(res.body)) {
+    if (data === "[DONE]") return;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    if (chunk?.error) {
+      throw new Error(chunk.error.message || JSON.stringify(chunk.error));
+    }
+    const delta = chunk?.choices?.[0]?.delta;
+    if (delta) yield delta;
+  }
+}
+
+/**
+ * 逐段产出上游流式响应中的文本增量（choices[0].delta.content）
+ */
+export async function* readChatDeltas(res: Response): AsyncGenerator<string> {
+  for await (const delta of readChatChunks(res)) {
+    if (typeof delta.content === "string" && delta.content) yield delta.content;
+  }
+}
+
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/**
+ * 读取一次流式响应：文本增量交给 onText，结束后返回完整文本与模型请求的工具调用
+ * 工具调用的参数按 index 分段到达，在此拼接完整
+ */
+export async function readChatCompletion(
+  res: Response,
+  onText: (text: string) => void
+): Promise<{ content: string; toolCalls: ChatToolCall[] }> {
+  let content = "";
+  const toolCalls: ChatToolCall[] = [];
+  for await (const delta of readChatChunks(res)) {
+    if (typeof delta.content === "string" && delta.content) {
+      content += delta.content;
+      onText(delta.content);
+    }
+    for (const part of delta.tool_calls ?? []) {
+      const index = typeof part.index === "number" ? part.index : toolCalls.length;
+      const call = (toolCalls[index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+  }
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
+
+export type SSESend = (event: "delta" | "tool" | "done" | "error", data: unknown) => void;
+
+/**
+ * 创建 SSE 响应：run 中通过 send 推送事件，signal 在前端断开时中止
+ * run 抛出的异常会作为 error 事件发送（连接仍在时）
+ */
+export function sseResponse(
+  requestSignal: AbortSignal,
+  run: (send: SSESend, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  const onRequestAbort = () => abort.abort();
+  requestSignal.addEventListener("abort", onRequestAbort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send: SSESend = (event, data) => {
+        if (closed || abort.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+      try {
+        await run(send, abort.signal);
+      } catch (error: any) {
+        send("error", { error: error?.message || "请求失败" });
+      } finally {
+        requestSignal.removeEventListener("abort", onRequestAbort);
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // 连接已断开
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,254 @@
+import type { AlertEvent as AlertEventRow, AlertRule as AlertRuleRow } from "@prisma/client";
+import { prisma } from "./prisma";
+import { detectMaAlert } from "./alerts";
+import {
+  codeToTsCode,
+  getDailyRange,
+  getFirstLimitUpInRows,
+  mapWithConcurrency,
+  TUSHARE_CONCURRENCY,
+} from "./tushare";
+import type { AlertEvaluation, AlertEvent, AlertKind, AlertRule } from "./types";
+
+/**
+ * 指标提醒的读写与收盘后评估（服务端）；规则类型与判断见 lib/alerts.ts
+ * 全局规则作用于近 ALERT_SCOPE_DAYS 天录入过的股票，以及关注列表中观察/计划/持有的股票
+ */
+
+const ALERT_SCOPE_DAYS = 30;
+// 日线往前取的自然日数，保证前一交易日也能算出 MA30
+const ALERT_LOOKBACK_DAYS = 90;
+const MAX_EVENT_LIMIT = 200;
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    code: row.code,
+    kind: row.kind as AlertKind,
+    threshold: row.threshold,
+    enabled: row.enabled,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toAlertEvent(row: AlertEventRow): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    code: row.code,
+    name: row.name,
+    kind: row.kind as AlertKind,
+    tradeDate: row.tradeDate.toISOString().slice(0, 10),
+    message: row.message,
+    read: row.readAt !== null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 提醒规则列表：code 为 undefined 时返回全部，为 null 时只返回全局规则
+ */
+export async function listAlertRules(code?: string | null): Promise<AlertRule[]> {
+  const rows = await prisma.alertRule.findMany({
+    where: code === undefined ? {} : { code },
+    orderBy: [{ code: "asc" }, { id: "asc" }],
+  });
+  return rows.map(toAlertRule);
+}
+
+/**
+ * 新增提醒规则，同一股票（或全局）已有同类规则时返回 null
+ */
+export async function createAlertRule(input: {
+  code: string | null;
+  kind: AlertKind;
+  threshold: number | null;
+}): Promise<AlertRule | null> {
+  const existing = await prisma.alertRule.findFirst({
+    where: { code: input.code, kind: input.kind },
+    select: { id: true },
+  });
+  if (existing) return null;
+  const row = await prisma.alertRule.create({
+    data: {
+      code: input.code,
+      kind: input.kind,
+      threshold: input.kind === "ma5_near_ma30" ? input.threshold : null,
+    },
+  });
+  return toAlertRule(row);
+}
+
+// 启用/停用或修改阈值，不存在时返回 null
+export async function updateAlertRule(
+  id: number,
+  patch: { enabled?: boolean; threshold?: number | null }
+): Promise<AlertRule | null> {
+  const existing = await prisma.alertRule.findUnique({ where: { id }, select: { kind: true } });
+  if (!existing) return null;
+  const row = await prisma.alertRule.update({
+    where: { id },
+    data: {
+      enabled: patch.enabled,
+      threshold: existing.kind === "ma5_near_ma30" ? patch.threshold : undefined,
+    },
+  });
+  return toAlertRule(row);
+}
+
+// 删除规则（连同已触发的提醒），不存在时返回 false
+export async function deleteAlertRule(id: number): Promise<boolean> {
+  const { count } = await prisma.alertRule.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * 最近的提醒（新的在前）及未读总数，unreadOnly 时只返回未读
+ */
+export async function listAlertEvents(options: {
+  unreadOnly?: boolean;
+  limit?: number;
+} = {}): Promise<{ events: AlertEvent[]; unread: number }> {
+  const take = Math.min(Math.max(options.limit ?? 50, 1), MAX_EVENT_LIMIT);
+  const [rows, unread] = await Promise.all([
+    prisma.alertEvent.findMany({
+      where: options.unreadOnly ? { readAt: null } : {},
+      orderBy: [{ tradeDate: "desc" }, { id: "desc" }],
+      take,
+    }),
+    prisma.alertEvent.count({ where: { readAt: null } }),
+  ]);
+  return { events: rows.map(toAlertEvent), unread };
+}
+
+// 标记已读：ids 为 "all" 时全部标记，返回本次标记的条数
+export async function markAlertsRead(ids: number[] | "all"): Promise<number> {
+  const { count } = await prisma.alertEvent.updateMany({
+    where: ids === "all" ? { readAt: null } : { id: { in: ids }, readAt: null },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
+
+function fmtYmd(d: Date): string {
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// 全局规则的作用范围：近期录入过的股票 + 关注中（未卖出/淘汰）的股票
+async function listScopeCodes(): Promise<string[]> {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - ALERT_SCOPE_DAYS);
+  const [records, watching] = await Promise.all([
+    prisma.signalRecord.findMany({
+      where: { date: { gte: since } },
+      select: { code: true },
+      distinct: ["code"],
+    }),
+    prisma.watchlistItem.findMany({
+      where: { state: { in: ["观察", "计划", "持有"] } },
+      select: { code: true },
+    }),
+  ]);
+  return Array.from(new Set([...records, ...watching].map((r) => r.code)));
+}
+
+/**
+ * 收盘后评估所有启用的规则，新触发的提醒写入 alert_events
+ * 每只股票只请求一次日线；同一规则、股票、交易日重复评估不会重复提醒
+ * limit_up 以该股最近一次录入日为起点，没有录入记录时以规则创建日为起点
+ */
+export async function evaluateAlerts(): Promise<AlertEvaluation> {
+  const rules = (await prisma.alertRule.findMany({ where: { enabled: true } })).map(toAlertRule);
+  if (rules.length === 0) return { checked: 0, triggered: 0, failed: [] };
+
+  const globalRules = rules.filter((r) => r.code === null);
+  const byCode = new Map<string, AlertRule[]>();
+  const scope = globalRules.length > 0 ? await listScopeCodes() : [];
+  for (const code of scope) byCode.set(code, [...globalRules]);
+  for (const rule of rules) {
+    if (rule.code === null) continue;
+    if (!byCode.has(rule.code)) byCode.set(rule.code, []);
+    byCode.get(rule.code)!.push(rule);
+  }
+
+  const codes = Array.from(byCode.keys());
+  const [latestRecords, watchNames] = await Promise.all([
+    prisma.signalRecord.findMany({
+      where: { code: { in: codes } },
+      orderBy: { date: "desc" },
+      select: { code: true, name: true, date: true },
+      distinct: ["code"],
+    }),
+    prisma.watchlistItem.findMany({
+      where: { code: { in: codes } },
+      select: { code: true, name: true },
+    }),
+  ]);
+  const latestByCode = new Map(latestRecords.map((r) => [r.code, r]));
+  const watchNameByCode = new Map(watchNames.map((w) => [w.code, w.name]));
+
+  const today = new Date();
+  const lookback = new Date(today);
+  lookback.setDate(lookback.getDate() - ALERT_LOOKBACK_DAYS);
+
+  const failed: string[] = [];
+  const results = await mapWithConcurrency(codes, TUSHARE_CONCURRENCY, async (code) => {
+    const tsCode = codeToTsCode(code);
+    const recordDate = latestByCode.get(code)?.date.toISOString().slice(0, 10) ?? null;
+    const name = latestByCode.get(code)?.name ?? watchNameByCode.get(code) ?? null;
+    const codeRules = byCode.get(code)!;
+    const sinceFor = (rule: AlertRule) => recordDate ?? rule.createdAt.slice(0, 10);
+    const earliest = codeRules
+      .filter((r) => r.kind === "limit_up")
+      .map((r) => new Date(sinceFor(r)))
+      .reduce((min, d) => (d < min ? d : min), lookback);
+
+    try {
+      if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
+      const rows = (await getDailyRange(tsCode, fmtYmd(earliest), fmtYmd(today))) || [];
+      const hits: { ruleId: number; kind: AlertKind; tradeDate: string; message: string }[] = [];
+      for (const rule of codeRules) {
+        if (rule.kind === "limit_up") {
+          const since = sinceFor(rule);
+          const event = await getFirstLimitUpInRows(tsCode, rows, since);
+          if (!event) continue;
+          const what = event.sealed ? "涨停" : "触及涨停未封板";
+          hits.push({
+            ruleId: rule.id,
+            kind: rule.kind,
+            tradeDate: event.date,
+            message: `${event.date} ${what}（涨停价 ${event.limitPrice}，录入日 ${since}）`,
+          });
+          continue;
+        }
+        const hit = detectMaAlert(rule.kind, rows, rule.threshold);
+        if (hit) hits.push({ ruleId: rule.id, kind: rule.kind, ...hit });
+      }
+      return hits.map((h) => ({ ...h, code, name }));
+    } catch (error) {
+      console.error(`evaluateAlerts [${code}] error:`, error);
+      failed.push(code);
+      return [];
+    }
+  });
+
+  const hits = results.flat();
+  let triggered = 0;
+  if (hits.length > 0) {
+    const { count } = await prisma.alertEvent.createMany({
+      data: hits.map((h) => ({
+        ruleId: h.ruleId,
+        code: h.code,
+        name: h.name,
+        kind: h.kind,
+        tradeDate: new Date(h.tradeDate),
+        message: h.message.slice(0, 255),
+      })),
+      skipDuplicates: true,
+    });
+    triggered = count;
+  }
+
+  return { checked: codes.length, triggered, failed };
+}
@@ -0,0 +1,107 @@
+import type { DailyRow } from "./tushare";
+import type { AlertKind } from "./types";
+
+/**
+ * 指标提醒的规则类型与判断（前后端共用）；规则读写与收盘后评估见 lib/alerts-db.ts
+ * 均线类规则只在状态发生变化的当天触发（如前一交易日收盘在 MA20 下方、当天收在上方），
+ * 避免条件持续满足时每天重复提醒
+ */
+
+export const ALERT_KINDS: AlertKind[] = [
+  "ma20_cross_up",
+  "ma20_cross_down",
+  "ma5_near_ma30",
+  "limit_up",
+];
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  ma20_cross_up: "收盘上穿 MA20",
+  ma20_cross_down: "收盘跌破 MA20",
+  ma5_near_ma30: "MA5 接近 MA30",
+  limit_up: "录入日后涨停",
+};
+
+// MA5 与 MA30 接近的默认阈值（%），与个股页的判断一致
+export const DEFAULT_NEAR_THRESHOLD = 2;
+const MAX_NEAR_THRESHOLD = 20;
+
+export function isAlertKind(value: unknown): value is AlertKind {
+  return ALERT_KINDS.includes(value as AlertKind);
+}
+
+/**
+ * 校验接近阈值（%），返回数值或 null（取默认值）；不合法时抛出带中文说明的 Error
+ */
+export function toAlertThreshold(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0 || n > MAX_NEAR_THRESHOLD) {
+    throw new Error(`接近阈值必须是 0-${MAX_NEAR_THRESHOLD} 之间的百分比`);
+  }
+  return n;
+}
+
+// 规则的展示文字，如「MA5 接近 MA30（3%）」
+export function describeAlertRule(rule: { kind: AlertKind; threshold: number | null }): string {
+  const label = ALERT_KIND_LABELS[rule.kind];
+  if (rule.kind !== "ma5_near_ma30") return label;
+  return `${label}（${rule.threshold ?? DEFAULT_NEAR_THRESHOLD}%）`;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// 倒序日线中从第 offset 条起 n 日收盘均价，数据不足时返回 null
+function maAt(desc: DailyRow[], offset: number, n: number): number | null {
+  const slice = desc.slice(offset, offset + n);
+  if (slice.length < n) return null;
+  return slice.reduce((sum, r) => sum + r.close, 0) / n;
+}
+
+function nearDiff(ma5: number, ma30: number): number | null {
+  const minMa = Math.min(ma5, ma30);
+  return minMa > 0 ? (Math.abs(ma5 - ma30) / minMa) * 100 : null;
+}
+
+/**
+ * 按最新交易日判断均线类规则是否触发，返回触发交易日（YYYY-MM-DD）与提醒文字；
+ * 未触发或数据不足时返回 null。limit_up 需要涨停价，由 alerts-db 单独判断
+ */
+export function detectMaAlert(
+  kind: Exclude<AlertKind, "limit_up">,
+  rows: DailyRow[],
+  threshold: number | null
+): { tradeDate: string; message: string } | null {
+  const desc = [...rows].sort((a, b) => b.trade_date.localeCompare(a.trade_date));
+  if (desc.length < 2) return null;
+  const td = desc[0].trade_date;
+  const tradeDate = `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`;
+  const close = desc[0].close;
+  const prevClose = desc[1].close;
+
+  if (kind === "ma5_near_ma30") {
+    const ma5 = maAt(desc, 0, 5);
+    const ma30 = maAt(desc, 0, 30);
+    const prevMa5 = maAt(desc, 1, 5);
+    const prevMa30 = maAt(desc, 1, 30);
+    if (ma5 === null || ma30 === null || prevMa5 === null || prevMa30 === null) return null;
+    const limit = threshold ?? DEFAULT_NEAR_THRESHOLD;
+    const diff = nearDiff(ma5, ma30);
+    const prevDiff = nearDiff(prevMa5, prevMa30);
+    if (diff === null || diff >= limit || (prevDiff !== null && prevDiff < limit)) return null;
+    return {
+      tradeDate,
+      message: `MA5 ${round2(ma5)} 与 MA30 ${round2(ma30)} 相差 ${round2(diff)}%（阈值 ${limit}%）`,
+    };
+  }
+
+  const ma20 = maAt(desc, 0, 20);
+  const prevMa20 = maAt(desc, 1, 20);
+  if (ma20 === null || prevMa20 === null) return null;
+  if (kind === "ma20_cross_up" && prevClose < prevMa20 && close >= ma20) {
+    return { tradeDate, message: `收盘 ${round2(close)} 上穿 MA20 ${round2(ma20)}` };
+  }
+  if (kind === "ma20_cross_down" && prevClose >= prevMa20 && close < ma20) {
+    return { tradeDate, message: `收盘 ${round2(close)} 跌破 MA20 ${round2(ma20)}` };
+  }
+  return null;
+}
@@ -0,0 +1,197 @@
+import type { ChatMessage as ChatMessageRow, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type {
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
+  ReviewSessionStatus,
+} from "./types";
+
+/**
+ * 询问 AI 对话的读写（服务端）
+ * 对话可关联交易日（date）或个股代码（code），便于从复盘日或个股行重新打开
+ */
+
+export const DEFAULT_THREAD_TITLE = "新对话";
+const MAX_TITLE_LENGTH = 100;
+const PREVIEW_LENGTH = 60;
+
+export interface ChatThreadInput {
+  title?: string;
+  date?: string | null; // YYYY-MM-DD，null 取消关联
+  code?: string | null; // 6 位代码，null 取消关联
+}
+
+/**
+ * 校验对话的标题与关联字段，非法时抛出带中文说明的 Error
+ */
+export function toChatThreadData(input: ChatThreadInput): {
+  title?: string;
+  date?: Date | null;
+  code?: string | null;
+} {
+  const data: { title?: string; date?: Date | null; code?: string | null } = {};
+  if (input.title !== undefined) {
+    const title = String(input.title).trim();
+    if (!title) throw new Error("对话标题不能为空");
+    data.title = title.slice(0, MAX_TITLE_LENGTH);
+  }
+  if (input.date !== undefined) {
+    if (input.date === null || input.date === "") {
+      data.date = null;
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(new Date(input.date).getTime())) {
+      throw new Error(`无效的日期格式: ${input.date}`);
+    } else {
+      data.date = new Date(input.date);
+    }
+  }
+  if (input.code !== undefined) {
+    if (input.code === null || input.code === "") {
+      data.code = null;
+    } else if (!/^\d{6}$/.test(input.code)) {
+      throw new Error(`无效的股票代码: ${input.code}`);
+    } else {
+      data.code = input.code;
+    }
+  }
+  return data;
+}
+
+function parseTools(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((t) => typeof t === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role === "assistant" ? "assistant" : "user",
+    content: row.content,
+    status: row.status as ReviewSessionStatus,
+    tools: parseTools(row.tools),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+const THREAD_INCLUDE = {
+  messages: { orderBy: { id: "asc" } },
+} satisfies Prisma.ChatThreadInclude;
+
+type ChatThreadWithMessages = Prisma.ChatThreadGetPayload<{ include: typeof THREAD_INCLUDE }>;
+
+function toChatThread(row: ChatThreadWithMessages): ChatThread {
+  return {
+    id: row.id,
+    title: row.title,
+    date: row.date ? row.date.toISOString().slice(0, 10) : null,
+    code: row.code,
+    messages: row.messages.map(toChatMessage),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * 对话列表（最近更新的在前），可按关联的日期或代码筛选
+ */
+export async function listChatThreads(filter: {
+  date?: string;
+  code?: string;
+  limit?: number;
+}): Promise<ChatThreadSummary[]> {
+  const rows = await prisma.chatThread.findMany({
+    where: {
+      date: filter.date ? new Date(filter.date) : undefined,
+      code: filter.code || undefined,
+    },
+    orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+    take: filter.limit,
+    include: {
+      messages: { orderBy: { id: "desc" }, take: 1 },
+      _count: { select: { messages: true } },
+    },
+  });
+  return rows.map(({ messages, _count, ...row }) => {
+    const text = (messages[0]?.content ?? "").replace(/\s+/g, " ").trim();
+    return {
+      ...toChatThread({ ...row, messages: [] }),
+      messageCount: _count.messages,
+      preview: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text,
+    };
+  });
+}
+
+// 单个对话（含全部消息），不存在时返回 null
+export async function getChatThread(id: number): Promise<ChatThread | null> {
+  const row = await prisma.chatThread.findUnique({ where: { id }, include: THREAD_INCLUDE });
+  return row ? toChatThread(row) : null;
+}
+
+export async function createChatThread(input: ChatThreadInput): Promise<ChatThread> {
+  const data = toChatThreadData(input);
+  const row = await prisma.chatThread.create({
+    data: { ...data, title: data.title ?? DEFAULT_THREAD_TITLE },
+    include: THREAD_INCLUDE,
+  });
+  return toChatThread(row);
+}
+
+// 改名或修改关联，不存在时返回 null
+export async function updateChatThread(
+  id: number,
+  input: ChatThreadInput
+): Promise<ChatThread | null> {
+  const data = toChatThreadData(input);
+  const existing = await prisma.chatThread.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) return null;
+  const row = await prisma.chatThread.update({ where: { id }, data, include: THREAD_INCLUDE });
+  return toChatThread(row);
+}
+
+// 删除对话及其消息，不存在时返回 false
+export async function deleteChatThread(id: number): Promise<boolean> {
+  const { count } = await prisma.chatThread.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * 追加一条消息并刷新对话的更新时间
+ * 对话仍为默认标题时，以第一条提问作为标题
+ */
+export async function appendChatMessage(
+  threadId: number,
+  message: {
+    role: "user" | "assistant";
+    content: string;
+    status?: ReviewSessionStatus;
+    tools?: string[];
+  }
+): Promise<ChatMessage> {
+  const [row] = await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: {
+        threadId,
+        role: message.role,
+        content: message.content,
+        status: message.status ?? "complete",
+        tools: message.tools && message.tools.length > 0 ? JSON.stringify(message.tools) : null,
+      },
+    }),
+    prisma.chatThread.update({ where: { id: threadId }, data: { updatedAt: new Date() } }),
+  ]);
+  if (message.role === "user") {
+    const title = message.content.replace(/\s+/g, " ").trim().slice(0, 30);
+    if (title) {
+      await prisma.chatThread.updateMany({
+        where: { id: threadId, title: DEFAULT_THREAD_TITLE },
+        data: { title },
+      });
+    }
+  }
+  return toChatMessage(row);
+}
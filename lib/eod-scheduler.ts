@@ -0,0 +1,97 @@
+import { evaluateAlerts } from "./alerts-db";
+import {
+  fmtYmd,
+  hasEodJobSucceeded,
+  isAfterEodTime,
+  latestTradeDate,
+  runEodJob,
+} from "./indicator-snapshots";
+
+/**
+ * 进程内的收盘任务调度（由 instrumentation.ts 在服务启动时开启）：
+ * 每 CHECK_INTERVAL 检查一次，交易日过了 EOD_JOB_TIME 后依次执行两步——预计算指标快照、评估提醒规则；
+ * 提醒在当日快照成功后（含通过 /api/admin/eod-job 手动运行）才评估，两步都成功当天才算完成，
+ * 失败的稍后重试，每步每天最多 MAX_ATTEMPTS 次
+ * 设置 EOD_SCHEDULER=false 可关闭（如多实例部署时只在一个实例上运行）
+ */
+
+const CHECK_INTERVAL = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+// 开发环境热更新会重新加载模块，定时器与运行标记挂在 globalThis 上避免重复启动
+// 全市场快照可能跑超过 CHECK_INTERVAL，上一次检查未结束时跳过本次，避免重叠的检查消耗重试次数或重复评估提醒
+const globalForScheduler = globalThis as unknown as {
+  eodScheduler?: ReturnType<typeof setInterval>;
+  eodTickRunning?: boolean;
+};
+
+type Step = { attempts: number; done: boolean };
+
+const newStep = (): Step => ({ attempts: 0, done: false });
+
+let today = { date: "", snapshots: newStep(), alerts: newStep() };
+
+// 当日快照已成功（含通过 /api/admin/eod-job 手动运行）时直接完成；重试次数用完后仍会检查手动运行的结果
+async function runSnapshotStep(date: string, step: Step) {
+  if (await hasEodJobSucceeded(date)) {
+    step.done = true;
+    return;
+  }
+  if (step.attempts >= MAX_ATTEMPTS) return;
+  const result = await runEodJob(date, date).catch((error) => {
+    step.attempts++;
+    throw error;
+  });
+  if (!result) return; // 手动触发或回填的任务正在运行，不计入重试次数，下次再检查
+  step.attempts++;
+  const run = result.runs[0];
+  if (run?.status !== "success") {
+    console.warn(`收盘任务 ${date} 未完成（第 ${step.attempts} 次）：${run?.error ?? "无结果"}`);
+    return;
+  }
+  step.done = true;
+  console.log(`收盘任务 ${date} 快照完成：${run.saved}/${run.codes}`);
+}
+
+async function runAlertStep(date: string, step: Step) {
+  step.attempts++;
+  try {
+    const alerts = await evaluateAlerts();
+    step.done = true;
+    console.log(
+      `收盘任务 ${date} 提醒评估完成：检查 ${alerts.checked} 只，新增提醒 ${alerts.triggered} 条`
+    );
+  } catch (error) {
+    console.warn(`收盘任务 ${date} 提醒评估失败（第 ${step.attempts} 次）:`, error);
+  }
+}
+
+async function tick() {
+  const now = new Date();
+  if (!isAfterEodTime(now)) return;
+  const date = fmtYmd(now);
+  if (today.date !== date) today = { date, snapshots: newStep(), alerts: newStep() };
+  if (today.alerts.done || today.alerts.attempts >= MAX_ATTEMPTS) return;
+
+  if ((await latestTradeDate(date)) !== date) {
+    today.snapshots.done = true;
+    today.alerts.done = true;
+    return;
+  }
+  if (!today.snapshots.done) await runSnapshotStep(date, today.snapshots);
+  if (today.snapshots.done) await runAlertStep(date, today.alerts);
+}
+
+export function startEodScheduler() {
+  if (globalForScheduler.eodScheduler) return;
+  if (/^(0|false|no|off)$/i.test(process.env.EOD_SCHEDULER?.trim() ?? "")) return;
+  globalForScheduler.eodScheduler = setInterval(() => {
+    if (globalForScheduler.eodTickRunning) return;
+    globalForScheduler.eodTickRunning = true;
+    tick()
+      .catch((error) => console.error("收盘任务执行失败:", error))
+      .finally(() => {
+        globalForScheduler.eodTickRunning = false;
+      });
+  }, CHECK_INTERVAL);
+}
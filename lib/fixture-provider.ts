@@ -0,0 +1,109 @@
+import path from "path";
+import type {
+  DailyBar,
+  DailyBasicRow,
+  FinaIndicatorRow,
+  MarketDataProvider,
+  SectorIndexBar,
+  SectorIndexRow,
+  SectorMinuteSeries,
+  StkLimitRow,
+  StockBasicRow,
+  TradeCalRow,
+} from "./market-data";
+import { readTableFile } from "./market-files";
+import { readSectorMinutesDir } from "./sector-minutes";
+
+/**
+ * 本地文件数据源：从目录中读取与 tushare 字段一致的 CSV 或 JSON（对象数组）
+ *   trade_cal.csv                       cal_date,is_open
+ *   stock_basic.csv                     ts_code,symbol,name,area,industry,market,list_date
+ *   daily/<ts_code>.csv                 trade_date,open,high,low,close,pre_close,change,pct_chg,vol,amount
+ *   stk_limit/<ts_code>.csv             trade_date,up_limit,down_limit（可选）
+ *   daily_basic/<ts_code>.csv           trade_date,turnover_rate,turnover_rate_f,total_mv,circ_mv
+ *   fina_indicator/<ts_code>.csv        ann_date,end_date,debt_to_assets
+ *   sector_mins/<trade_date>/<板块名>.csv  trade_time,open,high,low,close,vol,pre_close
+ *   sector_index.csv                    ts_code,name,source,type
+ *   sector_index_daily/<ts_code>.csv    trade_date,open,high,low,close,pre_close,pct_chg,vol
+ * 同名 .json 优先于 .csv；文件不存在视为没有数据
+ */
+
+export function createFixtureProvider(dir: string): MarketDataProvider {
+  const root = path.resolve(process.cwd(), dir);
+
+  const readTable = (name: string) => readTableFile(root, name);
+
+  const inRange = (date: string, start?: string, end?: string) =>
+    (!start || date >= start) && (!end || date <= end);
+
+  return {
+    name: "fixture",
+
+    async tradeCal(startDate, endDate): Promise<TradeCalRow[]> {
+      const rows = (await readTable("trade_cal")) as TradeCalRow[];
+      return rows.filter((r) => inRange(r.cal_date, startDate, endDate));
+    },
+
+    async stockBasic(filter = {}): Promise<StockBasicRow[]> {
+      const rows = (await readTable("stock_basic")) as StockBasicRow[];
+      return rows.filter(
+        (r) =>
+          (!filter.tsCode || r.ts_code === filter.tsCode) &&
+          (!filter.symbol || r.symbol === filter.symbol)
+      );
+    },
+
+    // 与 tushare 一致：按交易日倒序返回
+    async daily({ tsCode, tradeDate, startDate, endDate }): Promise<DailyBar[]> {
+      const rows = (await readTable(`daily/${tsCode}`)) as DailyBar[];
+      return rows
+        .map((r) => ({ ...r, ts_code: tsCode }))
+        .filter((r) =>
+          tradeDate ? r.trade_date === tradeDate : inRange(r.trade_date, startDate, endDate)
+        )
+        .sort((a, b) => b.trade_date.localeCompare(a.trade_date));
+    },
+
+    async stkLimit(tsCode, startDate, endDate): Promise<StkLimitRow[]> {
+      const rows = (await readTable(`stk_limit/${tsCode}`)) as StkLimitRow[];
+      return rows.filter((r) => inRange(r.trade_date, startDate, endDate));
+    },
+
+    async dailyBasic(tsCode, startDate, endDate): Promise<DailyBasicRow[]> {
+      const rows = (await readTable(`daily_basic/${tsCode}`)) as DailyBasicRow[];
+      return rows
+        .map((r) => ({ ...r, ts_code: tsCode }))
+        .filter((r) => inRange(r.trade_date, startDate, endDate))
+        .sort((a, b) => b.trade_date.localeCompare(a.trade_date));
+    },
+
+    async finaIndicator(tsCode, annStartDate, annEndDate): Promise<FinaIndicatorRow[]> {
+      const rows = (await readTable(`fina_indicator/${tsCode}`)) as FinaIndicatorRow[];
+      return rows
+        .map((r) => ({ ...r, ts_code: tsCode }))
+        .filter((r) => inRange(r.ann_date, annStartDate, annEndDate));
+    },
+
+    sectorMinutes(sector, tradeDate): Promise<SectorMinuteSeries | null> {
+      return readSectorMinutesDir(path.join(root, "sector_mins"), sector, tradeDate);
+    },
+
+    async sectorIndices(): Promise<SectorIndexRow[]> {
+      const rows = await readTable("sector_index");
+      return rows.map((r) => ({
+        ts_code: r.ts_code,
+        name: r.name,
+        source: r.source === "dc" ? "dc" : "ths",
+        type: r.type,
+      }));
+    },
+
+    async sectorIndexDaily(tsCode, startDate, endDate): Promise<SectorIndexBar[]> {
+      const rows = (await readTable(`sector_index_daily/${tsCode}`)) as SectorIndexBar[];
+      return rows
+        .map((r) => ({ ...r, ts_code: tsCode }))
+        .filter((r) => inRange(r.trade_date, startDate, endDate))
+        .sort((a, b) => b.trade_date.localeCompare(a.trade_date));
+    },
+  };
+}
@@ -0,0 +1,258 @@
+import { Prisma, type SignalForwardReturn } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  codeToTsCode,
+  getDailyRange,
+  mapWithConcurrency,
+  TUSHARE_CONCURRENCY,
+  type DailyRow,
+} from "./tushare";
+import type { ForwardHorizon, ForwardReturnStat } from "./types";
+
+/**
+ * 信号后续表现：以录入日收盘价为基准，计算之后 T+1/3/5/10 个交易日的
+ * 收盘涨跌幅、区间最高涨幅与最大回撤，存入 signal_forward_returns 供列表展示与分组统计
+ */
+
+export const FORWARD_HORIZONS: ForwardHorizon[] = [1, 3, 5, 10];
+const MAX_HORIZON = 10;
+// 取不到行情的记录（退市、代码错误、录入日无日线等）隔几天再试，避免长期失败的旧记录占满每一批
+const FAILED_RETRY_DAYS = 3;
+
+type ForwardReturnData = Omit<SignalForwardReturn, "signalId" | "updatedAt">;
+
+function pct(price: number, base: number): number {
+  return Math.round((price / base - 1) * 10000) / 100;
+}
+
+function windowStats(after: DailyRow[], n: number, base: number) {
+  if (after.length < n) return null;
+  const window = after.slice(0, n);
+  return {
+    close: pct(window[n - 1].close, base),
+    maxHigh: pct(Math.max(...window.map((r) => r.high)), base),
+    maxDrawdown: pct(Math.min(...window.map((r) => r.low)), base),
+  };
+}
+
+/**
+ * 由日线计算某条记录的后续表现；录入日不是交易日时以之前最近交易日收盘为基准
+ * 日线中没有录入日及之前的数据时返回 null
+ */
+export function computeForwardReturn(
+  rows: DailyRow[],
+  recordDate: string
+): ForwardReturnData | null {
+  const ymd = recordDate.replace(/-/g, "");
+  const sorted = [...rows].sort((a, b) => a.trade_date.localeCompare(b.trade_date));
+  let baseIdx = -1;
+  for (let i = 0; i < sorted.length && sorted[i].trade_date <= ymd; i++) baseIdx = i;
+  if (baseIdx < 0 || !(sorted[baseIdx].close > 0)) return null;
+
+  const base = sorted[baseIdx].close;
+  const after = sorted.slice(baseIdx + 1, baseIdx + 1 + MAX_HORIZON);
+  const [w1, w3, w5, w10] = FORWARD_HORIZONS.map((n) => windowStats(after, n, base));
+
+  return {
+    baseClose: base,
+    days: after.length,
+    nextOpen: after.length > 0 ? pct(after[0].open, base) : null,
+    ret1: w1?.close ?? null,
+    maxHigh1: w1?.maxHigh ?? null,
+    maxDrawdown1: w1?.maxDrawdown ?? null,
+    ret3: w3?.close ?? null,
+    maxHigh3: w3?.maxHigh ?? null,
+    maxDrawdown3: w3?.maxDrawdown ?? null,
+    ret5: w5?.close ?? null,
+    maxHigh5: w5?.maxHigh ?? null,
+    maxDrawdown5: w5?.maxDrawdown ?? null,
+    ret10: w10?.close ?? null,
+    maxHigh10: w10?.maxHigh ?? null,
+    maxDrawdown10: w10?.maxDrawdown ?? null,
+  };
+}
+
+function startOfToday(): Date {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+// 需要评估：从未评估过，或交易日未满 10 天且今天还没更新过（录入当天的记录不参与）
+function dueWhere(today: Date): Prisma.SignalRecordWhereInput {
+  return {
+    date: { lt: today },
+    OR: [
+      { forwardReturn: { is: null } },
+      { forwardReturn: { is: { days: { lt: MAX_HORIZON }, updatedAt: { lt: today } } } },
+    ],
+  };
+}
+
+// 待评估：需要评估且不在失败退避期内；backoff 为 true 时反过来取退避期内的记录
+function pendingWhere(backoff = false): Prisma.SignalRecordWhereInput {
+  const today = startOfToday();
+  const retryAfter = new Date(today);
+  retryAfter.setDate(retryAfter.getDate() - FAILED_RETRY_DAYS);
+  return {
+    AND: [
+      dueWhere(today),
+      backoff
+        ? { forwardFailedAt: { gte: retryAfter } }
+        : { OR: [{ forwardFailedAt: null }, { forwardFailedAt: { lt: retryAfter } }] },
+    ],
+  };
+}
+
+/**
+ * 评估待更新记录的后续表现，每只股票只请求一次日线（录入日至今）
+ * 单次最多处理 maxCodes 只股票，返回 { evaluated, failed, remaining, skipped }
+ *   failed   : 本次取不到录入日行情的记录数（停牌/代码错误等），FAILED_RETRY_DAYS 天后再试
+ *   remaining: 本次未处理的待评估记录数
+ *   skipped  : 之前失败、仍在退避期内而跳过的记录数
+ */
+export async function evaluateForwardReturns(maxCodes = 50): Promise<{
+  evaluated: number;
+  failed: number;
+  remaining: number;
+  skipped: number;
+}> {
+  const pending = await prisma.signalRecord.findMany({
+    where: pendingWhere(),
+    select: { id: true, code: true, date: true },
+    orderBy: { date: "asc" },
+  });
+
+  const byCode = new Map<string, { id: number; date: string }[]>();
+  for (const r of pending) {
+    if (!byCode.has(r.code) && byCode.size >= maxCodes) continue;
+    if (!byCode.has(r.code)) byCode.set(r.code, []);
+    byCode.get(r.code)!.push({ id: r.id, date: r.date.toISOString().slice(0, 10) });
+  }
+
+  const today = new Date();
+  const fmt = (d: Date) =>
+    `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+
+  const results = await mapWithConcurrency(
+    Array.from(byCode.entries()),
+    TUSHARE_CONCURRENCY,
+    async ([code, records]) => {
+      const tsCode = codeToTsCode(code);
+      if (!tsCode) return records.map((r) => ({ id: r.id, data: null }));
+      // 往前多取 15 天，保证录入日为节假日时也能找到基准收盘价
+      const earliest = new Date(records[0].date);
+      earliest.setDate(earliest.getDate() - 15);
+      try {
+        const rows = (await getDailyRange(tsCode, fmt(earliest), fmt(today))) || [];
+        return records.map((r) => ({ id: r.id, data: computeForwardReturn(rows, r.date) }));
+      } catch (error) {
+        console.error(`evaluateForwardReturns [${code}] error:`, error);
+        return records.map((r) => ({ id: r.id, data: null }));
+      }
+    }
+  );
+
+  const computed = results.flat();
+  const ok = computed.filter(
+    (c): c is { id: number; data: ForwardReturnData } => c.data !== null
+  );
+  const failedIds = computed.filter((c) => c.data === null).map((c) => c.id);
+  await prisma.$transaction([
+    ...ok.map(({ id, data }) =>
+      prisma.signalForwardReturn.upsert({
+        where: { signalId: id },
+        create: { signalId: id, ...data },
+        update: data,
+      })
+    ),
+    prisma.signalRecord.updateMany({
+      where: { id: { in: ok.map((c) => c.id) }, forwardFailedAt: { not: null } },
+      data: { forwardFailedAt: null },
+    }),
+    prisma.signalRecord.updateMany({
+      where: { id: { in: failedIds } },
+      data: { forwardFailedAt: new Date() },
+    }),
+  ]);
+
+  return {
+    evaluated: ok.length,
+    failed: failedIds.length,
+    remaining: pending.length - computed.length,
+    skipped: await prisma.signalRecord.count({ where: pendingWhere(true) }),
+  };
+}
+
+const SCORE_BUCKET_SQL = Prisma.sql`CASE WHEN r.score >= 75 THEN '≥75' WHEN r.score >= 50 THEN '50-74' ELSE '<50' END`;
+const SCORE_BUCKET_ORDER = ["≥75", "50-74", "<50"];
+const PATTERN_SQL = Prisma.sql`COALESCE(r.\`sectorPattern\`, '无')`;
+
+function toNum(v: unknown): number | null {
+  return v === null || v === undefined ? null : Math.round(Number(v) * 100) / 100;
+}
+
+async function queryStats(
+  groupSql: Prisma.Sql,
+  where: Prisma.Sql
+): Promise<ForwardReturnStat[]> {
+  const horizonSql = FORWARD_HORIZONS.map(
+    (n) => Prisma.raw(`
+      COUNT(f.ret_${n}) AS samples_${n},
+      AVG(f.ret_${n}) AS close_${n},
+      AVG(CASE WHEN f.ret_${n} IS NULL THEN NULL WHEN f.ret_${n} > 0 THEN 100 ELSE 0 END) AS win_${n},
+      AVG(f.max_high_${n}) AS high_${n},
+      AVG(f.max_drawdown_${n}) AS drawdown_${n}`)
+  );
+  const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+    SELECT ${groupSql} AS grp, COUNT(*) AS count, AVG(f.next_open) AS nextOpen,
+           ${Prisma.join(horizonSql, ",")}
+    FROM signal_forward_returns f
+    JOIN signal_records r ON r.id = f.signal_id
+    ${where}
+    GROUP BY grp
+  `;
+  return rows.map((row) => ({
+    group: String(row.grp),
+    count: Number(row.count),
+    next_open: toNum(row.nextOpen),
+    horizons: Object.fromEntries(
+      FORWARD_HORIZONS.map((n) => [
+        n,
+        {
+          samples: Number(row[`samples_${n}`]),
+          avg_close: toNum(row[`close_${n}`]),
+          win_rate: toNum(row[`win_${n}`]),
+          avg_max_high: toNum(row[`high_${n}`]),
+          avg_max_drawdown: toNum(row[`drawdown_${n}`]),
+        },
+      ])
+    ) as ForwardReturnStat["horizons"],
+  }));
+}
+
+/**
+ * 后续表现分组统计：按评分档（≥75 / 50-74 / <50）与板块分时
+ * 只统计已评估过的记录，可按录入日期范围过滤
+ */
+export async function getForwardReturnStats(options: {
+  from?: string; // YYYY-MM-DD（含）
+  to?: string; // YYYY-MM-DD（含）
+} = {}): Promise<{ byScore: ForwardReturnStat[]; byPattern: ForwardReturnStat[] }> {
+  const conditions: Prisma.Sql[] = [];
+  if (options.from) conditions.push(Prisma.sql`r.date >= ${new Date(options.from)}`);
+  if (options.to) conditions.push(Prisma.sql`r.date <= ${new Date(options.to)}`);
+  const where = conditions.length
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+
+  const [byScore, byPattern] = await Promise.all([
+    queryStats(SCORE_BUCKET_SQL, where),
+    queryStats(PATTERN_SQL, where),
+  ]);
+  byScore.sort(
+    (a, b) => SCORE_BUCKET_ORDER.indexOf(a.group) - SCORE_BUCKET_ORDER.indexOf(b.group)
+  );
+  byPattern.sort((a, b) => b.count - a.count);
+  return { byScore, byPattern };
+}
@@ -0,0 +1,147 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+
+/**
+ * 图片文件存储：按内容 SHA-256 命名，相同图片只存一份
+ *   <root>/<hash 前两位>/<hash>.<ext>         原图
+ *   <root>/<hash 前两位>/<hash>.thumb.webp    缩略图（宽 THUMB_WIDTH）
+ * 根目录由 SCREENSHOT_STORAGE_DIR 指定（默认 storage/screenshots）
+ * 文件名由内容决定，不会被覆盖，可长期缓存
+ */
+
+const THUMB_WIDTH = 480;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const MIME_EXT: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+const EXT_MIME: Record<string, string> = Object.fromEntries(
+  Object.entries(MIME_EXT).map(([mime, ext]) => [ext, mime])
+);
+
+// 图片本身不合法（格式、类型、大小或无法解码），路由据此返回 400
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+export type StoredImage = {
+  hash: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  size: number;
+};
+
+function storageRoot(): string {
+  return path.resolve(process.cwd(), process.env.SCREENSHOT_STORAGE_DIR || "storage/screenshots");
+}
+
+function filePath(hash: string, name: string): string {
+  return path.join(storageRoot(), hash.slice(0, 2), name);
+}
+
+// 已存在则跳过（内容相同）
+async function writeOnce(file: string, data: Buffer) {
+  try {
+    await fs.access(file);
+    return;
+  } catch {
+    // 不存在，继续写入
+  }
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
+
+/**
+ * 解析 Data URL（data:image/png;base64,...），不支持的类型或超过大小限制时抛出 InvalidImageError
+ */
+export function parseImageDataUrl(dataUrl: string): { mimeType: string; data: Buffer } {
+  const match = /^data:(image\/[\w.+-]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) throw new InvalidImageError("图片格式错误：需要 base64 Data URL");
+  const mimeType = match[1].toLowerCase();
+  if (!MIME_EXT[mimeType]) throw new InvalidImageError(`不支持的图片类型: ${mimeType}`);
+  const data = Buffer.from(match[2], "base64");
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new InvalidImageError(
+      `图片过大（${(data.length / 1024 / 1024).toFixed(1)}MB），上限 10MB`
+    );
+  }
+  return { mimeType, data };
+}
+
+/**
+ * 保存原图并生成缩略图，返回存储元数据
+ * 图片无法解码时抛出 InvalidImageError（先解码再写文件，不留下残缺文件）
+ */
+export async function saveImage(data: Buffer, mimeType: string): Promise<StoredImage> {
+  const ext = MIME_EXT[mimeType];
+  if (!ext) throw new InvalidImageError(`不支持的图片类型: ${mimeType}`);
+  const hash = createHash("sha256").update(data).digest("hex");
+
+  let meta: sharp.Metadata;
+  let thumb: Buffer;
+  try {
+    const image = sharp(data, { animated: false });
+    meta = await image.metadata();
+    thumb = await image
+      .resize({ width: THUMB_WIDTH, withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error: any) {
+    throw new InvalidImageError(`图片无法解码: ${error?.message || "数据损坏"}`);
+  }
+  await writeOnce(filePath(hash, `${hash}.${ext}`), data);
+  await writeOnce(filePath(hash, `${hash}.thumb.webp`), thumb);
+
+  return {
+    hash,
+    mimeType,
+    width: meta.width ?? null,
+    height: meta.height ?? null,
+    size: data.length,
+  };
+}
+
+// 图片访问地址（由 /api/sector-screenshots/images/[file] 提供）
+export function imageUrl(hash: string, mimeType: string): string {
+  return `/api/sector-screenshots/images/${hash}.${MIME_EXT[mimeType] ?? "png"}`;
+}
+
+export function thumbnailUrl(hash: string): string {
+  return `/api/sector-screenshots/images/${hash}.thumb.webp`;
+}
+
+// 读取原图，文件不存在时返回 null
+export async function readOriginalImage(hash: string, mimeType: string): Promise<Buffer | null> {
+  const image = await readImage(`${hash}.${MIME_EXT[mimeType] ?? "png"}`);
+  return image?.data ?? null;
+}
+
+/**
+ * 按文件名读取图片（<hash>.<ext> 或 <hash>.thumb.webp），文件名非法或不存在时返回 null
+ */
+export async function readImage(
+  fileName: string
+): Promise<{ data: Buffer; mimeType: string; hash: string } | null> {
+  const match = /^([a-f0-9]{64})(\.thumb)?\.(png|jpg|webp|gif)$/.exec(fileName);
+  if (!match) return null;
+  const [, hash, thumb, ext] = match;
+  if (thumb && ext !== "webp") return null;
+  try {
+    const data = await fs.readFile(filePath(hash, fileName));
+    return { data, mimeType: EXT_MIME[ext], hash };
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+}
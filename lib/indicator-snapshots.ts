@@ -0,0 +1,312 @@
+import type { EodJobRun as EodJobRunRow, IndicatorSnapshot } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  codeToTsCode,
+  computeIndicators,
+  getDailyRange,
+  getIndicatorsBatch,
+  getTradeCal,
+  getUpLimits,
+  mapWithConcurrency,
+  TUSHARE_CONCURRENCY,
+  type DailyRow,
+  type StockIndicators,
+} from "./tushare";
+import type { EodJobResult, EodJobRun } from "./types";
+
+/**
+ * 收盘后指标快照：每个交易日收盘后为近 ACTIVE_CODE_DAYS 天录入过的股票计算
+ * MA20 状态、MA5/MA30 序列与各录入日之后的首次涨停，存入 indicator_snapshots；
+ * 个股页与图表接口优先读取最近一个已收盘交易日的快照，没有快照时再实时计算
+ */
+
+export const ACTIVE_CODE_DAYS = 30;
+// 日线往前取的自然日数（与 getIndicatorsBatch 一致）
+const LOOKBACK_DAYS = 90;
+// 单次回填最多覆盖的自然日数
+export const MAX_BACKFILL_DAYS = 60;
+// 收盘任务默认在交易日该时间（本地时间）之后运行，日线数据通常在收盘后 1 小时内更新
+const DEFAULT_EOD_TIME = "16:30";
+
+// Date -> YYYYMMDD
+export function fmtYmd(d: Date): string {
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// YYYYMMDD -> YYYY-MM-DD
+function ymdToIso(ymd: string): string {
+  return `${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}`;
+}
+
+// YYYYMMDD 加减自然日
+export function shiftYmd(ymd: string, days: number): string {
+  const d = new Date(Number(ymd.slice(0, 4)), Number(ymd.slice(4, 6)) - 1, Number(ymd.slice(6, 8)));
+  d.setDate(d.getDate() + days);
+  return fmtYmd(d);
+}
+
+/**
+ * 是否已过当日收盘任务时间（EOD_JOB_TIME，格式 HH:mm，默认 16:30）
+ */
+export function isAfterEodTime(now: Date): boolean {
+  const configured = process.env.EOD_JOB_TIME?.trim() || "";
+  const [h, m] = (/^\d{1,2}:\d{2}$/.test(configured) ? configured : DEFAULT_EOD_TIME)
+    .split(":")
+    .map(Number);
+  return now.getHours() * 60 + now.getMinutes() >= h * 60 + m;
+}
+
+// [from, to]（YYYYMMDD，含）内的交易日，升序
+export async function listTradingDays(from: string, to: string): Promise<string[]> {
+  const cal = await getTradeCal(from, to);
+  return cal
+    .filter((r) => Number(r.is_open) === 1)
+    .map((r) => r.cal_date)
+    .sort();
+}
+
+// 最近一个交易日（含 today），取不到交易日历时抛出
+export async function latestTradeDate(today: string): Promise<string | null> {
+  const days = await listTradingDays(shiftYmd(today, -20), today);
+  return days[days.length - 1] ?? null;
+}
+
+let closedDayCache: { key: string; value: string | null } | null = null;
+
+/**
+ * 最近一个已过收盘任务时间的交易日（YYYYMMDD），快照以此判断是否最新
+ * 结果按「日期 + 是否已过收盘任务时间」缓存；取不到交易日历时返回 null（改为实时计算）
+ */
+export async function latestClosedTradeDate(now = new Date()): Promise<string | null> {
+  const today = fmtYmd(now);
+  const afterEod = isAfterEodTime(now);
+  const key = `${today}-${afterEod}`;
+  if (closedDayCache?.key === key) return closedDayCache.value;
+  try {
+    const value = await latestTradeDate(afterEod ? today : shiftYmd(today, -1));
+    closedDayCache = { key, value };
+    return value;
+  } catch (error) {
+    console.warn("查询交易日历失败，本次不使用指标快照:", error);
+    return null;
+  }
+}
+
+function toIndicators(row: IndicatorSnapshot): StockIndicators {
+  return {
+    code: row.code,
+    ma20: row.ma20 ? JSON.parse(row.ma20) : null,
+    dailyChart: row.dailyChart ? JSON.parse(row.dailyChart) : null,
+    limitUps: JSON.parse(row.limitUps),
+  };
+}
+
+/**
+ * 同 getIndicatorsBatch，但优先读取最近一个已收盘交易日的快照：
+ * 快照存在且包含所需的全部录入日时直接返回，其余代码实时计算；结果按代码首次出现的顺序
+ */
+export async function getIndicatorsCached(
+  items: { code: string; recordDate?: string }[]
+): Promise<StockIndicators[]> {
+  const datesByCode = new Map<string, Set<string>>();
+  for (const item of items) {
+    if (!datesByCode.has(item.code)) datesByCode.set(item.code, new Set());
+    if (item.recordDate) datesByCode.get(item.code)!.add(item.recordDate);
+  }
+  const codes = Array.from(datesByCode.keys());
+
+  const cached = new Map<string, StockIndicators>();
+  try {
+    const tradeDate = await latestClosedTradeDate();
+    if (tradeDate) {
+      const rows = await prisma.indicatorSnapshot.findMany({
+        where: { code: { in: codes }, tradeDate: new Date(ymdToIso(tradeDate)) },
+      });
+      for (const row of rows) {
+        const snapshot = toIndicators(row);
+        const dates = Array.from(datesByCode.get(row.code)!);
+        if (!dates.every((d) => d in snapshot.limitUps)) continue;
+        const limitUps = Object.fromEntries(dates.map((d) => [d, snapshot.limitUps[d]]));
+        cached.set(row.code, { ...snapshot, limitUps });
+      }
+    }
+  } catch (error) {
+    console.error("读取指标快照失败，改为实时计算:", error);
+  }
+
+  const live = await getIndicatorsBatch(items.filter((item) => !cached.has(item.code)));
+  const liveByCode = new Map(live.map((r) => [r.code, r]));
+  return codes.map((code) => cached.get(code) ?? liveByCode.get(code)!);
+}
+
+function toEodJobRun(row: EodJobRunRow): EodJobRun {
+  return {
+    tradeDate: row.tradeDate.toISOString().slice(0, 10),
+    status: row.status as EodJobRun["status"],
+    codes: row.codes,
+    saved: row.saved,
+    failed: row.failed,
+    error: row.error,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt.toISOString(),
+  };
+}
+
+// 最近的收盘任务执行记录（新的在前）
+export async function listEodJobRuns(limit = 30): Promise<EodJobRun[]> {
+  const rows = await prisma.eodJobRun.findMany({ orderBy: { tradeDate: "desc" }, take: limit });
+  return rows.map(toEodJobRun);
+}
+
+// 某个交易日（YYYYMMDD）的收盘任务是否已成功
+export async function hasEodJobSucceeded(tradeDate: string): Promise<boolean> {
+  const row = await prisma.eodJobRun.findUnique({
+    where: { tradeDate: new Date(ymdToIso(tradeDate)) },
+    select: { status: true },
+  });
+  return row?.status === "success";
+}
+
+type CodeData = {
+  code: string;
+  days: string[]; // 需要生成快照的交易日
+  recordDates: string[]; // YYYY-MM-DD
+  rows: DailyRow[];
+  upLimits: Map<string, number>;
+  ok: boolean;
+};
+
+// 调度器与 /api/admin/eod-job 可能加载到不同的模块实例，运行标记挂在 globalThis 上共享
+const globalForJob = globalThis as unknown as { eodJobRunning?: boolean };
+
+/**
+ * 为 [from, to]（YYYYMMDD，含）内的每个交易日计算并保存快照（已有的覆盖），每只股票只请求一次日线
+ * 某个交易日所有股票都没有当日日线时（行情尚未更新）该日记为失败、不写入快照
+ * 已有任务在运行时返回 null
+ */
+export async function runEodJob(from: string, to: string): Promise<EodJobResult | null> {
+  if (globalForJob.eodJobRunning) return null;
+  globalForJob.eodJobRunning = true;
+  try {
+    return await computeSnapshots(from, to);
+  } finally {
+    globalForJob.eodJobRunning = false;
+  }
+}
+
+async function computeSnapshots(from: string, to: string): Promise<EodJobResult> {
+  const startedAt = new Date();
+  const tradeDays = await listTradingDays(from, to);
+  if (tradeDays.length === 0) return { runs: [], failedCodes: [] };
+  const lastDay = new Date(ymdToIso(tradeDays[tradeDays.length - 1]));
+
+  // 每个交易日需要计算的股票：截至当日近 ACTIVE_CODE_DAYS 天录入过
+  const recent = await prisma.signalRecord.findMany({
+    where: {
+      date: { gte: new Date(ymdToIso(shiftYmd(tradeDays[0], -ACTIVE_CODE_DAYS))), lte: lastDay },
+    },
+    select: { code: true, date: true },
+  });
+  const daysByCode = new Map<string, string[]>();
+  for (const day of tradeDays) {
+    const since = shiftYmd(day, -ACTIVE_CODE_DAYS);
+    const codes = new Set(
+      recent
+        .filter((r) => {
+          const ymd = r.date.toISOString().slice(0, 10).replace(/-/g, "");
+          return ymd >= since && ymd <= day;
+        })
+        .map((r) => r.code)
+    );
+    for (const code of codes) {
+      if (!daysByCode.has(code)) daysByCode.set(code, []);
+      daysByCode.get(code)!.push(day);
+    }
+  }
+
+  // 涨停检查覆盖该股历次录入日（个股页会展示全部记录）
+  const codes = Array.from(daysByCode.keys());
+  const records = await prisma.signalRecord.findMany({
+    where: { code: { in: codes }, date: { lte: lastDay } },
+    select: { code: true, date: true },
+  });
+  const recordDatesByCode = new Map<string, Set<string>>();
+  for (const r of records) {
+    if (!recordDatesByCode.has(r.code)) recordDatesByCode.set(r.code, new Set());
+    recordDatesByCode.get(r.code)!.add(r.date.toISOString().slice(0, 10));
+  }
+
+  const fetchCode = async (code: string): Promise<CodeData> => {
+    const days = daysByCode.get(code)!;
+    const recordDates = Array.from(recordDatesByCode.get(code) ?? []).sort();
+    try {
+      const tsCode = codeToTsCode(code);
+      if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
+      let start = shiftYmd(days[0], -LOOKBACK_DAYS);
+      if (recordDates.length > 0 && recordDates[0].replace(/-/g, "") < start) {
+        start = recordDates[0].replace(/-/g, "");
+      }
+      const rows = (await getDailyRange(tsCode, start, days[days.length - 1])) || [];
+      const upLimits = recordDates.length > 0 ? await getUpLimits(tsCode, rows) : new Map();
+      return { code, days, recordDates, rows, upLimits, ok: true };
+    } catch (error) {
+      console.error(`runEodJob [${code}] error:`, error);
+      return { code, days, recordDates, rows: [], upLimits: new Map(), ok: false };
+    }
+  };
+  const data = await mapWithConcurrency(codes, TUSHARE_CONCURRENCY, fetchCode);
+
+  const runs: EodJobRun[] = [];
+  for (const day of tradeDays) {
+    const active = data.filter((d) => d.days.includes(day));
+    const ok = active.filter((d) => d.ok);
+    let status: EodJobRun["status"] = "success";
+    let error: string | null = null;
+    let saved = 0;
+
+    if (active.length > 0 && !ok.some((d) => d.rows.some((r) => r.trade_date === day))) {
+      status = "failed";
+      error = ok.length === 0 ? "行情获取失败" : "当日行情尚未更新";
+    } else if (ok.length > 0) {
+      const tradeDate = new Date(ymdToIso(day));
+      const snapshots = ok.map((d) => {
+        const dates = d.recordDates.filter((r) => r.replace(/-/g, "") <= day);
+        const indicators = computeIndicators(d.code, d.rows, dates, d.upLimits, day);
+        return {
+          ma20: indicators.ma20 ? JSON.stringify(indicators.ma20) : null,
+          dailyChart: indicators.dailyChart ? JSON.stringify(indicators.dailyChart) : null,
+          limitUps: JSON.stringify(indicators.limitUps),
+          code: d.code,
+        };
+      });
+      await prisma.$transaction(
+        snapshots.map(({ code, ...values }) =>
+          prisma.indicatorSnapshot.upsert({
+            where: { code_tradeDate: { code, tradeDate } },
+            create: { code, tradeDate, ...values },
+            update: values,
+          })
+        )
+      );
+      saved = snapshots.length;
+    }
+
+    const values = {
+      status,
+      codes: active.length,
+      saved,
+      failed: active.length - ok.length,
+      error,
+      startedAt,
+      finishedAt: new Date(),
+    };
+    const run = await prisma.eodJobRun.upsert({
+      where: { tradeDate: new Date(ymdToIso(day)) },
+      create: { tradeDate: new Date(ymdToIso(day)), ...values },
+      update: values,
+    });
+    runs.push(toEodJobRun(run));
+  }
+
+  return { runs, failedCodes: data.filter((d) => !d.ok).map((d) => d.code) };
+}
@@ -0,0 +1,143 @@
+import type { AIModelInfo } from "./types";
+
+/**
+ * AI 模型配置：支持任意 OpenAI 兼容接口（OpenAI、第三方中转、本机 Ollama / vLLM / LM Studio 等）
+ *
+ * 环境变量：
+ *   LLM_BASE_URL        接口地址，默认 https://api.openai.com/v1（请求 <LLM_BASE_URL>/chat/completions）
+ *   LLM_API_KEY         API Key，未设置时使用 OPENAI_API_KEY；本机服务可不填
+ *   LLM_CHAT_MODEL      询问 AI 使用的模型，默认 gpt-4o-mini
+ *   LLM_REVIEW_MODEL    复盘智囊使用的模型，默认 gpt-4o
+ *   LLM_REVIEW_VISION   复盘模型是否支持图片：true / false，不填时按模型名判断
+ *   LLM_JSON_MODE       是否发送 response_format（json_object），默认 true；本机服务不支持时设为 false
+ *   LLM_CHAT_TOOLS      询问 AI 是否允许模型调用工具查询信号库，默认 true；模型不支持 function calling 时设为 false
+ * 不支持图片的模型只发送个股数据，不附带板块分时截图
+ */
+
+export type LLMFeature = "chat" | "review";
+
+export interface LLMConfig {
+  feature: LLMFeature;
+  baseUrl: string; // 不含末尾的 /
+  apiKey: string | null;
+  model: string;
+  vision: boolean;
+  jsonMode: boolean;
+  tools: boolean;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+const DEFAULT_MODELS: Record<LLMFeature, string> = {
+  chat: "gpt-4o-mini",
+  review: "gpt-4o",
+};
+
+// 已知支持图片输入的模型名（不区分大小写）
+const VISION_MODEL_PATTERNS = [
+  /gpt-4o/,
+  /gpt-4\.1/,
+  /gpt-4-turbo/,
+  /gpt-4-vision/,
+  /gpt-5/,
+  /^o[13](-pro)?$/,
+  /^o4-/,
+  /claude-(3|sonnet|opus|haiku)/,
+  /gemini/,
+  /vision/,
+  /[-_.]vl([-_:.]|$)/,
+  /llava/,
+  /pixtral/,
+  /minicpm-v/,
+  /glm-4v/,
+  /internvl/,
+];
+
+/**
+ * 按模型名判断是否支持图片输入（未知模型视为不支持）
+ */
+export function isVisionModel(model: string): boolean {
+  const name = model.toLowerCase().split("/").pop() ?? "";
+  return VISION_MODEL_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+function parseBool(value: string | undefined): boolean | null {
+  if (value === undefined || value.trim() === "") return null;
+  return /^(1|true|yes|on)$/i.test(value.trim());
+}
+
+function isLocalUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return (
+      hostname === "localhost" ||
+      hostname === "127.0.0.1" ||
+      hostname === "::1" ||
+      hostname === "[::1]" ||
+      hostname === "host.docker.internal"
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 读取某个功能的模型配置；model 可覆盖环境变量中的模型（不改变其他配置）
+ */
+export function getLLMConfig(feature: LLMFeature, model?: string): LLMConfig {
+  const baseUrl = (process.env.LLM_BASE_URL || DEFAULT_BASE_URL).trim().replace(/\/+$/, "");
+  const resolvedModel =
+    model ||
+    (feature === "chat" ? process.env.LLM_CHAT_MODEL : process.env.LLM_REVIEW_MODEL) ||
+    DEFAULT_MODELS[feature];
+  const visionOverride = feature === "review" ? parseBool(process.env.LLM_REVIEW_VISION) : null;
+  return {
+    feature,
+    baseUrl,
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || null,
+    model: resolvedModel,
+    vision: visionOverride ?? isVisionModel(resolvedModel),
+    jsonMode: parseBool(process.env.LLM_JSON_MODE) ?? true,
+    tools: feature === "chat" && (parseBool(process.env.LLM_CHAT_TOOLS) ?? true),
+  };
+}
+
+/**
+ * 配置不可用时返回错误说明：非本机接口必须配置 API Key
+ */
+export function getLLMConfigError(config: LLMConfig): string | null {
+  if (!config.apiKey && !isLocalUrl(config.baseUrl)) {
+    return "未配置 AI API Key（LLM_API_KEY 或 OPENAI_API_KEY）";
+  }
+  return null;
+}
+
+/**
+ * 调用 chat/completions；body 中的 model 由配置填入
+ */
+export function createChatCompletion(
+  config: LLMConfig,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+  return fetch(`${config.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...body, model: config.model }),
+    signal,
+  });
+}
+
+/**
+ * 供前端展示的配置摘要（不含 API Key）
+ */
+export function describeLLMConfig(config: LLMConfig): AIModelInfo {
+  return {
+    model: config.model,
+    vision: config.vision,
+    local: isLocalUrl(config.baseUrl),
+    error: getLLMConfigError(config),
+  };
+}
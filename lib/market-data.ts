@@ -0,0 +1,149 @@
+import { createTushareProvider } from "./tushare-provider";
+import { createFixtureProvider } from "./fixture-provider";
+
+/**
+ * 行情数据源抽象：字段与 tushare 接口保持一致（日期均为 YYYYMMDD）
+ * 通过环境变量 MARKET_DATA_PROVIDER 选择实现：
+ *   tushare（默认）: 调用 tushare pro，需配置 TUSHARE_TOKEN；板块分钟线读取 SECTOR_MINUTES_DIR
+ *   fixture        : 读取 MARKET_DATA_FIXTURE_DIR（默认 fixtures/market-data）下的 CSV/JSON，无需联网
+ */
+
+export interface TradeCalRow {
+  cal_date: string;
+  is_open: number;
+}
+
+export interface StockBasicRow {
+  ts_code: string;
+  symbol: string;
+  name: string;
+  area: string;
+  industry: string;
+  market: string;
+  list_date: string;
+}
+
+export interface DailyBar {
+  ts_code: string;
+  trade_date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  pre_close: number;
+  change: number;
+  pct_chg: number;
+  vol: number;
+  amount: number; // 成交额（千元）
+}
+
+export interface StkLimitRow {
+  trade_date: string;
+  up_limit: number;
+  down_limit: number;
+}
+
+export interface DailyBasicRow {
+  ts_code: string;
+  trade_date: string;
+  turnover_rate: number | null; // 换手率 %
+  turnover_rate_f: number | null; // 换手率（自由流通股）%
+  total_mv: number | null; // 总市值（万元）
+  circ_mv: number | null; // 流通市值（万元）
+}
+
+export interface FinaIndicatorRow {
+  ts_code: string;
+  ann_date: string; // 公告日期
+  end_date: string; // 报告期
+  debt_to_assets: number | null; // 资产负债率 %
+}
+
+export interface MinuteBar {
+  trade_time: string; // YYYY-MM-DD HH:mm:ss
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vol: number;
+}
+
+// 板块指数某日的 1 分钟线
+export interface SectorMinuteSeries {
+  sector: string;
+  trade_date: string;
+  pre_close: number; // 昨收，用于判断水上/水下
+  bars: MinuteBar[]; // 按时间正序
+}
+
+// 板块（概念/行业）指数
+export interface SectorIndexRow {
+  ts_code: string; // 如 885431.TI（同花顺）、BK0475.DC（东财）
+  name: string;
+  source: "ths" | "dc";
+  type: string; // N-概念 I-行业 等，取决于数据源
+}
+
+export interface SectorIndexBar {
+  ts_code: string;
+  trade_date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  pre_close: number | null;
+  pct_chg: number | null;
+  vol: number | null;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  // 交易日历（上交所）
+  tradeCal(startDate: string, endDate: string): Promise<TradeCalRow[]>;
+  // 上市股票基本信息，按 ts_code 或 6 位 symbol 过滤
+  stockBasic(filter?: { tsCode?: string; symbol?: string }): Promise<StockBasicRow[]>;
+  // 日线行情：指定 tradeDate 取单日，或 startDate/endDate 取区间
+  daily(params: {
+    tsCode: string;
+    tradeDate?: string;
+    startDate?: string;
+    endDate?: string;
+  }): Promise<DailyBar[]>;
+  // 每日涨跌停价；数据源不支持时返回空数组
+  stkLimit(tsCode: string, startDate: string, endDate: string): Promise<StkLimitRow[]>;
+  // 每日指标（换手率、市值）
+  dailyBasic(tsCode: string, startDate: string, endDate: string): Promise<DailyBasicRow[]>;
+  // 财务指标：按公告日期 annStartDate ~ annEndDate 过滤
+  finaIndicator(
+    tsCode: string,
+    annStartDate: string,
+    annEndDate: string
+  ): Promise<FinaIndicatorRow[]>;
+  // 板块指数当日 1 分钟线（按板块名称）；没有数据时返回 null，未配置分钟线来源时抛出 Error
+  sectorMinutes(sector: string, tradeDate: string): Promise<SectorMinuteSeries | null>;
+  // 板块指数列表（用于按名称匹配板块）
+  sectorIndices(): Promise<SectorIndexRow[]>;
+  // 板块指数日线，按交易日倒序
+  sectorIndexDaily(tsCode: string, startDate: string, endDate: string): Promise<SectorIndexBar[]>;
+}
+
+let provider: MarketDataProvider | null = null;
+
+export function getMarketDataProvider(): MarketDataProvider {
+  if (provider) return provider;
+  const kind = process.env.MARKET_DATA_PROVIDER || "tushare";
+  if (kind === "fixture") {
+    provider = createFixtureProvider(
+      process.env.MARKET_DATA_FIXTURE_DIR || "fixtures/market-data"
+    );
+  } else if (kind === "tushare") {
+    provider = createTushareProvider({
+      token: process.env.TUSHARE_TOKEN,
+      apiUrl: process.env.TUSHARE_API_URL,
+      sectorMinutesDir: process.env.SECTOR_MINUTES_DIR,
+    });
+  } else {
+    throw new Error(`未知的行情数据源 MARKET_DATA_PROVIDER=${kind}（可选 tushare / fixture）`);
+  }
+  return provider;
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * 本地行情文件读取：与 tushare 字段一致的 CSV 或 JSON（对象数组），
+ * 供 fixture 数据源与本地板块分钟线目录共用
+ */
+
+const NUMERIC_FIELDS = new Set([
+  "is_open",
+  "open",
+  "high",
+  "low",
+  "close",
+  "pre_close",
+  "change",
+  "pct_chg",
+  "vol",
+  "amount",
+  "up_limit",
+  "down_limit",
+  "turnover_rate",
+  "turnover_rate_f",
+  "total_mv",
+  "circ_mv",
+  "debt_to_assets",
+]);
+
+// 解析一行 CSV，支持双引号包裹（含逗号或转义的 ""）
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  cells.push(cur);
+  return cells.map((c) => c.trim());
+}
+
+function parseCsv(text: string): Record<string, string>[] {
+  const lines = text.replace(/^﻿/, "").split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length === 0) return [];
+  const header = splitCsvLine(lines[0]);
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => {
+      row[h] = cells[i] ?? "";
+    });
+    return row;
+  });
+}
+
+// 数值字段转为 number，空值为 null；日期统一为 YYYYMMDD 字符串
+function normalizeRow(raw: Record<string, unknown>): Record<string, any> {
+  const row: Record<string, any> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (NUMERIC_FIELDS.has(key)) {
+      row[key] = value === "" || value === null || value === undefined ? null : Number(value);
+    } else if (key.endsWith("_date")) {
+      row[key] = String(value ?? "").replace(/-/g, "");
+    } else {
+      row[key] = value === null || value === undefined ? "" : String(value);
+    }
+  }
+  return row;
+}
+
+// 读取 root 下的 <name>.json 或 <name>.csv，文件不存在时返回空数组
+export async function readTableFile(root: string, name: string): Promise<Record<string, any>[]> {
+  for (const ext of [".json", ".csv"]) {
+    const file = path.join(root, `${name}${ext}`);
+    let text: string;
+    try {
+      text = await fs.readFile(file, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") continue;
+      throw error;
+    }
+    try {
+      const rows = ext === ".json" ? JSON.parse(text) : parseCsv(text);
+      if (!Array.isArray(rows)) throw new Error("内容不是数组");
+      return rows.map(normalizeRow);
+    } catch (error: any) {
+      throw new Error(`解析行情文件 ${file} 失败: ${error?.message}`);
+    }
+  }
+  return [];
+}
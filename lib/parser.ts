@@ -1,4 +1,4 @@
-import type { SignalRecord } from "./types";
+import type { ScoringRule, SignalRecord } from "./types";
 import { calculateScore } from "./scoring";
 
 /**
@@ -7,10 +7,16 @@ import { calculateScore } from "./scoring";
  * 1. Tab/comma separated table rows
  * 2. Semi-structured text with key=value or key:value
  * 3. JSON arrays
+ *
+ * score/reason are only a preview: the server rescores every record with the
+ * active rule set when saving. Pass that rule set as `rules` (the active entry
+ * from getScoringRuleSets()) so the preview matches; without it the built-in
+ * default rules are used and the score is provisional.
  */
 export function parseSignalText(
   text: string,
-  defaultDate?: string
+  defaultDate?: string,
+  rules?: ScoringRule[]
 ): SignalRecord[] {
   const trimmed = text.trim();
 
@@ -19,7 +25,7 @@ export function parseSignalText(
     try {
       const arr = JSON.parse(trimmed);
       return arr.map((item: Record<string, unknown>) =>
-        normalizeRecord(item, defaultDate)
+        normalizeRecord(item, defaultDate, rules)
       );
     } catch {
       // Fall through to text parsing
@@ -86,7 +92,7 @@ export function parseSignalText(
       raw.chg = extractChg(parts);
     }
 
-    const record = normalizeRecord(raw, defaultDate);
+    const record = normalizeRecord(raw, defaultDate, rules);
     if (record.code || record.name) {
       records.push(record);
     }
@@ -108,7 +114,7 @@ export function parseSignalText(
       }
 
       if (Object.keys(raw).length > 0) {
-        const record = normalizeRecord(raw, defaultDate);
+        const record = normalizeRecord(raw, defaultDate, rules);
         if (record.code || record.name) {
           records.push(record);
         }
@@ -169,7 +175,8 @@ function parseSectorPattern(
 
 function normalizeRecord(
   raw: Record<string, unknown>,
-  defaultDate?: string
+  defaultDate?: string,
+  rules?: ScoringRule[]
 ): SignalRecord {
   const date =
     (raw.date as string) || defaultDate || new Date().toISOString().slice(0, 10);
@@ -197,7 +204,7 @@ function normalizeRecord(
     turnover,
   };
 
-  const { score, reason } = calculateScore(partial);
+  const { score, reason } = calculateScore(partial, rules);
 
   return {
     date,
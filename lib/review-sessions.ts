@@ -0,0 +1,126 @@
+import type { Prisma, ReviewVerdict as ReviewVerdictRow } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { ParsedVerdict } from "./review-verdicts";
+import type {
+  ReviewSession,
+  ReviewSessionStatus,
+  ReviewSessionSummary,
+  ReviewVerdict,
+  ReviewVerdictKind,
+} from "./types";
+
+/**
+ * 复盘智囊生成记录的读写（服务端）
+ * 每次生成都新增一条，重新生成不会覆盖旧记录，便于对比
+ */
+
+const PREVIEW_LENGTH = 80;
+
+function parseIds(raw: string): number[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((id) => Number.isInteger(id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+const SESSION_INCLUDE = {
+  verdicts: { orderBy: { position: "asc" } },
+} satisfies Prisma.ReviewSessionInclude;
+
+type ReviewSessionWithVerdicts = Prisma.ReviewSessionGetPayload<{
+  include: typeof SESSION_INCLUDE;
+}>;
+
+function toReviewVerdict(row: ReviewVerdictRow): ReviewVerdict {
+  return {
+    code: row.code,
+    name: row.name,
+    verdict: row.verdict as ReviewVerdictKind,
+    reason: row.reason,
+    grade:
+      row.gradedAt && row.tradeDate
+        ? {
+            trade_date: row.tradeDate.toISOString().slice(0, 10),
+            next_open: row.nextOpen,
+            next_high: row.nextHigh,
+            next_low: row.nextLow,
+            next_close: row.nextClose,
+            hit: row.hit,
+          }
+        : null,
+  };
+}
+
+export function toReviewSession(row: ReviewSessionWithVerdicts): ReviewSession {
+  return {
+    id: row.id,
+    date: row.date.toISOString().slice(0, 10),
+    model: row.model,
+    recordIds: parseIds(row.recordIds),
+    screenshotIds: parseIds(row.screenshotIds),
+    output: row.output,
+    verdicts: row.verdicts.map(toReviewVerdict),
+    status: row.status as ReviewSessionStatus,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toSummary(row: ReviewSessionWithVerdicts): ReviewSessionSummary {
+  const { output, verdicts, ...rest } = toReviewSession(row);
+  const text = output.replace(/\s+/g, " ").trim();
+  return {
+    ...rest,
+    verdictCount: verdicts.length,
+    preview: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text,
+  };
+}
+
+export async function createReviewSession(input: {
+  date: string;
+  model: string;
+  recordIds: number[];
+  screenshotIds: number[];
+  output: string;
+  verdicts: ParsedVerdict[];
+  status?: ReviewSessionStatus;
+}): Promise<ReviewSession> {
+  const row = await prisma.reviewSession.create({
+    data: {
+      date: new Date(input.date),
+      model: input.model,
+      recordIds: JSON.stringify(input.recordIds),
+      screenshotIds: JSON.stringify(input.screenshotIds),
+      output: input.output,
+      status: input.status ?? "complete",
+      verdicts: {
+        create: input.verdicts.map((v, position) => ({ position, ...v })),
+      },
+    },
+    include: SESSION_INCLUDE,
+  });
+  return toReviewSession(row);
+}
+
+/**
+ * 生成记录列表（新的在前），可按日期筛选
+ */
+export async function listReviewSessions(filter: {
+  date?: string;
+  limit?: number;
+}): Promise<ReviewSessionSummary[]> {
+  const rows = await prisma.reviewSession.findMany({
+    where: { date: filter.date ? new Date(filter.date) : undefined },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: filter.limit,
+    include: SESSION_INCLUDE,
+  });
+  return rows.map(toSummary);
+}
+
+// 单条生成记录，不存在时返回 null
+export async function getReviewSession(id: number): Promise<ReviewSession | null> {
+  const row = await prisma.reviewSession.findUnique({ where: { id }, include: SESSION_INCLUDE });
+  return row ? toReviewSession(row) : null;
+}
@@ -0,0 +1,272 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { computeForwardReturn } from "./forward-returns";
+import {
+  codeToTsCode,
+  getDailyRange,
+  mapWithConcurrency,
+  TUSHARE_CONCURRENCY,
+  type DailyRow,
+} from "./tushare";
+import type { ReviewHitStat, ReviewVerdict, ReviewVerdictKind } from "./types";
+
+/**
+ * 复盘智囊结构化结论：解析模型输出的 JSON，并以复盘日收盘价为基准用次一交易日行情评估
+ *   优先：次日收涨为命中
+ *   回避：次日收跌为命中
+ *   观察：只记录次日表现，不计入命中率
+ */
+
+export const VERDICT_KINDS: ReviewVerdictKind[] = ["优先", "观察", "回避"];
+const MAX_REASON_LENGTH = 500;
+
+export type ParsedVerdict = Omit<ReviewVerdict, "grade">;
+
+// 校验并规范化模型给出的结论条目
+function toParsedVerdicts(items: any[]): ParsedVerdict[] {
+  const seen = new Set<string>();
+  const verdicts: ParsedVerdict[] = [];
+  for (const item of items) {
+    const code = String(item?.code ?? "").replace(/\.(SH|SZ|BJ)$/i, "").replace(/\D/g, "");
+    const verdict = String(item?.verdict ?? "").trim() as ReviewVerdictKind;
+    if (code.length !== 6 || !VERDICT_KINDS.includes(verdict) || seen.has(code)) continue;
+    seen.add(code);
+    verdicts.push({
+      code,
+      name: typeof item.name === "string" && item.name.trim() ? item.name.trim().slice(0, 32) : null,
+      verdict,
+      reason: String(item.reason ?? "").trim().slice(0, MAX_REASON_LENGTH),
+    });
+  }
+  return verdicts;
+}
+
+/**
+ * 解析模型输出：{ summary: string, verdicts: { code, name, verdict, reason }[] }
+ * 允许包在 ```json 代码块中；不是合法 JSON 或结构不符时返回 null
+ * 代码不是 6 位数字或结论不在三类之内的条目会被丢弃，同一代码只保留第一条
+ */
+export function parseReviewOutput(
+  content: string
+): { summary: string; verdicts: ParsedVerdict[] } | null {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.verdicts)) return null;
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    verdicts: toParsedVerdicts(parsed.verdicts),
+  };
+}
+
+/**
+ * 从被截断的输出中尽量取回内容：summary 取已输出的部分，verdicts 只取已完整输出的条目
+ * 什么都取不到时返回 null
+ */
+export function parsePartialReviewOutput(
+  content: string
+): { summary: string; verdicts: ParsedVerdict[] } | null {
+  const complete = parseReviewOutput(content);
+  if (complete) return complete;
+
+  let summary = "";
+  const summaryMatch = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(content);
+  if (summaryMatch) {
+    try {
+      summary = JSON.parse(`"${summaryMatch[1].replace(/\\$/, "")}"`);
+    } catch {
+      summary = summaryMatch[1];
+    }
+  }
+
+  const items: any[] = [];
+  const verdictsStart = content.indexOf('"verdicts"');
+  if (verdictsStart >= 0) {
+    for (const match of content.slice(verdictsStart).match(/\{[^{}]*\}/g) ?? []) {
+      try {
+        items.push(JSON.parse(match));
+      } catch {
+        // 不完整的条目
+      }
+    }
+  }
+  const verdicts = toParsedVerdicts(items);
+  return summary || verdicts.length > 0 ? { summary: summary.trim(), verdicts } : null;
+}
+
+/**
+ * 由日线计算结论的次日表现；还没有次一交易日行情时返回 null
+ */
+export function gradeVerdict(
+  rows: DailyRow[],
+  date: string,
+  verdict: ReviewVerdictKind
+): NonNullable<ReviewVerdict["grade"]> | null {
+  const forward = computeForwardReturn(rows, date);
+  if (!forward || forward.days === 0 || forward.ret1 === null) return null;
+  const ymd = date.replace(/-/g, "");
+  const next = rows
+    .filter((r) => r.trade_date > ymd)
+    .sort((a, b) => a.trade_date.localeCompare(b.trade_date))[0];
+  const close = forward.ret1;
+  return {
+    trade_date: `${next.trade_date.slice(0, 4)}-${next.trade_date.slice(4, 6)}-${next.trade_date.slice(6, 8)}`,
+    next_open: forward.nextOpen,
+    next_high: forward.maxHigh1,
+    next_low: forward.maxDrawdown1,
+    next_close: close,
+    hit: verdict === "优先" ? close > 0 : verdict === "回避" ? close < 0 : null,
+  };
+}
+
+/**
+ * 评估尚未评估的结论（复盘日早于今天），每只股票只请求一次日线
+ * 评估失败的结论记下时间，当天不再重试，避免同一批评估不了的结论占满每一批
+ * 单次最多处理 maxCodes 只股票，返回 { graded, failed, remaining, skipped }
+ *   failed   : 本次暂无次一交易日行情或代码错误的结论数，明天再试
+ *   remaining: 本次未处理的待评估结论数
+ *   skipped  : 今天已评估失败而跳过的结论数
+ */
+export async function gradeReviewVerdicts(maxCodes = 50): Promise<{
+  graded: number;
+  failed: number;
+  remaining: number;
+  skipped: number;
+}> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const dueWhere = { gradedAt: null, session: { date: { lt: today } } };
+  const pending = await prisma.reviewVerdict.findMany({
+    where: {
+      ...dueWhere,
+      OR: [{ gradeFailedAt: null }, { gradeFailedAt: { lt: today } }],
+    },
+    select: { id: true, code: true, verdict: true, session: { select: { date: true } } },
+    orderBy: { id: "asc" },
+  });
+
+  const byCode = new Map<string, { id: number; date: string; verdict: ReviewVerdictKind }[]>();
+  for (const v of pending) {
+    if (!byCode.has(v.code) && byCode.size >= maxCodes) continue;
+    if (!byCode.has(v.code)) byCode.set(v.code, []);
+    byCode.get(v.code)!.push({
+      id: v.id,
+      date: v.session.date.toISOString().slice(0, 10),
+      verdict: v.verdict as ReviewVerdictKind,
+    });
+  }
+
+  const fmt = (d: Date) =>
+    `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+
+  const results = await mapWithConcurrency(
+    Array.from(byCode.entries()),
+    TUSHARE_CONCURRENCY,
+    async ([code, verdicts]) => {
+      const tsCode = codeToTsCode(code);
+      if (!tsCode) return verdicts.map((v) => ({ id: v.id, grade: null }));
+      const dates = verdicts.map((v) => v.date).sort();
+      // 往前多取 15 天找复盘日收盘价，往后多取 15 天覆盖长假后的次一交易日
+      const start = new Date(dates[0]);
+      start.setDate(start.getDate() - 15);
+      const end = new Date(dates[dates.length - 1]);
+      end.setDate(end.getDate() + 15);
+      try {
+        const rows = (await getDailyRange(tsCode, fmt(start), fmt(end))) || [];
+        return verdicts.map((v) => ({ id: v.id, grade: gradeVerdict(rows, v.date, v.verdict) }));
+      } catch (error) {
+        console.error(`gradeReviewVerdicts [${code}] error:`, error);
+        return verdicts.map((v) => ({ id: v.id, grade: null }));
+      }
+    }
+  );
+
+  const computed = results.flat();
+  const ok = computed.filter(
+    (c): c is { id: number; grade: NonNullable<ReviewVerdict["grade"]> } => c.grade !== null
+  );
+  const failedIds = computed.filter((c) => c.grade === null).map((c) => c.id);
+  const now = new Date();
+  await prisma.$transaction([
+    ...ok.map(({ id, grade }) =>
+      prisma.reviewVerdict.update({
+        where: { id },
+        data: {
+          tradeDate: new Date(grade.trade_date),
+          nextOpen: grade.next_open,
+          nextHigh: grade.next_high,
+          nextLow: grade.next_low,
+          nextClose: grade.next_close,
+          hit: grade.hit,
+          gradedAt: now,
+          gradeFailedAt: null,
+        },
+      })
+    ),
+    prisma.reviewVerdict.updateMany({
+      where: { id: { in: failedIds } },
+      data: { gradeFailedAt: now },
+    }),
+  ]);
+
+  return {
+    graded: ok.length,
+    failed: failedIds.length,
+    remaining: pending.length - computed.length,
+    skipped: await prisma.reviewVerdict.count({
+      where: { ...dueWhere, gradeFailedAt: { gte: today } },
+    }),
+  };
+}
+
+function toNum(v: unknown): number | null {
+  return v === null || v === undefined ? null : Math.round(Number(v) * 100) / 100;
+}
+
+/**
+ * 按结论分组的命中率；同一日期多次生成时只统计最近一次（有结构化结论的）生成
+ * 可按复盘日期范围过滤
+ */
+export async function getReviewHitStats(options: {
+  from?: string; // YYYY-MM-DD（含）
+  to?: string; // YYYY-MM-DD（含）
+} = {}): Promise<ReviewHitStat[]> {
+  const conditions: Prisma.Sql[] = [];
+  if (options.from) conditions.push(Prisma.sql`s.date >= ${new Date(options.from)}`);
+  if (options.to) conditions.push(Prisma.sql`s.date <= ${new Date(options.to)}`);
+  const where = conditions.length
+    ? Prisma.sql`AND ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+    SELECT v.verdict AS verdict, COUNT(*) AS count,
+           COUNT(v.graded_at) AS graded,
+           SUM(CASE WHEN v.hit = 1 THEN 1 ELSE 0 END) AS hits,
+           AVG(CASE WHEN v.hit IS NULL THEN NULL WHEN v.hit = 1 THEN 100 ELSE 0 END) AS hitRate,
+           AVG(v.next_close) AS avgNextClose
+    FROM review_verdicts v
+    JOIN review_sessions s ON s.id = v.session_id
+    WHERE s.id IN (
+      SELECT MAX(s2.id) FROM review_sessions s2
+      WHERE EXISTS (SELECT 1 FROM review_verdicts v2 WHERE v2.session_id = s2.id)
+      GROUP BY s2.date
+    ) ${where}
+    GROUP BY v.verdict
+  `;
+
+  return VERDICT_KINDS.map((verdict) => {
+    const row = rows.find((r) => r.verdict === verdict);
+    return {
+      verdict,
+      count: Number(row?.count ?? 0),
+      graded: Number(row?.graded ?? 0),
+      hits: Number(row?.hits ?? 0),
+      hit_rate: verdict === "观察" ? null : toNum(row?.hitRate),
+      avg_next_close: toNum(row?.avgNextClose),
+    };
+  });
+}
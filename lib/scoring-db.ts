@@ -0,0 +1,154 @@
+import type { ScoringRuleSet as ScoringRuleSetRow } from "@prisma/client";
+import { prisma } from "./prisma";
+import { calculateScore, DEFAULT_SCORING_RULES } from "./scoring";
+import { parseSectorPattern } from "./signal-db";
+import type { ScoringRule, ScoringRuleSet, SignalRecord } from "./types";
+
+/**
+ * 评分规则集的读写与按规则评分（服务端）
+ * 规则集只增不改：保存即生成新版本并设为生效，旧版本可重新启用
+ */
+
+export function toScoringRuleSet(row: ScoringRuleSetRow): ScoringRuleSet {
+  let rules: ScoringRule[] = [];
+  try {
+    const parsed = JSON.parse(row.rules);
+    rules = Array.isArray(parsed) ? parsed : [];
+  } catch (parseError) {
+    console.warn(`解析评分规则 v${row.version} 失败:`, parseError);
+  }
+  return {
+    version: row.version,
+    name: row.name,
+    rules,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// 当前生效的规则；数据库中没有规则集时退回默认规则（version 为 null）
+export async function getActiveRuleSet(): Promise<{
+  version: number | null;
+  rules: ScoringRule[];
+}> {
+  const row = await prisma.scoringRuleSet.findFirst({
+    where: { active: true },
+    orderBy: { version: "desc" },
+  });
+  if (!row) return { version: null, rules: DEFAULT_SCORING_RULES };
+  const { version, rules } = toScoringRuleSet(row);
+  return { version, rules };
+}
+
+// 按规则集重新计算 score / reason，并记录所用版本
+export function scoreRecord(
+  record: SignalRecord,
+  ruleSet: { version: number | null; rules: ScoringRule[] }
+): SignalRecord {
+  const { score, reason } = calculateScore(record, ruleSet.rules);
+  return { ...record, score, reason, rule_set_version: ruleSet.version };
+}
+
+const CREATE_RETRIES = 3;
+
+/**
+ * 保存为新版本并设为生效
+ * 同时保存时版本号可能冲突（唯一约束），冲突后重试，仍失败时返回 null
+ */
+export async function createRuleSet(
+  name: string,
+  rules: ScoringRule[]
+): Promise<ScoringRuleSet | null> {
+  for (let attempt = 0; attempt < CREATE_RETRIES; attempt++) {
+    try {
+      const row = await prisma.$transaction(async (tx) => {
+        const latest = await tx.scoringRuleSet.findFirst({ orderBy: { version: "desc" } });
+        await tx.scoringRuleSet.updateMany({ where: { active: true }, data: { active: false } });
+        return tx.scoringRuleSet.create({
+          data: {
+            version: (latest?.version ?? 0) + 1,
+            name,
+            rules: JSON.stringify(rules),
+            active: true,
+          },
+        });
+      });
+      return toScoringRuleSet(row);
+    } catch (error: any) {
+      if (error?.code !== "P2002") throw error;
+    }
+  }
+  return null;
+}
+
+// 重新启用某个历史版本，不存在时返回 null
+export async function activateRuleSet(version: number): Promise<ScoringRuleSet | null> {
+  const row = await prisma.$transaction(async (tx) => {
+    const target = await tx.scoringRuleSet.findUnique({ where: { version } });
+    if (!target) return null;
+    await tx.scoringRuleSet.updateMany({ where: { active: true }, data: { active: false } });
+    return tx.scoringRuleSet.update({ where: { version }, data: { active: true } });
+  });
+  return row ? toScoringRuleSet(row) : null;
+}
+
+const RESCORE_BATCH_SIZE = 200;
+
+/**
+ * 用当前生效规则重新评分全部记录（只更新 score / reason / 规则版本）
+ * 返回 { updated: 实际有变化的条数, total: 记录总数 }
+ */
+export async function rescoreAllRecords(): Promise<{
+  version: number | null;
+  updated: number;
+  total: number;
+}> {
+  const ruleSet = await getActiveRuleSet();
+  const rows = await prisma.signalRecord.findMany({
+    select: {
+      id: true,
+      sectorPattern: true,
+      turnover: true,
+      chg: true,
+      amount: true,
+      debtRatio: true,
+      score: true,
+      reason: true,
+      ruleSetVersion: true,
+    },
+  });
+
+  const changes = rows
+    .map((row) => {
+      const { score, reason } = calculateScore(
+        {
+          sector_pattern: parseSectorPattern(row.sectorPattern),
+          turnover: row.turnover,
+          chg: row.chg,
+          amount: row.amount,
+          debt_ratio: row.debtRatio,
+        },
+        ruleSet.rules
+      );
+      return { id: row.id, score, reason: JSON.stringify(reason), old: row };
+    })
+    .filter(
+      (c) =>
+        c.score !== c.old.score ||
+        c.reason !== c.old.reason ||
+        ruleSet.version !== c.old.ruleSetVersion
+    );
+
+  for (let i = 0; i < changes.length; i += RESCORE_BATCH_SIZE) {
+    await prisma.$transaction(
+      changes.slice(i, i + RESCORE_BATCH_SIZE).map((c) =>
+        prisma.signalRecord.update({
+          where: { id: c.id },
+          data: { score: c.score, reason: c.reason, ruleSetVersion: ruleSet.version },
+        })
+      )
+    );
+  }
+
+  return { version: ruleSet.version, updated: changes.length, total: rows.length };
+}
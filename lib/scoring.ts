@@ -1,37 +1,133 @@
-import type { SignalRecord } from "./types";
+import type {
+  SignalRecord,
+  ScoringCondition,
+  ScoringField,
+  ScoringOperator,
+  ScoringRule,
+} from "./types";
 
-export function calculateScore(record: Partial<SignalRecord>): {
+export const SCORING_FIELDS: Record<ScoringField, string> = {
+  sector_pattern: "板块分时",
+  turnover: "换手率%",
+  chg: "涨跌幅%",
+  amount: "市值(亿)",
+  debt_ratio: "资产负债率%",
+};
+
+export const SCORING_OPERATORS: Record<ScoringOperator, string> = {
+  eq: "等于",
+  neq: "不等于",
+  gte: "≥",
+  gt: ">",
+  lte: "≤",
+  lt: "<",
+  missing: "为空",
+  present: "不为空",
+};
+
+/**
+ * 默认规则（与最初写死的评分逻辑一致）：
+ * 板块分时 水下拉水上 +30 / 波动三角收窄 +20；换手率 ≥8% +30 / ≥5% +20 / ≥3% +10
+ * 数据库中没有规则集时使用
+ */
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  {
+    label: "板块分时：水下拉水上",
+    points: 30,
+    group: "sector_pattern",
+    conditions: [{ field: "sector_pattern", op: "eq", value: "水下拉水上" }],
+  },
+  {
+    label: "板块分时：波动三角收窄",
+    points: 20,
+    group: "sector_pattern",
+    conditions: [{ field: "sector_pattern", op: "eq", value: "波动三角收窄" }],
+  },
+  {
+    label: "板块分时信息缺失",
+    points: 0,
+    group: "sector_pattern",
+    conditions: [{ field: "sector_pattern", op: "missing" }],
+  },
+  {
+    label: "换手率{turnover}% >= 8%",
+    points: 30,
+    group: "turnover",
+    conditions: [{ field: "turnover", op: "gte", value: 8 }],
+  },
+  {
+    label: "换手率{turnover}% >= 5%",
+    points: 20,
+    group: "turnover",
+    conditions: [{ field: "turnover", op: "gte", value: 5 }],
+  },
+  {
+    label: "换手率{turnover}% >= 3%",
+    points: 10,
+    group: "turnover",
+    conditions: [{ field: "turnover", op: "gte", value: 3 }],
+  },
+  {
+    label: "换手率信息缺失",
+    points: 0,
+    group: "turnover",
+    conditions: [{ field: "turnover", op: "missing" }],
+  },
+];
+
+function matchCondition(record: Partial<SignalRecord>, c: ScoringCondition): boolean {
+  const value = record[c.field];
+  const empty = value === null || value === undefined;
+  switch (c.op) {
+    case "missing":
+      return empty;
+    case "present":
+      return !empty;
+    case "eq":
+      return !empty && String(value) === String(c.value);
+    case "neq":
+      return empty || String(value) !== String(c.value);
+  }
+  if (empty || typeof value !== "number") return false;
+  const target = Number(c.value);
+  switch (c.op) {
+    case "gte":
+      return value >= target;
+    case "gt":
+      return value > target;
+    case "lte":
+      return value <= target;
+    case "lt":
+      return value < target;
+  }
+}
+
+// 评分原因：替换 {字段名} 占位，非零分值追加 +N / -N
+function formatReason(rule: ScoringRule, record: Partial<SignalRecord>): string {
+  const label = rule.label.replace(/\{(\w+)\}/g, (m, field: string) =>
+    field in SCORING_FIELDS ? String(record[field as ScoringField] ?? "") : m
+  );
+  if (rule.points === 0) return label;
+  return `${label} ${rule.points > 0 ? "+" : ""}${rule.points}`;
+}
+
+export function calculateScore(
+  record: Partial<SignalRecord>,
+  rules: ScoringRule[] = DEFAULT_SCORING_RULES
+): {
   score: number;
   reason: string[];
 } {
   let score = 0;
   const reasons: string[] = [];
+  const matchedGroups = new Set<string>();
 
-  // Base: sector_pattern
-  if (record.sector_pattern === "水下拉水上") {
-    score += 30;
-    reasons.push("板块分时：水下拉水上 +30");
-  } else if (record.sector_pattern === "波动三角收窄") {
-    score += 20;
-    reasons.push("板块分时：波动三角收窄 +20");
-  } else if (record.sector_pattern === null || record.sector_pattern === undefined) {
-    reasons.push("板块分时信息缺失");
-  }
-
-  // Turnover scoring
-  if (record.turnover != null) {
-    if (record.turnover >= 8) {
-      score += 30;
-      reasons.push(`换手率${record.turnover}% >= 8% +30`);
-    } else if (record.turnover >= 5) {
-      score += 20;
-      reasons.push(`换手率${record.turnover}% >= 5% +20`);
-    } else if (record.turnover >= 3) {
-      score += 10;
-      reasons.push(`换手率${record.turnover}% >= 3% +10`);
-    }
-  } else {
-    reasons.push("换手率信息缺失");
+  for (const rule of rules) {
+    if (rule.group && matchedGroups.has(rule.group)) continue;
+    if (!rule.conditions.every((c) => matchCondition(record, c))) continue;
+    if (rule.group) matchedGroups.add(rule.group);
+    score += rule.points;
+    reasons.push(formatReason(rule, record));
   }
 
   // Clamp
@@ -43,3 +139,50 @@ export function calculateScore(record: Partial<SignalRecord>): {
 
   return { score, reason: reasons };
 }
+
+/**
+ * 校验外部传入的规则列表（设置页保存时），返回规范化后的规则
+ * 格式不正确时抛出带中文说明的 Error
+ */
+export function validateScoringRules(raw: unknown): ScoringRule[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("规则列表不能为空");
+  }
+  return raw.map((r: any, i) => {
+    const n = i + 1;
+    if (!r || typeof r !== "object") throw new Error(`第 ${n} 条规则格式错误`);
+    const label = typeof r.label === "string" ? r.label.trim() : "";
+    if (!label) throw new Error(`第 ${n} 条规则缺少说明文案`);
+    const points = Number(r.points);
+    if (!Number.isFinite(points) || !Number.isInteger(points) || Math.abs(points) > 100) {
+      throw new Error(`第 ${n} 条规则分值必须是 -100 ~ 100 的整数`);
+    }
+    if (!Array.isArray(r.conditions) || r.conditions.length === 0) {
+      throw new Error(`第 ${n} 条规则至少需要一个条件`);
+    }
+    const conditions: ScoringCondition[] = r.conditions.map((c: any) => {
+      if (!c || !(c.field in SCORING_FIELDS)) {
+        throw new Error(`第 ${n} 条规则包含未知字段: ${c?.field}`);
+      }
+      if (!(c.op in SCORING_OPERATORS)) {
+        throw new Error(`第 ${n} 条规则包含未知运算: ${c?.op}`);
+      }
+      if (c.op === "missing" || c.op === "present") {
+        return { field: c.field, op: c.op };
+      }
+      if (["gte", "gt", "lte", "lt"].includes(c.op)) {
+        const value = Number(c.value);
+        if (c.value === "" || c.value == null || !Number.isFinite(value)) {
+          throw new Error(`第 ${n} 条规则的 ${SCORING_FIELDS[c.field as ScoringField]} 比较值必须是数字`);
+        }
+        return { field: c.field, op: c.op, value };
+      }
+      if (c.value === "" || c.value == null) {
+        throw new Error(`第 ${n} 条规则的 ${SCORING_FIELDS[c.field as ScoringField]} 缺少比较值`);
+      }
+      return { field: c.field, op: c.op, value: c.value };
+    });
+    const group = typeof r.group === "string" && r.group.trim() ? r.group.trim() : null;
+    return { label, points, conditions, group };
+  });
+}
@@ -0,0 +1,73 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { SIGNAL_INCLUDE, toSignalRecord } from "./signal-db";
+import { getSectorMarkets } from "./sector-index";
+import type { SectorStat } from "./types";
+
+/**
+ * 板块统计（数据库聚合）
+ *  - count    : 板块出现的日期数（同一天多只个股只算一次）
+ *  - avgScore : 该板块下所有记录的平均分
+ *  - topRecords : 评分最高的 3 条记录
+ *  - market   : 对应板块指数截至 to（默认今天）的涨跌幅、5 日动量与近 20 日K线
+ */
+export async function getSectorStats(options: {
+  from?: string; // YYYY-MM-DD（含）
+  to?: string; // YYYY-MM-DD（含）
+  limit?: number;
+} = {}): Promise<SectorStat[]> {
+  const { from, to, limit } = options;
+  const conditions: Prisma.Sql[] = [];
+  if (from) conditions.push(Prisma.sql`r.date >= ${new Date(from)}`);
+  if (to) conditions.push(Prisma.sql`r.date <= ${new Date(to)}`);
+  const where = conditions.length
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<
+    { sectorId: number; sector: string; count: bigint; avgScore: number | null }[]
+  >`
+    SELECT s.id AS sectorId, s.name AS sector,
+           COUNT(DISTINCT r.date) AS count, AVG(r.score) AS avgScore
+    FROM sectors s
+    JOIN signal_sectors ss ON ss.sector_id = s.id
+    JOIN signal_records r ON r.id = ss.signal_id
+    ${where}
+    GROUP BY s.id, s.name
+    ORDER BY count DESC, s.name ASC
+    ${limit ? Prisma.sql`LIMIT ${limit}` : Prisma.empty}
+  `;
+
+  const dateFilter: Prisma.SignalRecordWhereInput =
+    from || to
+      ? {
+          date: {
+            gte: from ? new Date(from) : undefined,
+            lte: to ? new Date(to) : undefined,
+          },
+        }
+      : {};
+
+  const markets = await getSectorMarkets(
+    rows.map((r) => r.sector),
+    to
+  );
+
+  return Promise.all(
+    rows.map(async (row) => {
+      const top = await prisma.signalRecord.findMany({
+        where: { ...dateFilter, sectors: { some: { sectorId: row.sectorId } } },
+        orderBy: [{ score: "desc" }, { date: "desc" }],
+        take: 3,
+        include: SIGNAL_INCLUDE,
+      });
+      return {
+        sector: row.sector,
+        count: Number(row.count),
+        topRecords: top.map(toSignalRecord),
+        avgScore: Math.round(Number(row.avgScore ?? 0)),
+        market: markets[row.sector] ?? null,
+      };
+    })
+  );
+}
@@ -0,0 +1,245 @@
+import { prisma } from "./prisma";
+import { getMarketDataProvider } from "./market-data";
+import type { SectorIndexRow } from "./market-data";
+import { mapWithConcurrency, TUSHARE_CONCURRENCY } from "./tushare";
+import type { SectorMarket } from "./types";
+
+/**
+ * 板块指数：把录入的板块名称映射到同花顺/东财板块指数，并把指数日线存入 sector_index_daily，
+ * 板块统计与历史面板只读本地表，不在请求中访问行情接口
+ */
+
+// 首次同步或新映射的指数回补的自然日数
+const INITIAL_SYNC_DAYS = 60;
+// 迷你K线展示的交易日数
+const MARKET_BARS = 20;
+const MOMENTUM_DAYS = 5;
+
+const fmtYmd = (d: Date) =>
+  `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+const ymdToDate = (ymd: string) => new Date(`${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}`);
+
+// 指数列表变动很少，缓存一天
+const INDEX_CACHE_TTL = 24 * 60 * 60 * 1000;
+let indexCache: { rows: SectorIndexRow[]; at: number } | null = null;
+
+async function loadSectorIndices(): Promise<SectorIndexRow[]> {
+  if (indexCache && Date.now() - indexCache.at < INDEX_CACHE_TTL) return indexCache.rows;
+  const rows = await getMarketDataProvider().sectorIndices();
+  indexCache = { rows, at: Date.now() };
+  return rows;
+}
+
+// 去掉常见后缀，如「锂电池概念」「银行板块」「半导体指数」
+function normalizeName(name: string): string {
+  return name.replace(/\s+/g, "").replace(/(概念股?|板块|行业|指数)$/, "").toUpperCase();
+}
+
+/**
+ * 按名称匹配板块指数：完全相同 > 去后缀后相同 > 互相包含（名称长度最接近者）
+ * 同等条件下概念指数优先
+ */
+export function matchSectorIndex(
+  sector: string,
+  indices: SectorIndexRow[]
+): SectorIndexRow | null {
+  const target = normalizeName(sector);
+  if (!target) return null;
+  const rank = (r: SectorIndexRow) => (r.type === "N" ? 0 : 1);
+  const pick = (list: SectorIndexRow[]) =>
+    list.sort((a, b) => rank(a) - rank(b) || a.name.length - b.name.length)[0] ?? null;
+
+  const exact = indices.filter((r) => r.name === sector);
+  if (exact.length) return pick(exact);
+  const normalized = indices.filter((r) => normalizeName(r.name) === target);
+  if (normalized.length) return pick(normalized);
+  if (target.length < 2) return null;
+  const partial = indices.filter((r) => {
+    const n = normalizeName(r.name);
+    return n.length >= 2 && (n.includes(target) || target.includes(n));
+  });
+  return (
+    partial.sort(
+      (a, b) =>
+        Math.abs(a.name.length - sector.length) - Math.abs(b.name.length - sector.length) ||
+        rank(a) - rank(b)
+    )[0] ?? null
+  );
+}
+
+/**
+ * 为关联过信号的板块自动匹配指数；默认只处理尚未映射的板块，refresh 时重新匹配（手动映射除外）
+ */
+export async function syncSectorIndexMapping(refresh = false): Promise<{
+  matched: number;
+  unmatched: string[];
+}> {
+  const sectors = await prisma.sector.findMany({
+    where: {
+      signals: { some: {} },
+      indexManual: false,
+      ...(refresh ? {} : { indexCode: null }),
+    },
+    select: { id: true, name: true },
+  });
+  if (sectors.length === 0) return { matched: 0, unmatched: [] };
+
+  const indices = await loadSectorIndices();
+  const unmatched: string[] = [];
+  let matched = 0;
+  for (const sector of sectors) {
+    const index = matchSectorIndex(sector.name, indices);
+    if (!index) {
+      unmatched.push(sector.name);
+      continue;
+    }
+    await prisma.sector.update({
+      where: { id: sector.id },
+      data: { indexCode: index.ts_code, indexName: index.name, indexSource: index.source },
+    });
+    matched++;
+  }
+  return { matched, unmatched };
+}
+
+// 按代码查找板块指数（用于校验手动指定的映射）
+export async function findSectorIndex(indexCode: string): Promise<SectorIndexRow | null> {
+  return (await loadSectorIndices()).find((r) => r.ts_code === indexCode) ?? null;
+}
+
+/**
+ * 手动指定板块对应的指数；index 为 null 时清除映射并恢复自动匹配
+ * 板块不存在时返回 null
+ */
+export async function setSectorIndexMapping(sector: string, index: SectorIndexRow | null) {
+  const existing = await prisma.sector.findUnique({ where: { name: sector } });
+  if (!existing) return null;
+
+  return prisma.sector.update({
+    where: { id: existing.id },
+    data: index
+      ? {
+          indexCode: index.ts_code,
+          indexName: index.name,
+          indexSource: index.source,
+          indexManual: true,
+        }
+      : { indexCode: null, indexName: null, indexSource: null, indexManual: false },
+  });
+}
+
+/**
+ * 拉取已映射指数的日线：从本地最新一根之后补到今天，新指数回补 INITIAL_SYNC_DAYS 天
+ */
+export async function syncSectorIndexDaily(): Promise<{
+  indices: number;
+  inserted: number;
+  failed: string[];
+}> {
+  const mapped = await prisma.sector.findMany({
+    where: { indexCode: { not: null } },
+    select: { indexCode: true },
+    distinct: ["indexCode"],
+  });
+  const codes = mapped.map((s) => s.indexCode!);
+  const latest = await prisma.sectorIndexDaily.groupBy({
+    by: ["tsCode"],
+    where: { tsCode: { in: codes } },
+    _max: { tradeDate: true },
+  });
+  const latestMap = new Map(latest.map((l) => [l.tsCode, l._max.tradeDate]));
+
+  const today = new Date();
+  const initialStart = new Date(today);
+  initialStart.setDate(initialStart.getDate() - INITIAL_SYNC_DAYS);
+
+  const failed: string[] = [];
+  const counts = await mapWithConcurrency(codes, TUSHARE_CONCURRENCY, async (code) => {
+    const last = latestMap.get(code);
+    const start = last ? new Date(last.getTime() + 24 * 60 * 60 * 1000) : initialStart;
+    if (fmtYmd(start) > fmtYmd(today)) return 0;
+    try {
+      const bars = await getMarketDataProvider().sectorIndexDaily(code, fmtYmd(start), fmtYmd(today));
+      const result = await prisma.sectorIndexDaily.createMany({
+        data: bars.map((b) => ({
+          tsCode: code,
+          tradeDate: ymdToDate(b.trade_date),
+          open: b.open,
+          high: b.high,
+          low: b.low,
+          close: b.close,
+          preClose: b.pre_close,
+          pctChg: b.pct_chg,
+          vol: b.vol,
+        })),
+        skipDuplicates: true,
+      });
+      return result.count;
+    } catch (error) {
+      console.error(`syncSectorIndexDaily [${code}] error:`, error);
+      failed.push(code);
+      return 0;
+    }
+  });
+
+  return {
+    indices: codes.length,
+    inserted: counts.reduce((a, b) => a + b, 0),
+    failed,
+  };
+}
+
+/**
+ * 读取板块在 asOf（含，YYYY-MM-DD，默认今天）之前最近的指数行情摘要
+ * 返回以板块名称为 key 的 map；未映射或本地没有日线的板块为 null
+ */
+export async function getSectorMarkets(
+  names: string[],
+  asOf?: string
+): Promise<Record<string, SectorMarket | null>> {
+  const result: Record<string, SectorMarket | null> = {};
+  for (const name of names) result[name] = null;
+  if (names.length === 0) return result;
+
+  const sectors = await prisma.sector.findMany({
+    where: { name: { in: names }, indexCode: { not: null } },
+    select: { name: true, indexCode: true, indexName: true },
+  });
+  if (sectors.length === 0) return result;
+
+  const end = asOf ? new Date(asOf) : new Date();
+  // 20 个交易日约 30 个自然日，多取一些覆盖长假
+  const start = new Date(end);
+  start.setDate(start.getDate() - 45);
+  const bars = await prisma.sectorIndexDaily.findMany({
+    where: {
+      tsCode: { in: sectors.map((s) => s.indexCode!) },
+      tradeDate: { gte: start, lte: end },
+    },
+    orderBy: { tradeDate: "asc" },
+  });
+
+  for (const sector of sectors) {
+    const series = bars.filter((b) => b.tsCode === sector.indexCode).slice(-MARKET_BARS);
+    const last = series[series.length - 1];
+    if (!last) continue;
+    const base = series[series.length - 1 - MOMENTUM_DAYS];
+    result[sector.name] = {
+      indexCode: sector.indexCode!,
+      indexName: sector.indexName ?? sector.indexCode!,
+      tradeDate: last.tradeDate.toISOString().slice(0, 10),
+      pctChg:
+        last.pctChg ??
+        (last.preClose ? Math.round((last.close / last.preClose - 1) * 10000) / 100 : null),
+      momentum5: base ? Math.round((last.close / base.close - 1) * 10000) / 100 : null,
+      bars: series.map((b) => ({
+        date: b.tradeDate.toISOString().slice(0, 10),
+        open: b.open,
+        high: b.high,
+        low: b.low,
+        close: b.close,
+      })),
+    };
+  }
+  return result;
+}
@@ -0,0 +1,30 @@
+import path from "path";
+import type { MinuteBar, SectorMinuteSeries } from "./market-data";
+import { readTableFile } from "./market-files";
+
+/**
+ * 读取本地板块分钟线目录 <dir>/<trade_date>/<板块名>.csv（或 .json），与数据源无关
+ * 昨收取自文件中的 pre_close 列（各行相同，取第一条非空值）；没有数据时返回 null
+ */
+export async function readSectorMinutesDir(
+  dir: string,
+  sector: string,
+  tradeDate: string
+): Promise<SectorMinuteSeries | null> {
+  if (/[\\/]|\.\./.test(sector)) return null;
+  const rows = await readTableFile(path.resolve(process.cwd(), dir), `${tradeDate}/${sector}`);
+  const preClose = rows.find((r) => r.pre_close != null)?.pre_close;
+  if (rows.length === 0 || !preClose) return null;
+  const bars: MinuteBar[] = rows
+    .map(({ trade_time, open, high, low, close, vol }) => ({
+      trade_time,
+      open,
+      high,
+      low,
+      close,
+      vol: vol ?? 0,
+    }))
+    .filter((b) => b.close != null)
+    .sort((a, b) => a.trade_time.localeCompare(b.trade_time));
+  return { sector, trade_date: tradeDate, pre_close: preClose, bars };
+}
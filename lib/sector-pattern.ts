@@ -0,0 +1,237 @@
+// 板块分时形态识别：根据板块指数当日 1 分钟线判断「水下拉水上」或「波动三角收窄」
+
+export type SectorPattern = "水下拉水上" | "波动三角收窄";
+
+export type PatternCandidate = {
+  pattern: SectorPattern;
+  confidence: number; // 0-1
+  reasons: string[]; // 判断依据（中文，可直接展示）
+};
+
+export type SectorPatternSuggestion = {
+  sector: string;
+  date: string; // YYYY-MM-DD
+  pattern: SectorPattern | null; // 置信度不足时为 null
+  confidence: number;
+  reasons: string[];
+  candidates: PatternCandidate[]; // 两种形态各自的得分，便于对比
+};
+
+// 置信度达到该值才给出建议
+export const PATTERN_CONFIDENCE_THRESHOLD = 0.55;
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+const pct = (x: number) => `${x >= 0 ? "+" : ""}${x.toFixed(2)}%`;
+const share = (x: number) => `${Math.round(x * 100)}%`;
+
+// 分钟线时间（YYYY-MM-DD HH:mm:ss）只保留 HH:mm
+const hhmm = (t: string) => t.slice(11, 16) || t;
+
+/**
+ * 水下拉水上：前段在昨收下方运行，之后放量拉回并站稳昨收上方收盘
+ * 得分由水下深度、水下时长、翻红后站稳比例和收盘涨幅四项组成
+ */
+export function scoreUnderwaterPullUp(
+  closes: number[],
+  times: string[],
+  preClose: number
+): PatternCandidate {
+  const pattern: SectorPattern = "水下拉水上";
+  const rel = closes.map((c) => (c / preClose - 1) * 100);
+  const last = rel[rel.length - 1];
+
+  // 最后一次由水下（<=0）翻到水上的位置
+  let crossIdx = -1;
+  for (let i = rel.length - 1; i > 0; i--) {
+    if (rel[i] > 0 && rel[i - 1] <= 0) {
+      crossIdx = i;
+      break;
+    }
+  }
+  if (crossIdx < 0 || last <= 0) {
+    return {
+      pattern,
+      confidence: 0,
+      reasons: [last <= 0 ? `收盘 ${pct(last)}，未站上昨收` : "全天未出现由水下翻到水上"],
+    };
+  }
+
+  const before = rel.slice(0, crossIdx);
+  const after = rel.slice(crossIdx);
+  const minRel = Math.min(...before);
+  const minIdx = before.indexOf(minRel);
+  const underwaterFrac = before.filter((r) => r < 0).length / rel.length;
+  const holdFrac = after.filter((r) => r > 0).length / after.length;
+
+  // 水下不足 0.1% 视为贴着昨收震荡，不计深度
+  const depthScore = clamp01((-minRel - 0.1) / 0.9);
+  const durationScore = clamp01(underwaterFrac / 0.3);
+  const holdScore = clamp01((holdFrac - 0.5) / 0.4);
+  const closeScore = clamp01(last / 0.8);
+  const confidence = 0.35 * depthScore + 0.3 * durationScore + 0.2 * holdScore + 0.15 * closeScore;
+
+  return {
+    pattern,
+    confidence,
+    reasons: [
+      `${hhmm(times[minIdx])} 最低 ${pct(minRel)}，水下运行占全天 ${share(underwaterFrac)}`,
+      `${hhmm(times[crossIdx])} 翻红，之后 ${share(holdFrac)} 的时间站在昨收上方`,
+      `收盘 ${pct(last)}`,
+    ],
+  };
+}
+
+type Swing = { idx: number; price: number; kind: "high" | "low" };
+
+// 之字形取波段高低点：价格自上一个极值反向超过 threshold 时确认该极值
+function findSwings(closes: number[], threshold: number): Swing[] {
+  const swings: Swing[] = [];
+  let extIdx = 0;
+  let dir: 1 | -1 | 0 = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const ext = closes[extIdx];
+    if (dir === 0) {
+      if (closes[i] - closes[0] >= threshold) {
+        swings.push({ idx: 0, price: closes[0], kind: "low" });
+        dir = 1;
+        extIdx = i;
+      } else if (closes[0] - closes[i] >= threshold) {
+        swings.push({ idx: 0, price: closes[0], kind: "high" });
+        dir = -1;
+        extIdx = i;
+      }
+    } else if (dir === 1) {
+      if (closes[i] > ext) extIdx = i;
+      else if (ext - closes[i] >= threshold) {
+        swings.push({ idx: extIdx, price: ext, kind: "high" });
+        dir = -1;
+        extIdx = i;
+      }
+    } else {
+      if (closes[i] < ext) extIdx = i;
+      else if (closes[i] - ext >= threshold) {
+        swings.push({ idx: extIdx, price: ext, kind: "low" });
+        dir = 1;
+        extIdx = i;
+      }
+    }
+  }
+  return swings;
+}
+
+// 最小二乘斜率（x 为分钟序号）
+function slope(points: Swing[]): number {
+  const n = points.length;
+  if (n < 2) return 0;
+  const mx = points.reduce((s, p) => s + p.idx, 0) / n;
+  const my = points.reduce((s, p) => s + p.price, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.idx - mx) * (p.price - my);
+    den += (p.idx - mx) ** 2;
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+/**
+ * 波动三角收窄：出现多轮高低点，高点逐步走低、低点逐步抬高，振幅递减
+ * 波段阈值取全天振幅的 10%（至少昨收的 0.1%），避免把噪声当作波段
+ */
+export function scoreNarrowingTriangle(closes: number[], preClose: number): PatternCandidate {
+  const pattern: SectorPattern = "波动三角收窄";
+  const range = Math.max(...closes) - Math.min(...closes);
+  const threshold = Math.max(range * 0.1, preClose * 0.001);
+  const swings = findSwings(closes, threshold);
+
+  if (swings.length < 4) {
+    return {
+      pattern,
+      confidence: 0,
+      reasons: [`仅识别到 ${swings.length} 个波段转折点，不足以构成三角形`],
+    };
+  }
+
+  const highs = swings.filter((s) => s.kind === "high");
+  const lows = swings.filter((s) => s.kind === "low");
+  const amps = swings.slice(1).map((s, i) => Math.abs(s.price - swings[i].price));
+  const firstAmp = amps[0];
+  const lastAmp = amps[amps.length - 1];
+  const shrinkSteps = amps.slice(1).filter((a, i) => a < amps[i]).length;
+  const shrinkFrac = amps.length > 1 ? shrinkSteps / (amps.length - 1) : 0;
+  const ampRatio = firstAmp > 0 ? lastAmp / firstAmp : 1;
+  const highSlope = slope(highs);
+  const lowSlope = slope(lows);
+
+  const swingScore = clamp01((swings.length - 3) / 4);
+  const narrowScore = clamp01((1 - ampRatio) / 0.6);
+  const monotonicScore = clamp01((shrinkFrac - 0.3) / 0.5);
+  const convergeScore =
+    highs.length >= 2 && lows.length >= 2 && highSlope <= 0 && lowSlope >= 0
+      ? 1
+      : highSlope < lowSlope
+        ? 0.5
+        : 0;
+  const confidence =
+    0.2 * swingScore + 0.35 * narrowScore + 0.2 * monotonicScore + 0.25 * convergeScore;
+
+  const relPct = (p: number) => ((p / preClose) * 100).toFixed(2);
+  return {
+    pattern,
+    confidence,
+    reasons: [
+      `识别到 ${swings.length} 个波段转折点（${highs.length} 高 ${lows.length} 低）`,
+      `波段振幅由 ${relPct(firstAmp)}% 收窄至 ${relPct(lastAmp)}%，${shrinkSteps}/${amps.length - 1} 段逐次收窄`,
+      convergeScore === 1
+        ? "高点逐步走低、低点逐步抬高"
+        : highSlope < lowSlope
+          ? "高低点趋于收敛，但未同时满足高点降、低点升"
+          : "高低点未收敛",
+    ],
+  };
+}
+
+/**
+ * 对一条分钟线同时计算两种形态得分，取置信度较高且达到阈值者作为建议
+ */
+export function classifySectorPattern(input: {
+  sector: string;
+  date: string;
+  preClose: number;
+  bars: { trade_time: string; close: number }[];
+}): SectorPatternSuggestion {
+  const { sector, date, preClose, bars } = input;
+  const base = { sector, date, candidates: [] as PatternCandidate[] };
+  if (bars.length < 30 || !(preClose > 0)) {
+    return {
+      ...base,
+      pattern: null,
+      confidence: 0,
+      reasons: [`分钟线不足（${bars.length} 条），无法判断形态`],
+    };
+  }
+
+  const closes = bars.map((b) => b.close);
+  const times = bars.map((b) => b.trade_time);
+  const candidates = [
+    scoreUnderwaterPullUp(closes, times, preClose),
+    scoreNarrowingTriangle(closes, preClose),
+  ]
+    .map((c) => ({ ...c, confidence: Math.round(c.confidence * 100) / 100 }))
+    .sort((a, b) => b.confidence - a.confidence);
+  const best = candidates[0];
+
+  if (best.confidence < PATTERN_CONFIDENCE_THRESHOLD) {
+    return {
+      ...base,
+      candidates,
+      pattern: null,
+      confidence: best.confidence,
+      reasons: [
+        `两种形态置信度均低于 ${share(PATTERN_CONFIDENCE_THRESHOLD)}（最高为「${best.pattern}」${share(best.confidence)}）`,
+        ...best.reasons,
+      ],
+    };
+  }
+  return { ...base, candidates, pattern: best.pattern, confidence: best.confidence, reasons: best.reasons };
+}
@@ -0,0 +1,273 @@
+import type { SectorScreenshot as SectorScreenshotRow } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  imageUrl,
+  parseImageDataUrl,
+  readOriginalImage,
+  saveImage,
+  thumbnailUrl,
+} from "./image-storage";
+import type {
+  SectorScreenshot,
+  SectorScreenshotPatch,
+  SectorScreenshotUpload,
+} from "./types";
+
+// 截图时间 HH:mm（00:00-23:59）
+export function isCaptureTime(value: unknown): value is string {
+  return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+// 已迁移到文件存储的记录（hash 与 mimeType 已填写）
+type StoredRow = SectorScreenshotRow & { hash: string; mimeType: string };
+
+const isStored = (row: SectorScreenshotRow): row is StoredRow => !!row.hash && !!row.mimeType;
+
+// 可展示的记录：已迁移，或尚未迁移但仍保留 imageData 的旧记录
+const SHOWN_WHERE = {
+  OR: [{ hash: { not: null }, mimeType: { not: null } }, { imageData: { not: null } }],
+};
+
+// 尚未迁移的旧记录直接使用保存的 Data URL 作为原图与缩略图地址
+export function toSectorScreenshot(row: SectorScreenshotRow): SectorScreenshot {
+  const url = isStored(row) ? imageUrl(row.hash, row.mimeType) : row.imageData ?? "";
+  return {
+    id: row.id,
+    date: row.date.toISOString().slice(0, 10),
+    sector: row.sector,
+    captureTime: row.captureTime,
+    caption: row.caption,
+    sortOrder: row.sortOrder,
+    imageUrl: url,
+    thumbnailUrl: isStored(row) ? thumbnailUrl(row.hash) : url,
+    width: row.width,
+    height: row.height,
+    size: row.size,
+  };
+}
+
+/**
+ * 把一条旧版 Data URL 记录写入文件存储并清空 imageData，返回是否成功
+ * 只更新 hash 仍为空的记录，重复或并发迁移同一条时以先写入的为准（图片文件按内容存储，重复写入无副作用）；
+ * 失败时记下 migrateFailedAt，批量迁移不再选中，需显式重试
+ */
+async function migrateRow(row: SectorScreenshotRow): Promise<boolean> {
+  if (isStored(row)) return true;
+  if (!row.imageData) return false;
+  try {
+    const { mimeType, data } = parseImageDataUrl(row.imageData);
+    const stored = await saveImage(data, mimeType);
+    await prisma.sectorScreenshot.updateMany({
+      where: { id: row.id, hash: null },
+      data: { ...stored, imageData: null, migrateFailedAt: null },
+    });
+    return true;
+  } catch (error) {
+    console.error(`迁移板块截图 #${row.id} 失败:`, error);
+    await prisma.sectorScreenshot.updateMany({
+      where: { id: row.id, hash: null },
+      data: { migrateFailedAt: new Date() },
+    });
+    return false;
+  }
+}
+
+// 查询截图记录（含尚未迁移的旧记录）；迁移只由启动时的后台任务或 migrate 接口执行，请求中不写文件存储
+async function findShownRows(filter: {
+  date?: string;
+  sector?: string;
+}): Promise<SectorScreenshotRow[]> {
+  return prisma.sectorScreenshot.findMany({
+    where: {
+      date: filter.date ? new Date(filter.date) : undefined,
+      sector: filter.sector || undefined,
+      ...SHOWN_WHERE,
+    },
+    orderBy: [{ date: "desc" }, { sector: "asc" }, { sortOrder: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * 查询截图元数据（不含图片内容）
+ */
+export async function listSectorScreenshots(filter: {
+  date?: string;
+  sector?: string;
+}): Promise<SectorScreenshot[]> {
+  return (await findShownRows(filter)).map(toSectorScreenshot);
+}
+
+/**
+ * 为某日某板块新增一张截图，排在已有截图之后
+ * 同一板块当天重复上传相同图片时返回已有记录
+ */
+export async function saveSectorScreenshot(
+  upload: SectorScreenshotUpload
+): Promise<SectorScreenshot> {
+  const { mimeType, data } = parseImageDataUrl(upload.imageDataUrl);
+  const stored = await saveImage(data, mimeType);
+  const date = new Date(upload.date);
+  const where = { date, sector: upload.sector };
+
+  const duplicate = await prisma.sectorScreenshot.findFirst({
+    where: { ...where, hash: stored.hash },
+  });
+  if (duplicate) return toSectorScreenshot(duplicate);
+
+  const last = await prisma.sectorScreenshot.aggregate({ where, _max: { sortOrder: true } });
+  const row = await prisma.sectorScreenshot.create({
+    data: {
+      ...where,
+      ...stored,
+      captureTime: upload.captureTime ?? "15:00",
+      caption: upload.caption?.trim() || null,
+      sortOrder: (last._max.sortOrder ?? -1) + 1,
+    },
+  });
+  return toSectorScreenshot(row);
+}
+
+/**
+ * 修改截图时间或说明，截图不存在时返回 null；与读取一致，不在请求中迁移旧记录
+ */
+export async function updateSectorScreenshot(
+  id: number,
+  patch: SectorScreenshotPatch
+): Promise<SectorScreenshot | null> {
+  const { count } = await prisma.sectorScreenshot.updateMany({
+    where: { id, ...SHOWN_WHERE },
+    data: {
+      captureTime: patch.captureTime,
+      caption: patch.caption === undefined ? undefined : patch.caption?.trim() || null,
+    },
+  });
+  if (count === 0) return null;
+  const row = await prisma.sectorScreenshot.findUnique({ where: { id } });
+  return row ? toSectorScreenshot(row) : null;
+}
+
+/**
+ * 删除截图记录，截图不存在时返回 false
+ * 图片文件按内容共享，不随记录删除
+ */
+export async function deleteSectorScreenshot(id: number): Promise<boolean> {
+  const result = await prisma.sectorScreenshot.deleteMany({ where: { id } });
+  return result.count > 0;
+}
+
+/**
+ * 按 ids 的顺序重排某日某板块的截图；ids 须恰好是该板块当天的全部截图，否则返回 null
+ */
+export async function reorderSectorScreenshots(
+  date: string,
+  sector: string,
+  ids: number[]
+): Promise<SectorScreenshot[] | null> {
+  const rows = await prisma.sectorScreenshot.findMany({
+    where: { date: new Date(date), sector },
+    select: { id: true },
+  });
+  const existing = new Set(rows.map((r) => r.id));
+  const sameSet =
+    ids.length === existing.size &&
+    new Set(ids).size === ids.length &&
+    ids.every((id) => existing.has(id));
+  if (!sameSet) return null;
+
+  await prisma.$transaction(
+    ids.map((id, i) =>
+      prisma.sectorScreenshot.update({ where: { id }, data: { sortOrder: i } })
+    )
+  );
+  return listSectorScreenshots({ date, sector });
+}
+
+/**
+ * 批量迁移旧版 Data URL 记录，跳过迁移失败过的记录；retryFailed 时先清除失败标记重新迁移
+ * 返回本次迁移与失败条数、剩余待迁移数，以及累计迁移失败（已跳过）的条数
+ */
+export async function migrateLegacyScreenshots(
+  batchSize = 20,
+  retryFailed = false
+): Promise<{
+  migrated: number;
+  failed: number;
+  remaining: number;
+  skipped: number;
+}> {
+  const legacyWhere = { hash: null, imageData: { not: null } };
+  if (retryFailed) {
+    await prisma.sectorScreenshot.updateMany({
+      where: { ...legacyWhere, migrateFailedAt: { not: null } },
+      data: { migrateFailedAt: null },
+    });
+  }
+  const pendingWhere = { ...legacyWhere, migrateFailedAt: null };
+  const rows = await prisma.sectorScreenshot.findMany({
+    where: pendingWhere,
+    orderBy: { id: "asc" },
+    take: batchSize,
+  });
+  let migrated = 0;
+  for (const row of rows) {
+    if (await migrateRow(row)) migrated++;
+  }
+  const [remaining, skipped] = await Promise.all([
+    prisma.sectorScreenshot.count({ where: pendingWhere }),
+    prisma.sectorScreenshot.count({ where: { ...legacyWhere, migrateFailedAt: { not: null } } }),
+  ]);
+  return { migrated, failed: rows.length - migrated, remaining, skipped };
+}
+
+/**
+ * 服务启动时逐批迁移全部旧记录（见 instrumentation.ts）；失败的记录被标记后跳过，
+ * 修复后可调用 POST /api/sector-screenshots/migrate（retryFailed: true）重试
+ */
+export async function migrateAllLegacyScreenshots(): Promise<void> {
+  for (;;) {
+    const { migrated, failed, remaining, skipped } = await migrateLegacyScreenshots();
+    if (migrated === 0 && failed === 0) return;
+    console.log(
+      `迁移旧版板块截图：成功 ${migrated}，失败 ${failed}，剩余 ${remaining}，累计失败 ${skipped}`
+    );
+    if (remaining === 0) return;
+  }
+}
+
+export type ScreenshotForReview = {
+  id: number;
+  sector: string;
+  captureTime: string;
+  caption: string | null;
+  imageDataUrl: string;
+};
+
+/**
+ * 某日全部截图的 Data URL（原图），按截图时间先后排列，用于发送给视觉模型
+ */
+export async function getScreenshotDataUrls(date: string): Promise<ScreenshotForReview[]> {
+  const rows = await findShownRows({ date });
+  rows.sort(
+    (a, b) =>
+      a.captureTime.localeCompare(b.captureTime) ||
+      a.sector.localeCompare(b.sector) ||
+      a.sortOrder - b.sortOrder
+  );
+  const result: ScreenshotForReview[] = [];
+  for (const row of rows) {
+    let imageDataUrl = row.imageData;
+    if (isStored(row)) {
+      const data = await readOriginalImage(row.hash, row.mimeType);
+      imageDataUrl = data ? `data:${row.mimeType};base64,${data.toString("base64")}` : null;
+    }
+    if (!imageDataUrl) continue;
+    result.push({
+      id: row.id,
+      sector: row.sector,
+      captureTime: row.captureTime,
+      caption: row.caption,
+      imageDataUrl,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,338 @@
+import type { Prisma, SignalForwardReturn } from "@prisma/client";
+import type { ForwardReturn, SignalNotesPatch, SignalRecord, SignalSortKey } from "./types";
+
+/**
+ * 数据库行（Prisma SignalRecord）与前端 SignalRecord 之间的转换，
+ * 供 /api/signals 与 /api/signals/[id] 共用
+ */
+
+export function parseSectorPattern(
+  value: unknown
+): "水下拉水上" | "波动三角收窄" | null {
+  return value === "水下拉水上" || value === "波动三角收窄" ? value : null;
+}
+
+// reason 字段以 JSON 数组字符串存储，解析失败时返回空数组
+export function parseReason(raw: string | null): string[] {
+  try {
+    const reason = JSON.parse(raw || "[]");
+    return Array.isArray(reason) ? reason : [];
+  } catch (parseError) {
+    console.warn("解析 reason 字段失败:", raw, parseError);
+    return [];
+  }
+}
+
+export const MAX_NOTE_LENGTH = 2000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 16;
+
+// tags 字段以 JSON 数组字符串存储，解析失败时返回空数组
+export function parseTags(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const tags = JSON.parse(raw);
+    return Array.isArray(tags) ? tags.filter((t) => typeof t === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 校验复盘笔记与标签并转换为数据库字段（校验失败时抛出带中文说明的 Error）
+ * 标签去掉首尾空白与开头的 #，去重后保留输入顺序
+ */
+export function toSignalNotesData(patch: SignalNotesPatch): {
+  note?: string | null;
+  tags?: string | null;
+} {
+  const data: { note?: string | null; tags?: string | null } = {};
+  if (patch.note !== undefined) {
+    if (patch.note !== null && typeof patch.note !== "string") {
+      throw new Error("数据格式错误：note 必须是字符串");
+    }
+    const note = (patch.note ?? "").trim();
+    if (note.length > MAX_NOTE_LENGTH) {
+      throw new Error(`复盘笔记不能超过 ${MAX_NOTE_LENGTH} 字`);
+    }
+    data.note = note || null;
+  }
+  if (patch.tags !== undefined) {
+    if (!Array.isArray(patch.tags) || patch.tags.some((t) => typeof t !== "string")) {
+      throw new Error("数据格式错误：tags 必须是字符串数组");
+    }
+    const tags = Array.from(
+      new Set(patch.tags.map((t) => t.trim().replace(/^#+/, "").trim()).filter(Boolean))
+    );
+    if (tags.length > MAX_TAGS) throw new Error(`标签不能超过 ${MAX_TAGS} 个`);
+    const long = tags.find((t) => t.length > MAX_TAG_LENGTH);
+    if (long) throw new Error(`标签过长 (${long.length} > ${MAX_TAG_LENGTH}): ${long}`);
+    data.tags = tags.length > 0 ? JSON.stringify(tags) : null;
+  }
+  return data;
+}
+
+// 查询信号记录时需一并带出关联板块（按录入顺序）与后续表现
+export const SIGNAL_INCLUDE = {
+  sectors: {
+    include: { sector: true },
+    orderBy: { position: "asc" },
+  },
+  forwardReturn: true,
+} satisfies Prisma.SignalRecordInclude;
+
+export type SignalRecordWithSectors = Prisma.SignalRecordGetPayload<{
+  include: typeof SIGNAL_INCLUDE;
+}>;
+
+// 后续表现：数据库行 -> 前端格式
+export function toForwardReturn(row: SignalForwardReturn): ForwardReturn {
+  const w = (close: number | null, maxHigh: number | null, maxDrawdown: number | null) =>
+    close !== null && maxHigh !== null && maxDrawdown !== null
+      ? { close, max_high: maxHigh, max_drawdown: maxDrawdown }
+      : null;
+  return {
+    base_close: row.baseClose,
+    days: row.days,
+    next_open: row.nextOpen,
+    windows: {
+      1: w(row.ret1, row.maxHigh1, row.maxDrawdown1),
+      3: w(row.ret3, row.maxHigh3, row.maxDrawdown3),
+      5: w(row.ret5, row.maxHigh5, row.maxDrawdown5),
+      10: w(row.ret10, row.maxHigh10, row.maxDrawdown10),
+    },
+  };
+}
+
+// 数据库行 -> 前端格式
+export function toSignalRecord(r: SignalRecordWithSectors): SignalRecord {
+  return {
+    id: r.id,
+    date: r.date.toISOString().slice(0, 10),
+    code: r.code,
+    name: r.name,
+    sector: r.sectors.map((s) => s.sector.name),
+    sector_pattern: parseSectorPattern(r.sectorPattern),
+    turnover: r.turnover,
+    chg: r.chg,
+    amount: r.amount,
+    debt_ratio: r.debtRatio,
+    score: r.score,
+    reason: parseReason(r.reason),
+    rule_set_version: r.ruleSetVersion,
+    forward: r.forwardReturn ? toForwardReturn(r.forwardReturn) : null,
+    note: r.note,
+    tags: parseTags(r.tags),
+  };
+}
+
+// 前端格式 -> 数据库标量字段（校验失败时抛出带中文说明的 Error）
+export function toSignalRecordData(r: SignalRecord) {
+  // 验证并转换日期
+  const dateObj = new Date(r.date);
+  if (isNaN(dateObj.getTime())) {
+    throw new Error(`无效的日期格式: ${r.date}`);
+  }
+
+  // 确保 score 是整数
+  const score = Math.round(Number(r.score)) || 0;
+  if (score < 0 || score > 100) {
+    throw new Error(`score 必须在 0-100 之间，当前值: ${r.score}`);
+  }
+
+  // 确保板块名称长度不超过数据库限制
+  for (const name of r.sector) {
+    if (name.length > 64) {
+      throw new Error(`板块名称过长 (${name.length} > 64): ${name}`);
+    }
+  }
+
+  // 验证 code 和 name 不为空
+  if (!r.code || !r.name) {
+    throw new Error(`code 和 name 不能为空`);
+  }
+
+  return {
+    date: dateObj,
+    code: r.code.substring(0, 16), // 限制长度
+    name: r.name.substring(0, 64), // 限制长度
+    sectorPattern: r.sector_pattern ? r.sector_pattern.substring(0, 32) : null,
+    turnover: r.turnover != null ? Number(r.turnover) : null,
+    chg: r.chg != null ? Number(r.chg) : null,
+    amount: r.amount != null ? Number(r.amount) : null,
+    debtRatio: r.debt_ratio != null ? Number(r.debt_ratio) : null,
+    score: score, // 确保是整数
+    reason: JSON.stringify(r.reason || []),
+  };
+}
+
+// 板块名比较键：sectors.name 使用不区分大小写的 utf8mb4_unicode_ci 排序规则，
+// 「AI」与「ai」、全角与半角字母在数据库中是同一个板块
+function sectorNameKey(name: string): string {
+  return name.normalize("NFKC").toLowerCase();
+}
+
+// 板块关联：按名称关联已有板块，不存在则新建；同名板块（按数据库的比较规则）只保留第一次出现
+function sectorLinks(sector: string[]) {
+  const byKey = new Map<string, string>();
+  for (const name of sector.map((s) => s.trim()).filter(Boolean)) {
+    const key = sectorNameKey(name);
+    if (!byKey.has(key)) byKey.set(key, name);
+  }
+  const names = Array.from(byKey.values());
+  return names.map((name, position) => ({
+    position,
+    sector: {
+      connectOrCreate: { where: { name }, create: { name } },
+    },
+  }));
+}
+
+export function toSignalCreateInput(r: SignalRecord): Prisma.SignalRecordCreateInput {
+  return {
+    ...toSignalRecordData(r),
+    sectors: { create: sectorLinks(r.sector) },
+    ruleSet: r.rule_set_version != null ? { connect: { version: r.rule_set_version } } : undefined,
+  };
+}
+
+// 更新时整体替换板块关联
+export function toSignalUpdateInput(r: SignalRecord): Prisma.SignalRecordUpdateInput {
+  return {
+    ...toSignalRecordData(r),
+    sectors: { deleteMany: {}, create: sectorLinks(r.sector) },
+    ruleSet:
+      r.rule_set_version != null
+        ? { connect: { version: r.rule_set_version } }
+        : { disconnect: true },
+  };
+}
+
+// 「日期 + 代码」唯一键，用于批量录入时去重
+export function signalKey(r: Pick<SignalRecord, "date" | "code">): string {
+  return `${r.date}|${r.code}`;
+}
+
+// merge-nonnull 策略：仅用 incoming 中的非空字段覆盖 existing
+export function mergeNonNull(
+  existing: SignalRecord,
+  incoming: SignalRecord
+): SignalRecord {
+  return {
+    ...existing,
+    name: incoming.name || existing.name,
+    sector: incoming.sector.length > 0 ? incoming.sector : existing.sector,
+    sector_pattern: incoming.sector_pattern ?? existing.sector_pattern,
+    turnover: incoming.turnover ?? existing.turnover,
+    chg: incoming.chg ?? existing.chg,
+    amount: incoming.amount ?? existing.amount,
+    debt_ratio: incoming.debt_ratio ?? existing.debt_ratio,
+  };
+}
+
+// ================= GET /api/signals 查询参数解析 =================
+
+const SORT_FIELDS: Record<SignalSortKey, keyof Prisma.SignalRecordOrderByWithRelationInput> = {
+  date: "date",
+  code: "code",
+  name: "name",
+  score: "score",
+  turnover: "turnover",
+  chg: "chg",
+  amount: "amount",
+  debt_ratio: "debtRatio",
+};
+
+export const MAX_PAGE_SIZE = 500;
+
+function parseNumberParam(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+}
+
+// 关联了某个板块（精确匹配板块名）
+function sectorEquals(sector: string): Prisma.SignalRecordWhereInput {
+  return { sectors: { some: { sector: { name: sector } } } };
+}
+
+/**
+ * 将 URL 查询参数解析为 Prisma 查询条件
+ * 参数：code, q, sector, sector_pattern, scoreMin, scoreMax, from, to,
+ *       sort, order, limit, cursor（含义见 SignalQuery）
+ * 参数非法时抛出带中文说明的 Error
+ */
+export function parseSignalQuery(searchParams: URLSearchParams): {
+  where: Prisma.SignalRecordWhereInput;
+  orderBy: Prisma.SignalRecordOrderByWithRelationInput[];
+  limit: number | null;
+  cursor: number | null;
+} {
+  const and: Prisma.SignalRecordWhereInput[] = [];
+
+  const code = searchParams.get("code");
+  if (code) and.push({ code });
+
+  const q = searchParams.get("q")?.trim();
+  if (q) {
+    and.push({
+      OR: [
+        { code: { contains: q } },
+        { name: { contains: q } },
+        { sectors: { some: { sector: { name: { contains: q } } } } },
+      ],
+    });
+  }
+
+  const sector = searchParams.get("sector");
+  if (sector) and.push(sectorEquals(sector));
+
+  const pattern = searchParams.get("sector_pattern");
+  if (pattern) {
+    and.push({ sectorPattern: pattern === "none" ? null : pattern });
+  }
+
+  const scoreMin = parseNumberParam(searchParams.get("scoreMin"));
+  const scoreMax = parseNumberParam(searchParams.get("scoreMax"));
+  if (scoreMin !== undefined || scoreMax !== undefined) {
+    and.push({ score: { gte: scoreMin, lte: scoreMax } });
+  }
+
+  const from = searchParams.get("from"); // YYYY-MM-DD
+  const to = searchParams.get("to"); // YYYY-MM-DD
+  for (const d of [from, to]) {
+    if (d && isNaN(new Date(d).getTime())) {
+      throw new Error(`无效的日期格式: ${d}`);
+    }
+  }
+  if (from || to) {
+    and.push({
+      date: {
+        gte: from ? new Date(from) : undefined,
+        lte: to ? new Date(to) : undefined,
+      },
+    });
+  }
+
+  const sort = (searchParams.get("sort") || "date") as SignalSortKey;
+  if (!Object.hasOwn(SORT_FIELDS, sort)) {
+    throw new Error(`不支持的排序字段: ${sort}`);
+  }
+  const order = searchParams.get("order") === "asc" ? "asc" : "desc";
+  // 以 id 作为次级排序，保证游标分页结果稳定
+  const orderBy: Prisma.SignalRecordOrderByWithRelationInput[] = [
+    { [SORT_FIELDS[sort]]: order },
+    { id: order },
+  ];
+
+  const limitParam = parseNumberParam(searchParams.get("limit"));
+  const limit =
+    limitParam !== undefined
+      ? Math.min(Math.max(1, Math.floor(limitParam)), MAX_PAGE_SIZE)
+      : null;
+  const cursorParam = parseNumberParam(searchParams.get("cursor"));
+  const cursor =
+    cursorParam !== undefined && Number.isInteger(cursorParam) ? cursorParam : null;
+
+  return { where: and.length > 0 ? { AND: and } : {}, orderBy, limit, cursor };
+}
@@ -0,0 +1,31 @@
+/**
+ * 解析 Server-Sent Events 流（前后端通用）：逐条产出 { event, data }
+ * event 缺省为 "message"；多行 data 以换行拼接；忽略注释行与 id/retry 字段
+ */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop() ?? "";
+      for (const block of blocks) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,51 +1,209 @@
 import type {
+  AIModelInfo,
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
   SignalRecord,
   DailySummary,
+  SectorMarket,
   SectorStat,
   StockHistory,
   SectorScreenshot,
+  SectorScreenshotPatch,
+  SignalNotesPatch,
+  SectorScreenshotUpload,
+  SignalQuery,
+  SignalPage,
+  UpsertPolicy,
+  UpsertResult,
+  ScoringRule,
+  ScoringRuleSet,
+  ForwardReturnStat,
+  ReviewHitStat,
+  ReviewSession,
+  ReviewSessionSummary,
+  Trade,
+  TradeInput,
+  TradeJournal,
+  WatchlistItem,
+  WatchlistState,
+  AlertEvaluation,
+  AlertEvent,
+  AlertRule,
+  AlertRuleInput,
 } from "./types";
+import type { StockIndicators } from "./tushare";
+import { readSSE } from "./sse";
 
 // ================= 信号记录相关（改为 API 调用）=================
 
-// 获取所有记录
-export async function getAllRecords(): Promise<SignalRecord[]> {
+// SignalQuery -> URL 查询字符串（忽略空值）
+function toSearchParams(query: SignalQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+    params.set(key, String(value));
+  }
+  const str = params.toString();
+  return str ? `?${str}` : "";
+}
+
+// 按条件获取全部匹配记录（不分页）
+export async function getRecords(
+  query: Omit<SignalQuery, "limit" | "cursor"> = {}
+): Promise<SignalRecord[]> {
   try {
-    const res = await fetch("/api/signals");
+    const res = await fetch(`/api/signals${toSearchParams(query)}`);
     if (!res.ok) {
       const errorData = await res.json().catch(() => ({}));
       const errorMessage = errorData.error || `获取数据失败 (状态码: ${res.status})`;
-      console.error("getAllRecords API error:", errorMessage, errorData);
+      console.error("getRecords API error:", errorMessage, errorData);
       throw new Error(errorMessage);
     }
     return await res.json();
   } catch (error: any) {
-    console.error("getAllRecords error:", error);
+    console.error("getRecords error:", error);
     // 不抛出错误，返回空数组，避免阻塞 UI
     return [];
   }
 }
 
-// 添加新记录（批量）
+// 按条件分页获取记录（游标分页，cursor 取上一页返回的 nextCursor）
+export async function querySignals(
+  query: SignalQuery & { limit: number }
+): Promise<SignalPage> {
+  const res = await fetch(`/api/signals${toSearchParams(query)}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `获取数据失败 (状态码: ${res.status})`;
+    console.error("querySignals API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 获取所有记录
+export async function getAllRecords(): Promise<SignalRecord[]> {
+  return getRecords();
+}
+
+// 信号库总条数
+export async function getRecordCount(): Promise<number> {
+  try {
+    const page = await querySignals({ limit: 1 });
+    return page.total;
+  } catch {
+    return 0;
+  }
+}
+
+// 板块统计（服务端聚合）：出现日期数、平均分、评分最高的 3 条记录
+export async function getSectorStats(
+  query: { from?: string; to?: string; limit?: number } = {}
+): Promise<SectorStat[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    if (query.limit) params.set("limit", String(query.limit));
+    const res = await fetch(`/api/sectors/stats?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getSectorStats error:", error);
+    return [];
+  }
+}
+
+// 板块对应指数截至 date 的行情摘要（涨跌幅、5 日动量、近 20 日K线），key 为板块名称
+export async function getSectorMarkets(
+  names: string[],
+  date?: string
+): Promise<Record<string, SectorMarket | null>> {
+  if (names.length === 0) return {};
+  try {
+    const params = new URLSearchParams();
+    for (const name of names) params.append("name", name);
+    if (date) params.set("date", date);
+    const res = await fetch(`/api/sectors/market?${params.toString()}`);
+    if (!res.ok) return {};
+    return await res.json();
+  } catch (error) {
+    console.error("getSectorMarkets error:", error);
+    return {};
+  }
+}
+
+// 匹配板块指数并补齐指数日线
+export async function syncSectorIndices(refresh = false): Promise<{
+  mapping: { matched: number; unmatched: string[] };
+  daily: { indices: number; inserted: number; failed: string[] };
+}> {
+  const res = await fetch("/api/sectors/index-sync", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refresh }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `同步板块指数失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 手动指定板块对应的指数代码，null 表示清除映射
+export async function setSectorIndexMapping(
+  sector: string,
+  indexCode: string | null
+): Promise<{ sector: string; indexCode: string | null; indexName: string | null }> {
+  const res = await fetch("/api/sectors/index-mapping", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sector, indexCode }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `设置板块指数失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 历史录入过的全部板块名称
+export async function getSectorNames(): Promise<string[]> {
+  try {
+    const res = await fetch("/api/sectors");
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getSectorNames error:", error);
+    return [];
+  }
+}
+
+// 添加新记录（批量，按「日期 + 代码」幂等写入），返回新增/更新/跳过统计
 export async function addRecords(
-  newRecords: SignalRecord[]
-): Promise<SignalRecord[]> {
+  newRecords: SignalRecord[],
+  policy: UpsertPolicy = "skip"
+): Promise<UpsertResult> {
   try {
     const res = await fetch("/api/signals", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(newRecords),
+      body: JSON.stringify({ records: newRecords, policy }),
     });
     
+    const data = await res.json().catch(() => ({}));
     if (!res.ok) {
-      const errorData = await res.json().catch(() => ({}));
-      const errorMessage = errorData.error || `保存数据失败 (状态码: ${res.status})`;
-      console.error("addRecords API error:", errorMessage, errorData);
+      const errorMessage = data.error || `保存数据失败 (状态码: ${res.status})`;
+      console.error("addRecords API error:", errorMessage, data);
       throw new Error(errorMessage);
     }
     
-    // 保存成功后重新获取所有记录
-    return await getAllRecords();
+    return {
+      created: data.created ?? 0,
+      updated: data.updated ?? 0,
+      skipped: data.skipped ?? 0,
+    };
   } catch (error: any) {
     console.error("addRecords error:", error);
     throw error; // 重新抛出错误，让调用者处理
@@ -64,12 +222,60 @@ export async function clearAllRecords(): Promise<void> {
 }
 }
 
+// 修改单条记录（只需传入要修改的字段），返回修改后的记录
+export async function updateRecord(
+  id: number,
+  patch: Partial<SignalRecord>
+): Promise<SignalRecord> {
+  const res = await fetch(`/api/signals/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `修改数据失败 (状态码: ${res.status})`;
+    console.error("updateRecord API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 修改单条记录的复盘笔记与标签（不重新评分）
+export async function updateRecordNotes(
+  id: number,
+  patch: SignalNotesPatch
+): Promise<SignalRecord> {
+  const res = await fetch(`/api/signals/${id}/notes`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `保存笔记失败 (状态码: ${res.status})`;
+    console.error("updateRecordNotes API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 删除单条记录
+export async function deleteRecord(id: number): Promise<void> {
+  const res = await fetch(`/api/signals/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `删除数据失败 (状态码: ${res.status})`;
+    console.error("deleteRecord API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
 // 按日期获取记录
 export async function getRecordsByDate(
   date: string
 ): Promise<SignalRecord[]> {
-  const all = await getAllRecords();
-  return all.filter((r) => r.date === date);
+  return getRecords({ from: date, to: date });
 }
 
 // 获取近30天记录
@@ -77,8 +283,591 @@ export async function getLast30DaysRecords(): Promise<SignalRecord[]> {
   const cutoff = new Date();
   cutoff.setDate(cutoff.getDate() - 30);
   const cutoffStr = cutoff.toISOString().slice(0, 10);
-  const all = await getAllRecords();
-  return all.filter((r) => r.date >= cutoffStr);
+  return getRecords({ from: cutoffStr });
+}
+
+// ================= 评分规则相关 =================
+
+// 全部评分规则版本（新版本在前）
+export async function getScoringRuleSets(): Promise<ScoringRuleSet[]> {
+  try {
+    const res = await fetch("/api/scoring-rules");
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getScoringRuleSets error:", error);
+    return [];
+  }
+}
+
+// 保存为新版本并设为生效
+export async function saveScoringRuleSet(
+  name: string,
+  rules: ScoringRule[]
+): Promise<ScoringRuleSet> {
+  const res = await fetch("/api/scoring-rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, rules }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `保存评分规则失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 重新启用某个历史版本
+export async function activateScoringRuleSet(version: number): Promise<ScoringRuleSet> {
+  const res = await fetch(`/api/scoring-rules/${version}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ active: true }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `启用评分规则失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 用当前生效规则重新评分全部记录
+export async function rescoreAllRecords(): Promise<{
+  version: number | null;
+  updated: number;
+  total: number;
+}> {
+  const res = await fetch("/api/scoring-rules/rescore", { method: "POST" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `重新评分失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// ================= 后续表现相关 =================
+
+// 评估一批待更新记录的后续表现（remaining > 0 时需再次调用）
+export async function evaluateForwardReturns(): Promise<{
+  evaluated: number;
+  failed: number;
+  remaining: number;
+  skipped: number;
+}> {
+  const res = await fetch("/api/forward-returns", { method: "POST" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `评估后续表现失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 后续表现分组统计（按评分档 / 板块分时）
+export async function getForwardReturnStats(
+  query: { from?: string; to?: string } = {}
+): Promise<{ byScore: ForwardReturnStat[]; byPattern: ForwardReturnStat[] }> {
+  try {
+    const params = new URLSearchParams();
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const res = await fetch(`/api/forward-returns?${params.toString()}`);
+    if (!res.ok) return { byScore: [], byPattern: [] };
+    return await res.json();
+  } catch (error) {
+    console.error("getForwardReturnStats error:", error);
+    return { byScore: [], byPattern: [] };
+  }
+}
+
+// ================= 复盘智囊相关 =================
+
+// AI 流式请求的结果：出错或取消时保留已生成的部分
+export type AIStreamResult<T> =
+  | { status: "done"; data: T }
+  | { status: "error" | "cancelled"; error: string; partial: string; data: Partial<T> | null };
+
+/**
+ * 请求 AI 流式接口（SSE，事件见 lib/ai-stream.ts）：onDelta 接收增量文本
+ * 请求本身失败（非 2xx）时抛错；流开始后的中断、取消以结果返回，不抛错
+ */
+export async function streamAI<T>(
+  url: string,
+  body: unknown,
+  options: {
+    onDelta?: (text: string) => void;
+    onTool?: (tool: { name: string; arguments: string }) => void; // 模型调用了工具
+    signal?: AbortSignal;
+  } = {}
+): Promise<AIStreamResult<T>> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `AI 请求失败 (状态码: ${res.status})`);
+  }
+
+  let partial = "";
+  try {
+    for await (const { event, data } of readSSE(res.body)) {
+      const payload = JSON.parse(data);
+      if (event === "delta") {
+        partial += payload.text;
+        options.onDelta?.(payload.text);
+      } else if (event === "tool") {
+        options.onTool?.(payload);
+      } else if (event === "done") {
+        return { status: "done", data: payload as T };
+      } else if (event === "error") {
+        const { error, partial: serverPartial, ...rest } = payload;
+        return { status: "error", error, partial: serverPartial ?? partial, data: rest };
+      }
+    }
+    return { status: "error", error: "连接意外结束", partial, data: null };
+  } catch (error: any) {
+    if (options.signal?.aborted) {
+      return { status: "cancelled", error: "已取消", partial, data: null };
+    }
+    console.error("streamAI error:", error);
+    return { status: "error", error: error?.message || "网络错误", partial, data: null };
+  }
+}
+
+// 生成复盘建议（流式）；结束、中断或取消时服务端都会保存为一条生成记录
+export async function generateReviewSuggestion(
+  date: string,
+  options: { onDelta?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<AIStreamResult<{ content: string; session: ReviewSession }>> {
+  return streamAI("/api/ai/review-suggestions", { date }, options);
+}
+
+// 当前 AI 模型配置摘要；加载失败时返回 null
+export async function getAIConfig(): Promise<{ chat: AIModelInfo; review: AIModelInfo } | null> {
+  try {
+    const res = await fetch("/api/ai/config");
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (error) {
+    console.error("getAIConfig error:", error);
+    return null;
+  }
+}
+
+// 复盘生成记录摘要（新的在前），可按日期筛选
+export async function getReviewSessions(
+  query: { date?: string; limit?: number } = {}
+): Promise<ReviewSessionSummary[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.date) params.set("date", query.date);
+    if (query.limit) params.set("limit", String(query.limit));
+    const res = await fetch(`/api/ai/review-sessions?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getReviewSessions error:", error);
+    return [];
+  }
+}
+
+// 单条复盘生成记录（含完整输出）
+export async function getReviewSession(id: number): Promise<ReviewSession | null> {
+  try {
+    const res = await fetch(`/api/ai/review-sessions/${id}`);
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (error) {
+    console.error("getReviewSession error:", error);
+    return null;
+  }
+}
+
+// 用次一交易日行情评估一批结论（remaining > 0 时需再次调用）
+export async function gradeReviewVerdicts(): Promise<{
+  graded: number;
+  failed: number;
+  remaining: number;
+  skipped: number;
+}> {
+  const res = await fetch("/api/ai/review-verdicts", { method: "POST" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `评估结论失败 (状态码: ${res.status})`);
+  }
+  return data;
+}
+
+// 复盘结论命中率（按优先/观察/回避）
+export async function getReviewHitStats(
+  query: { from?: string; to?: string } = {}
+): Promise<ReviewHitStat[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const res = await fetch(`/api/ai/review-verdicts?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getReviewHitStats error:", error);
+    return [];
+  }
+}
+
+// ================= 询问 AI 对话相关 =================
+
+type ChatThreadInput = { title?: string; date?: string | null; code?: string | null };
+
+// 对话列表（最近更新的在前），可按关联的日期或代码筛选
+export async function getChatThreads(
+  query: { date?: string; code?: string; limit?: number } = {}
+): Promise<ChatThreadSummary[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.date) params.set("date", query.date);
+    if (query.code) params.set("code", query.code);
+    if (query.limit) params.set("limit", String(query.limit));
+    const res = await fetch(`/api/ai/chat-threads?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getChatThreads error:", error);
+    return [];
+  }
+}
+
+// 单个对话（含消息）
+export async function getChatThread(id: number): Promise<ChatThread | null> {
+  try {
+    const res = await fetch(`/api/ai/chat-threads/${id}`);
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (error) {
+    console.error("getChatThread error:", error);
+    return null;
+  }
+}
+
+export async function createChatThread(input: ChatThreadInput = {}): Promise<ChatThread> {
+  const res = await fetch("/api/ai/chat-threads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `新建对话失败 (状态码: ${res.status})`;
+    console.error("createChatThread API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 改名或修改关联（date / code 传 null 取消关联）
+export async function updateChatThread(id: number, patch: ChatThreadInput): Promise<ChatThread> {
+  const res = await fetch(`/api/ai/chat-threads/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `修改对话失败 (状态码: ${res.status})`;
+    console.error("updateChatThread API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function deleteChatThread(id: number): Promise<void> {
+  const res = await fetch(`/api/ai/chat-threads/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `删除对话失败 (状态码: ${res.status})`;
+    console.error("deleteChatThread API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
+// 在对话中提问（流式）；提问与回答（含中断时的部分回答）由服务端保存
+export async function sendChatMessage(
+  threadId: number,
+  content: string,
+  options: Parameters<typeof streamAI>[2] = {}
+): Promise<AIStreamResult<{ content: string; message: ChatMessage | null }>> {
+  return streamAI("/api/ai/chat", { threadId, content }, options);
+}
+
+// ================= 交易记录相关 =================
+
+// 成交列表（按成交时间倒序），可按代码、关联信号与日期筛选
+export async function getTrades(
+  query: { code?: string; signalId?: number; from?: string; to?: string } = {}
+): Promise<Trade[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.code) params.set("code", query.code);
+    if (query.signalId) params.set("signalId", String(query.signalId));
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const res = await fetch(`/api/trades?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getTrades error:", error);
+    return [];
+  }
+}
+
+export async function createTrade(input: TradeInput): Promise<Trade> {
+  const res = await fetch("/api/trades", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `新增成交失败 (状态码: ${res.status})`;
+    console.error("createTrade API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function updateTrade(id: number, patch: TradeInput): Promise<Trade> {
+  const res = await fetch(`/api/trades/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `修改成交失败 (状态码: ${res.status})`;
+    console.error("updateTrade API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function deleteTrade(id: number): Promise<void> {
+  const res = await fetch(`/api/trades/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `删除成交失败 (状态码: ${res.status})`;
+    console.error("deleteTrade API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
+// 交易日志：盈亏、胜率与持仓（剩余持仓按最近收盘价估值）
+export async function getTradeJournal(): Promise<TradeJournal | null> {
+  try {
+    const res = await fetch("/api/trades/journal");
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (error) {
+    console.error("getTradeJournal error:", error);
+    return null;
+  }
+}
+
+// ================= 关注列表相关 =================
+
+// 关注列表（最近变更的在前），可按状态或代码筛选
+export async function getWatchlist(
+  query: { state?: WatchlistState; code?: string } = {}
+): Promise<WatchlistItem[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.state) params.set("state", query.state);
+    if (query.code) params.set("code", query.code);
+    const res = await fetch(`/api/watchlist?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getWatchlist error:", error);
+    return [];
+  }
+}
+
+// 加入关注（默认状态为观察），需填写原因
+export async function addToWatchlist(input: {
+  code: string;
+  name?: string | null;
+  state?: WatchlistState;
+  reason: string;
+}): Promise<WatchlistItem> {
+  const res = await fetch("/api/watchlist", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `加入关注失败 (状态码: ${res.status})`;
+    console.error("addToWatchlist API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 变更关注状态并记录原因
+export async function transitionWatchlistItem(
+  id: number,
+  state: WatchlistState,
+  reason: string
+): Promise<WatchlistItem> {
+  const res = await fetch(`/api/watchlist/${id}/transitions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ state, reason }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `变更关注状态失败 (状态码: ${res.status})`;
+    console.error("transitionWatchlistItem API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function removeFromWatchlist(id: number): Promise<void> {
+  const res = await fetch(`/api/watchlist/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `移出关注失败 (状态码: ${res.status})`;
+    console.error("removeFromWatchlist API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
+// 单只股票的均线与各录入日之后的涨停情况（同 /api/tushare/indicators），失败时抛出
+export async function getStockIndicators(
+  code: string,
+  recordDates: string[] = []
+): Promise<StockIndicators> {
+  const items = recordDates.length > 0
+    ? recordDates.map((recordDate) => ({ code, recordDate }))
+    : [{ code }];
+  const res = await fetch("/api/tushare/indicators", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `获取行情指标失败 (状态码: ${res.status})`);
+  const result: StockIndicators | undefined = data.results?.[0];
+  if (!result) throw new Error(`未获取到 ${code} 的行情指标`);
+  if (result.error) throw new Error(result.error);
+  return result;
+}
+
+// ================= 提醒相关 =================
+
+// 提醒规则：传 code 时只取该股票的规则，传 null 时只取全局规则
+export async function getAlertRules(code?: string | null): Promise<AlertRule[]> {
+  try {
+    const params = new URLSearchParams();
+    if (code === null) params.set("global", "1");
+    else if (code) params.set("code", code);
+    const res = await fetch(`/api/alerts/rules?${params.toString()}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (error) {
+    console.error("getAlertRules error:", error);
+    return [];
+  }
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const res = await fetch("/api/alerts/rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `新增提醒规则失败 (状态码: ${res.status})`;
+    console.error("createAlertRule API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function updateAlertRule(
+  id: number,
+  patch: Pick<AlertRuleInput, "enabled" | "threshold">
+): Promise<AlertRule> {
+  const res = await fetch(`/api/alerts/rules/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `修改提醒规则失败 (状态码: ${res.status})`;
+    console.error("updateAlertRule API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+export async function deleteAlertRule(id: number): Promise<void> {
+  const res = await fetch(`/api/alerts/rules/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `删除提醒规则失败 (状态码: ${res.status})`;
+    console.error("deleteAlertRule API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
+// 最近的提醒及未读总数，失败时返回空列表
+export async function getAlerts(
+  query: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ events: AlertEvent[]; unread: number }> {
+  try {
+    const params = new URLSearchParams();
+    if (query.unreadOnly) params.set("unread", "1");
+    if (query.limit) params.set("limit", String(query.limit));
+    const res = await fetch(`/api/alerts?${params.toString()}`);
+    if (!res.ok) return { events: [], unread: 0 };
+    return await res.json();
+  } catch (error) {
+    console.error("getAlerts error:", error);
+    return { events: [], unread: 0 };
+  }
+}
+
+// 标记已读：传 "all" 时全部标记
+export async function markAlertsRead(ids: number[] | "all"): Promise<number> {
+  const res = await fetch("/api/alerts", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ids === "all" ? { all: true } : { ids }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `标记已读失败 (状态码: ${res.status})`;
+    console.error("markAlertsRead API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data.updated;
+}
+
+// 立即评估所有启用的提醒规则（通常由收盘后的定时任务调用）
+export async function evaluateAlerts(): Promise<AlertEvaluation> {
+  const res = await fetch("/api/alerts/evaluate", { method: "POST" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `评估提醒规则失败 (状态码: ${res.status})`;
+    console.error("evaluateAlerts API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
 }
 
 // ================= 统计与导出（保持同步，基于内存数据）=================
@@ -95,30 +884,6 @@ export function getDailySummary(records: SignalRecord[]): DailySummary {
   };
 }
 
-export function getSectorStats(records: SignalRecord[]): SectorStat[] {
-  const sectorMap = new Map<string, { dates: Set<string>; records: SignalRecord[] }>();
-
-  for (const r of records) {
-    for (const s of r.sector) {
-      if (!sectorMap.has(s)) {
-        sectorMap.set(s, { dates: new Set(), records: [] });
-      }
-      const entry = sectorMap.get(s)!;
-      entry.dates.add(r.date);
-      entry.records.push(r);
-    }
-  }
-
-  return Array.from(sectorMap.entries())
-    .map(([sector, { dates, records: recs }]) => ({
-      sector,
-      count: dates.size, // 统计板块出现的日期次数，而不是个股数量
-      topRecords: recs.sort((a, b) => b.score - a.score).slice(0, 3),
-      avgScore: Math.round(recs.reduce((s, r) => s + r.score, 0) / recs.length),
-    }))
-    .sort((a, b) => b.count - a.count);
-}
-
 export function getStockHistory(records: SignalRecord[]): StockHistory[] {
   const stockMap = new Map<string, SignalRecord[]>();
 
@@ -136,6 +901,10 @@ export function getStockHistory(records: SignalRecord[]): StockHistory[] {
         .filter((t): t is number => t !== null);
       const scores = recs.map((r) => r.score);
       const allSectors = new Set(recs.flatMap((r) => r.sector));
+      const tagCounts = new Map<string, number>();
+      for (const tag of recs.flatMap((r) => r.tags ?? [])) {
+        tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+      }
 
       return {
         code: recs[0].code,
@@ -151,7 +920,13 @@ export function getStockHistory(records: SignalRecord[]): StockHistory[] {
             : null,
         avgScore: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
         maxScore: Math.max(...scores),
-        noteSummary: [],
+        noteSummary: recs
+          .filter((r) => r.note)
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map((r) => `${r.date}：${r.note}`),
+        tagSummary: Array.from(tagCounts.entries())
+          .map(([tag, count]) => ({ tag, count }))
+          .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)),
       };
     })
     .sort((a, b) => b.appearances - a.appearances || b.avgScore - a.avgScore);
@@ -194,37 +969,89 @@ export function exportToJSON(records: SignalRecord[]): string {
 
 // ================= 板块分时截图相关（改为 API 调用）=================
 
-// 上传/更新截图
-export async function upsertSectorScreenshot(
-  shot: SectorScreenshot
-): Promise<void> {
+// 上传截图（追加到该日期 + 板块已有截图之后）
+export async function addSectorScreenshot(
+  shot: SectorScreenshotUpload
+): Promise<SectorScreenshot | null> {
   try {
     const res = await fetch("/api/sector-screenshots", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(shot),
     });
-    if (!res.ok) throw new Error("保存截图失败");
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `保存截图失败 (状态码: ${res.status})`);
+    return data as SectorScreenshot;
   } catch (error) {
-    console.error("upsertSectorScreenshot error:", error);
+    console.error("addSectorScreenshot error:", error);
+    return null;
   }
 }
 
-// 读取单个「日期 + 板块」的截图
-export async function getSectorScreenshot(
+// 修改截图时间或说明
+export async function updateSectorScreenshot(
+  id: number,
+  patch: SectorScreenshotPatch
+): Promise<SectorScreenshot> {
+  const res = await fetch(`/api/sector-screenshots/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `修改截图失败 (状态码: ${res.status})`;
+    console.error("updateSectorScreenshot API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 删除单张截图
+export async function deleteSectorScreenshot(id: number): Promise<void> {
+  const res = await fetch(`/api/sector-screenshots/${id}`, { method: "DELETE" });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const errorMessage = errorData.error || `删除截图失败 (状态码: ${res.status})`;
+    console.error("deleteSectorScreenshot API error:", errorMessage, errorData);
+    throw new Error(errorMessage);
+  }
+}
+
+// 调整某日期 + 板块截图的顺序，ids 为全部截图的新顺序
+export async function reorderSectorScreenshots(
+  date: string,
+  sector: string,
+  ids: number[]
+): Promise<SectorScreenshot[]> {
+  const res = await fetch("/api/sector-screenshots/order", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ date, sector, ids }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const errorMessage = data.error || `调整截图顺序失败 (状态码: ${res.status})`;
+    console.error("reorderSectorScreenshots API error:", errorMessage, data);
+    throw new Error(errorMessage);
+  }
+  return data;
+}
+
+// 读取单个「日期 + 板块」的全部截图（按展示顺序）
+export async function getSectorScreenshots(
   date: string,
   sector: string
-): Promise<SectorScreenshot | null> {
+): Promise<SectorScreenshot[]> {
   try {
     const res = await fetch(
       `/api/sector-screenshots?date=${date}&sector=${encodeURIComponent(sector)}`
     );
-    if (!res.ok) return null;
-    const data: SectorScreenshot[] = await res.json();
-    return data[0] || null;
+    if (!res.ok) return [];
+    return await res.json();
   } catch (error) {
-    console.error("getSectorScreenshot error:", error);
-    return null;
+    console.error("getSectorScreenshots error:", error);
+    return [];
   }
 }
 
@@ -0,0 +1,428 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { parseSectorPattern } from "./signal-db";
+import { codeToTsCode, getDailyRange, mapWithConcurrency, TUSHARE_CONCURRENCY } from "./tushare";
+import type {
+  Trade,
+  TradeInput,
+  TradeJournal,
+  TradePosition,
+  TradeSide,
+  TradeSourceStat,
+} from "./types";
+
+/**
+ * 交易记录（服务端）：实际买入/卖出，可关联信号记录
+ * 盈亏按代码先进先出配对：卖出优先扣减同一信号的买入，再按时间扣减其他买入
+ * 买入费用计入成本，卖出费用从卖出金额中扣除；剩余持仓按最近收盘价估值
+ */
+
+export const UNLINKED_SOURCE = "未关联信号";
+export const NO_PATTERN_SOURCE = "无形态";
+const MAX_NAME_LENGTH = 64;
+// 估值时向前查找收盘价的自然日数（覆盖长假与短期停牌）
+const MARK_LOOKBACK_DAYS = 20;
+
+type TradeData = {
+  code?: string;
+  name?: string | null;
+  side?: TradeSide;
+  price?: number;
+  quantity?: number;
+  fees?: number;
+  tradedAt?: Date;
+  signalId?: number | null;
+};
+
+/**
+ * 校验成交数据，非法时抛出带中文说明的 Error
+ * partial 为 true 时（修改）只校验出现的字段，否则代码、方向、价格、数量、时间必填
+ */
+export function toTradeData(input: TradeInput, partial = false): TradeData {
+  const data: TradeData = {};
+  if (!partial) {
+    for (const key of ["code", "side", "price", "quantity", "tradedAt"] as const) {
+      if (input[key] === undefined || input[key] === null || input[key] === "") {
+        throw new Error(`缺少字段: ${key}`);
+      }
+    }
+  }
+  if (input.code !== undefined) {
+    const code = String(input.code).replace(/\.(SH|SZ|BJ)$/i, "").trim();
+    if (!/^\d{6}$/.test(code)) throw new Error(`无效的股票代码: ${input.code}`);
+    data.code = code;
+  }
+  if (input.name !== undefined) {
+    data.name = input.name ? String(input.name).trim().slice(0, MAX_NAME_LENGTH) || null : null;
+  }
+  if (input.side !== undefined) {
+    if (input.side !== "buy" && input.side !== "sell") {
+      throw new Error(`无效的买卖方向: ${input.side}`);
+    }
+    data.side = input.side;
+  }
+  if (input.price !== undefined) {
+    const price = Number(input.price);
+    if (!Number.isFinite(price) || price <= 0) throw new Error("成交价必须大于 0");
+    data.price = price;
+  }
+  if (input.quantity !== undefined) {
+    const quantity = Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new Error("成交数量必须是正整数");
+    data.quantity = quantity;
+  }
+  if (input.fees !== undefined) {
+    const fees = Number(input.fees ?? 0);
+    if (!Number.isFinite(fees) || fees < 0) throw new Error("费用不能为负数");
+    data.fees = fees;
+  }
+  if (input.tradedAt !== undefined) {
+    const tradedAt = new Date(input.tradedAt);
+    if (isNaN(tradedAt.getTime())) throw new Error(`无效的成交时间: ${input.tradedAt}`);
+    data.tradedAt = tradedAt;
+  }
+  if (input.signalId !== undefined) {
+    if (input.signalId === null) {
+      data.signalId = null;
+    } else if (!Number.isInteger(input.signalId) || input.signalId <= 0) {
+      throw new Error(`无效的信号记录 id: ${input.signalId}`);
+    } else {
+      data.signalId = input.signalId;
+    }
+  }
+  return data;
+}
+
+/**
+ * 校验关联的信号记录：必须存在且代码一致，不通过时返回错误说明
+ */
+export async function checkTradeSignal(
+  signalId: number | null | undefined,
+  code: string
+): Promise<string | null> {
+  if (signalId == null) return null;
+  const signal = await prisma.signalRecord.findUnique({
+    where: { id: signalId },
+    select: { code: true },
+  });
+  if (!signal) return `关联的信号记录不存在: ${signalId}`;
+  if (signal.code !== code) {
+    return `关联的信号记录代码为 ${signal.code}，与成交代码 ${code} 不一致`;
+  }
+  return null;
+}
+
+const TRADE_INCLUDE = {
+  signal: { select: { date: true, code: true, name: true, sectorPattern: true } },
+} satisfies Prisma.TradeInclude;
+
+type TradeWithSignal = Prisma.TradeGetPayload<{ include: typeof TRADE_INCLUDE }>;
+
+function toTrade(row: TradeWithSignal): Trade {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    side: row.side === "sell" ? "sell" : "buy",
+    price: row.price,
+    quantity: row.quantity,
+    fees: row.fees,
+    tradedAt: row.tradedAt.toISOString(),
+    signalId: row.signalId,
+    signal: row.signal
+      ? {
+          date: row.signal.date.toISOString().slice(0, 10),
+          code: row.signal.code,
+          name: row.signal.name,
+          sector_pattern: parseSectorPattern(row.signal.sectorPattern),
+        }
+      : null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 成交列表（按成交时间倒序），可按代码、关联信号与成交日期范围筛选
+ */
+export async function listTrades(filter: {
+  code?: string;
+  signalId?: number;
+  from?: string; // YYYY-MM-DD（含）
+  to?: string; // YYYY-MM-DD（含）
+} = {}): Promise<Trade[]> {
+  const tradedAt: Prisma.DateTimeFilter = {};
+  if (filter.from) tradedAt.gte = new Date(`${filter.from}T00:00:00`);
+  if (filter.to) tradedAt.lte = new Date(`${filter.to}T23:59:59.999`);
+  const rows = await prisma.trade.findMany({
+    where: {
+      code: filter.code || undefined,
+      signalId: filter.signalId,
+      tradedAt: filter.from || filter.to ? tradedAt : undefined,
+    },
+    orderBy: [{ tradedAt: "desc" }, { id: "desc" }],
+    include: TRADE_INCLUDE,
+  });
+  return rows.map(toTrade);
+}
+
+// 单笔成交，不存在时返回 null
+export async function getTrade(id: number): Promise<Trade | null> {
+  const row = await prisma.trade.findUnique({ where: { id }, include: TRADE_INCLUDE });
+  return row ? toTrade(row) : null;
+}
+
+export async function createTrade(input: TradeInput): Promise<Trade> {
+  const data = toTradeData(input);
+  const row = await prisma.trade.create({
+    data: {
+      code: data.code!,
+      name: data.name ?? null,
+      side: data.side!,
+      price: data.price!,
+      quantity: data.quantity!,
+      fees: data.fees ?? 0,
+      tradedAt: data.tradedAt!,
+      signalId: data.signalId ?? null,
+    },
+    include: TRADE_INCLUDE,
+  });
+  return toTrade(row);
+}
+
+// 修改成交，不存在时返回 null
+export async function updateTrade(id: number, input: TradeInput): Promise<Trade | null> {
+  const data = toTradeData(input, true);
+  const existing = await prisma.trade.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) return null;
+  const row = await prisma.trade.update({ where: { id }, data, include: TRADE_INCLUDE });
+  return toTrade(row);
+}
+
+// 删除成交，不存在时返回 false
+export async function deleteTrade(id: number): Promise<boolean> {
+  const { count } = await prisma.trade.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+// ================= 盈亏计算 =================
+
+export interface MarkPrice {
+  close: number;
+  date: string; // YYYY-MM-DD
+}
+
+// 一笔买入形成的持仓批次
+interface Lot {
+  code: string;
+  source: string;
+  signalId: number | null;
+  boughtAt: Date;
+  cost: number; // 每股成本（含买入费用）
+  remaining: number;
+  realized: number;
+  closedAt: Date | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function tradeSource(trade: Trade): string {
+  if (!trade.signal) return UNLINKED_SOURCE;
+  return trade.signal.sector_pattern ?? NO_PATTERN_SOURCE;
+}
+
+// 两个时间之间相差的自然日数（按本地日期）
+function calendarDays(from: Date, to: Date): number {
+  const a = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const b = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((b.getTime() - a.getTime()) / 86400000);
+}
+
+function summarizeLots(
+  source: string,
+  lots: Lot[],
+  marks: Map<string, MarkPrice>
+): TradeSourceStat {
+  const closed = lots.filter((l) => l.closedAt);
+  const open = lots.filter((l) => l.remaining > 0);
+  const wins = closed.filter((l) => l.realized > 0).length;
+  const holding = closed.map((l) => calendarDays(l.boughtAt, l.closedAt!));
+  const unmarked = open.some((l) => !marks.has(l.code));
+  return {
+    source,
+    buys: lots.length,
+    closedLots: closed.length,
+    wins,
+    winRate: closed.length > 0 ? round2((wins / closed.length) * 100) : null,
+    avgHoldingDays:
+      holding.length > 0
+        ? Math.round((holding.reduce((a, b) => a + b, 0) / holding.length) * 10) / 10
+        : null,
+    realizedPnl: round2(lots.reduce((sum, l) => sum + l.realized, 0)),
+    unrealizedPnl: unmarked
+      ? null
+      : round2(
+          open.reduce((sum, l) => sum + l.remaining * (marks.get(l.code)!.close - l.cost), 0)
+        ),
+    openQuantity: open.reduce((sum, l) => sum + l.remaining, 0),
+  };
+}
+
+/**
+ * 由全部成交计算盈亏（纯函数）；marks 为各代码用于估值的最近收盘价
+ */
+export function computeTradeJournal(
+  trades: Trade[],
+  marks: Map<string, MarkPrice>
+): TradeJournal {
+  const sorted = [...trades].sort(
+    (a, b) => a.tradedAt.localeCompare(b.tradedAt) || a.id - b.id
+  );
+  const lots: Lot[] = [];
+  const names = new Map<string, string | null>();
+  const warnings: string[] = [];
+
+  for (const t of sorted) {
+    if (t.name || !names.has(t.code)) names.set(t.code, t.name ?? names.get(t.code) ?? null);
+    const at = new Date(t.tradedAt);
+    if (t.side === "buy") {
+      lots.push({
+        code: t.code,
+        source: tradeSource(t),
+        signalId: t.signalId,
+        boughtAt: at,
+        cost: t.price + t.fees / t.quantity,
+        remaining: t.quantity,
+        realized: 0,
+        closedAt: null,
+      });
+      continue;
+    }
+
+    const net = t.price - t.fees / t.quantity; // 每股卖出净额
+    const candidates = lots.filter((l) => l.code === t.code && l.remaining > 0);
+    const ordered =
+      t.signalId != null
+        ? [
+            ...candidates.filter((l) => l.signalId === t.signalId),
+            ...candidates.filter((l) => l.signalId !== t.signalId),
+          ]
+        : candidates;
+    let left = t.quantity;
+    for (const lot of ordered) {
+      if (left === 0) break;
+      const matched = Math.min(left, lot.remaining);
+      lot.realized += matched * (net - lot.cost);
+      lot.remaining -= matched;
+      left -= matched;
+      if (lot.remaining === 0) lot.closedAt = at;
+    }
+    if (left > 0) {
+      warnings.push(
+        `${t.code} ${t.tradedAt.slice(0, 10)} 卖出 ${t.quantity} 股超过持仓，超出的 ${left} 股未计入盈亏`
+      );
+    }
+  }
+
+  const bySource = new Map<string, Lot[]>();
+  const byCode = new Map<string, Lot[]>();
+  for (const lot of lots) {
+    if (!bySource.has(lot.source)) bySource.set(lot.source, []);
+    bySource.get(lot.source)!.push(lot);
+    if (!byCode.has(lot.code)) byCode.set(lot.code, []);
+    byCode.get(lot.code)!.push(lot);
+  }
+
+  const positions: TradePosition[] = Array.from(byCode.entries()).map(([code, codeLots]) => {
+    const open = codeLots.filter((l) => l.remaining > 0);
+    const openQuantity = open.reduce((sum, l) => sum + l.remaining, 0);
+    const mark = marks.get(code) ?? null;
+    if (openQuantity > 0 && !mark) warnings.push(`${code} 取不到最近收盘价，未计算浮动盈亏`);
+    return {
+      code,
+      name: names.get(code) ?? null,
+      openQuantity,
+      avgCost:
+        openQuantity > 0
+          ? Math.round(
+              (open.reduce((sum, l) => sum + l.remaining * l.cost, 0) / openQuantity) * 1000
+            ) / 1000
+          : null,
+      markPrice: openQuantity > 0 ? mark?.close ?? null : null,
+      markDate: openQuantity > 0 ? mark?.date ?? null : null,
+      realizedPnl: round2(codeLots.reduce((sum, l) => sum + l.realized, 0)),
+      unrealizedPnl:
+        openQuantity === 0
+          ? 0
+          : mark
+            ? round2(open.reduce((sum, l) => sum + l.remaining * (mark.close - l.cost), 0))
+            : null,
+    };
+  });
+
+  return {
+    totals: summarizeLots("全部", lots, marks),
+    sources: Array.from(bySource.entries())
+      .map(([source, sourceLots]) => summarizeLots(source, sourceLots, marks))
+      .sort((a, b) => b.buys - a.buys || a.source.localeCompare(b.source)),
+    positions: positions.sort(
+      (a, b) =>
+        Number(b.openQuantity > 0) - Number(a.openQuantity > 0) || a.code.localeCompare(b.code)
+    ),
+    warnings,
+  };
+}
+
+function fmtYmd(d: Date): string {
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * 各代码最近一个交易日的收盘价；取不到的代码不在结果中
+ */
+export async function getLatestCloses(codes: string[]): Promise<Map<string, MarkPrice>> {
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(start.getDate() - MARK_LOOKBACK_DAYS);
+  const results = await mapWithConcurrency(codes, TUSHARE_CONCURRENCY, async (code) => {
+    const tsCode = codeToTsCode(code);
+    if (!tsCode) return null;
+    try {
+      const rows = (await getDailyRange(tsCode, fmtYmd(start), fmtYmd(today))) || [];
+      const latest = [...rows].sort((a, b) => b.trade_date.localeCompare(a.trade_date))[0];
+      if (!latest || !(latest.close > 0)) return null;
+      const td = latest.trade_date;
+      return {
+        code,
+        mark: {
+          close: latest.close,
+          date: `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`,
+        },
+      };
+    } catch (error) {
+      console.error(`getLatestCloses [${code}] error:`, error);
+      return null;
+    }
+  });
+  const marks = new Map<string, MarkPrice>();
+  for (const r of results) if (r) marks.set(r.code, r.mark);
+  return marks;
+}
+
+/**
+ * 交易日志：全部成交的已实现/浮动盈亏、胜率与平均持有天数（按信号来源分组）
+ * 只对仍有持仓的代码请求收盘价
+ */
+export async function getTradeJournal(): Promise<TradeJournal> {
+  const trades = await listTrades();
+  const balance = new Map<string, number>();
+  for (const t of trades) {
+    const delta = t.side === "buy" ? t.quantity : -t.quantity;
+    balance.set(t.code, (balance.get(t.code) ?? 0) + delta);
+  }
+  const openCodes = Array.from(balance.entries())
+    .filter(([, qty]) => qty > 0)
+    .map(([code]) => code);
+  return computeTradeJournal(trades, await getLatestCloses(openCodes));
+}
@@ -0,0 +1,206 @@
+import type {
+  DailyBar,
+  DailyBasicRow,
+  FinaIndicatorRow,
+  MarketDataProvider,
+  SectorIndexBar,
+  SectorIndexRow,
+  SectorMinuteSeries,
+  StkLimitRow,
+  StockBasicRow,
+  TradeCalRow,
+} from "./market-data";
+import { readSectorMinutesDir } from "./sector-minutes";
+
+const DEFAULT_TUSHARE_API_URL = "http://api.tushare.pro";
+
+interface TushareResponse<T = any> {
+  request_id: string;
+  code: number;
+  msg: string | null;
+  data?: {
+    fields: string[];
+    items: T[][];
+  };
+}
+
+/**
+ * tushare pro 数据源
+ * token 未配置时不在创建时报错，而是在首次调用时给出明确提示
+ * tushare 不提供板块指数分钟线，板块分时从本地目录 sectorMinutesDir 读取
+ */
+export function createTushareProvider(options: {
+  token?: string;
+  apiUrl?: string;
+  sectorMinutesDir?: string;
+}): MarketDataProvider {
+  const apiUrl = options.apiUrl || DEFAULT_TUSHARE_API_URL;
+
+  /**
+   * 调用 Tushare API
+   */
+  async function callTushareAPI(
+    apiName: string,
+    params: Record<string, any> = {},
+    fields: string[] = []
+  ): Promise<any> {
+    if (!options.token) {
+      throw new Error("未配置 TUSHARE_TOKEN，请在 .env 中填写 tushare token");
+    }
+    try {
+      const response = await fetch(apiUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          api_name: apiName,
+          token: options.token,
+          params,
+          fields: fields.join(","),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result: TushareResponse = await response.json();
+
+      if (result.code !== 0) {
+        throw new Error(result.msg || "API调用失败");
+      }
+
+      if (!result.data) {
+        return [];
+      }
+
+      // 将数据转换为对象数组
+      const { fields: fieldNames, items } = result.data;
+      return items.map((item) => {
+        const obj: Record<string, any> = {};
+        fieldNames.forEach((field, index) => {
+          obj[field] = item[index];
+        });
+        return obj;
+      });
+    } catch (error) {
+      console.error(`Tushare API ${apiName} error:`, error);
+      throw error;
+    }
+  }
+
+  return {
+    name: "tushare",
+
+    tradeCal(startDate, endDate): Promise<TradeCalRow[]> {
+      return callTushareAPI(
+        "trade_cal",
+        {
+          exchange: "SSE", // 上交所
+          start_date: startDate,
+          end_date: endDate,
+        },
+        ["cal_date", "is_open"]
+      );
+    },
+
+    stockBasic(filter = {}): Promise<StockBasicRow[]> {
+      const params: Record<string, any> = {
+        exchange: "",
+        list_status: "L", // L-上市，D-退市，P-暂停
+      };
+      if (filter.tsCode) {
+        params.ts_code = filter.tsCode;
+      } else if (filter.symbol) {
+        // 优先使用 symbol（6位数字代码）查询，更直接
+        params.symbol = filter.symbol;
+      }
+      return callTushareAPI(
+        "stock_basic",
+        params,
+        ["ts_code", "symbol", "name", "area", "industry", "market", "list_date"]
+      );
+    },
+
+    daily({ tsCode, tradeDate, startDate, endDate }): Promise<DailyBar[]> {
+      return callTushareAPI(
+        "daily",
+        {
+          ts_code: tsCode,
+          trade_date: tradeDate,
+          start_date: startDate,
+          end_date: endDate,
+        },
+        [
+          "ts_code",
+          "trade_date",
+          "open",
+          "high",
+          "low",
+          "close",
+          "pre_close",
+          "change",
+          "pct_chg",
+          "vol",
+          "amount",
+        ]
+      );
+    },
+
+    stkLimit(tsCode, startDate, endDate): Promise<StkLimitRow[]> {
+      return callTushareAPI(
+        "stk_limit",
+        { ts_code: tsCode, start_date: startDate, end_date: endDate },
+        ["trade_date", "up_limit", "down_limit"]
+      );
+    },
+
+    dailyBasic(tsCode, startDate, endDate): Promise<DailyBasicRow[]> {
+      return callTushareAPI(
+        "daily_basic",
+        { ts_code: tsCode, start_date: startDate, end_date: endDate },
+        ["ts_code", "trade_date", "turnover_rate", "turnover_rate_f", "total_mv", "circ_mv"]
+      );
+    },
+
+    // fina_indicator 的 start_date/end_date 按公告日期过滤
+    finaIndicator(tsCode, annStartDate, annEndDate): Promise<FinaIndicatorRow[]> {
+      return callTushareAPI(
+        "fina_indicator",
+        { ts_code: tsCode, start_date: annStartDate, end_date: annEndDate },
+        ["ts_code", "ann_date", "end_date", "debt_to_assets"]
+      );
+    },
+
+    async sectorMinutes(sector, tradeDate): Promise<SectorMinuteSeries | null> {
+      if (!options.sectorMinutesDir) {
+        throw new Error(
+          "未配置板块分钟线数据源：tushare 不提供板块指数分钟线，请在 .env 中设置 SECTOR_MINUTES_DIR 指向本地分钟线目录"
+        );
+      }
+      return readSectorMinutesDir(options.sectorMinutesDir, sector, tradeDate);
+    },
+
+    // 同花顺 A 股概念（N）与行业（I）指数
+    async sectorIndices(): Promise<SectorIndexRow[]> {
+      const lists = await Promise.all(
+        ["N", "I"].map(
+          (type): Promise<Array<{ ts_code: string; name: string; type: string }>> =>
+            callTushareAPI("ths_index", { exchange: "A", type }, ["ts_code", "name", "type"])
+        )
+      );
+      return lists.flat().map((r) => ({ ...r, source: "ths" as const }));
+    },
+
+    async sectorIndexDaily(tsCode, startDate, endDate): Promise<SectorIndexBar[]> {
+      const rows: Array<Omit<SectorIndexBar, "pct_chg"> & { pct_change: number | null }> =
+        await callTushareAPI(
+          "ths_daily",
+          { ts_code: tsCode, start_date: startDate, end_date: endDate },
+          ["ts_code", "trade_date", "open", "high", "low", "close", "pre_close", "pct_change", "vol"]
+        );
+      return rows.map(({ pct_change, ...r }) => ({ ...r, pct_chg: pct_change }));
+    },
+  };
+}
@@ -1,67 +1,8 @@
-// Tushare API 服务
-const TUSHARE_TOKEN = "5501c8c52fffbca1ee27e604ec0c91b5aad636393f3f9ef45f9fed7f";
-const TUSHARE_API_URL = "http://api.tushare.pro";
-
-interface TushareResponse<T = any> {
-  request_id: string;
-  code: number;
-  msg: string | null;
-  data?: {
-    fields: string[];
-    items: T[][];
-  };
-}
-
-/**
- * 调用 Tushare API
- */
-async function callTushareAPI(
-  apiName: string,
-  params: Record<string, any> = {},
-  fields: string[] = []
-): Promise<any> {
-  try {
-    const response = await fetch(TUSHARE_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        api_name: apiName,
-        token: TUSHARE_TOKEN,
-        params,
-        fields: fields.join(","),
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result: TushareResponse = await response.json();
-
-    if (result.code !== 0) {
-      throw new Error(result.msg || "API调用失败");
-    }
-
-    if (!result.data) {
-      return [];
-    }
-
-    // 将数据转换为对象数组
-    const { fields: fieldNames, items } = result.data;
-    return items.map((item) => {
-      const obj: Record<string, any> = {};
-      fieldNames.forEach((field, index) => {
-        obj[field] = item[index];
-      });
-      return obj;
-    });
-  } catch (error) {
-    console.error(`Tushare API ${apiName} error:`, error);
-    throw error;
-  }
-}
+// 行情服务：均线、涨停等指标计算；底层数据来自 lib/market-data 中配置的数据源
+import { getMarketDataProvider } from "./market-data";
+import type { DailyBar, StockBasicRow, TradeCalRow } from "./market-data";
+import { classifySectorPattern } from "./sector-pattern";
+import type { SectorPatternSuggestion } from "./sector-pattern";
 
 /**
  * 获取交易日历
@@ -71,16 +12,8 @@ async function callTushareAPI(
 export async function getTradeCal(
   startDate: string,
   endDate: string
-): Promise<Array<{ cal_date: string; is_open: number }>> {
-  return callTushareAPI(
-    "trade_cal",
-    {
-      exchange: "SSE", // 上交所
-      start_date: startDate,
-      end_date: endDate,
-    },
-    ["cal_date", "is_open"]
-  );
+): Promise<TradeCalRow[]> {
+  return getMarketDataProvider().tradeCal(startDate, endDate);
 }
 
 /**
@@ -91,30 +24,8 @@ export async function getTradeCal(
 export async function getStockBasic(
   tsCode?: string,
   symbol?: string
-): Promise<Array<{
-  ts_code: string;
-  symbol: string;
-  name: string;
-  area: string;
-  industry: string;
-  market: string;
-  list_date: string;
-}>> {
-  const params: Record<string, any> = {
-    exchange: "",
-    list_status: "L", // L-上市，D-退市，P-暂停
-  };
-  if (tsCode) {
-    params.ts_code = tsCode;
-  } else if (symbol) {
-    // 优先使用 symbol（6位数字代码）查询，更直接
-    params.symbol = symbol;
-  }
-  return callTushareAPI(
-    "stock_basic",
-    params,
-    ["ts_code", "symbol", "name", "area", "industry", "market", "list_date"]
-  );
+): Promise<StockBasicRow[]> {
+  return getMarketDataProvider().stockBasic({ tsCode, symbol });
 }
 
 /**
@@ -125,39 +36,8 @@ export async function getStockBasic(
 export async function getDaily(
   tsCode: string,
   tradeDate: string
-): Promise<Array<{
-  ts_code: string;
-  trade_date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  pre_close: number;
-  change: number;
-  pct_chg: number;
-  vol: number;
-  amount: number;
-}>> {
-  return callTushareAPI(
-    "daily",
-    {
-      ts_code,
-      trade_date: tradeDate,
-    },
-    [
-      "ts_code",
-      "trade_date",
-      "open",
-      "high",
-      "low",
-      "close",
-      "pre_close",
-      "change",
-      "pct_chg",
-      "vol",
-      "amount",
-    ]
-  );
+): Promise<DailyBar[]> {
+  return getMarketDataProvider().daily({ tsCode, tradeDate });
 }
 
 /**
@@ -175,8 +55,13 @@ export function codeToTsCode(code: string): string {
     return `${cleanCode}.SZ`;
   } else if (cleanCode.startsWith("68")) {
     return `${cleanCode}.SH`; // 科创板
-  } else if (cleanCode.startsWith("43") || cleanCode.startsWith("83") || cleanCode.startsWith("87")) {
-    return `${cleanCode}.BJ`; // 北交所
+  } else if (
+    cleanCode.startsWith("43") ||
+    cleanCode.startsWith("83") ||
+    cleanCode.startsWith("87") ||
+    cleanCode.startsWith("92")
+  ) {
+    return `${cleanCode}.BJ`; // 北交所（含 920 开头的新代码）
   }
   return `${cleanCode}.SZ`; // 默认深交所
 }
@@ -191,56 +76,164 @@ export async function getDailyRange(
   tsCode: string,
   startDate: string,
   endDate: string
-): Promise<Array<{
-  ts_code: string;
-  trade_date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  pct_chg: number;
-  vol: number;
-  amount: number;
-}>> {
-  return callTushareAPI(
-    "daily",
-    {
-      ts_code: tsCode,
-      start_date: startDate,
-      end_date: endDate,
-    },
-    ["ts_code", "trade_date", "open", "high", "low", "close", "pct_chg", "vol", "amount"]
+): Promise<DailyBar[]> {
+  return getMarketDataProvider().daily({ tsCode, startDate, endDate });
+}
+
+export type DailyRow = Awaited<ReturnType<typeof getDailyRange>>[number];
+
+// Date -> YYYYMMDD
+function fmtYmd(d: Date): string {
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// trade_date 格式 YYYYMMDD → YYYY-MM-DD
+function tradeDateToIso(td: string): string {
+  return `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`;
+}
+
+export type LimitUpEvent = {
+  date: string; // 录入日之后首次触及涨停价的交易日 YYYY-MM-DD
+  sealed: boolean; // 当日收盘封住涨停；false 表示盘中触及后开板（炸板）
+  limitPrice: number; // 当日涨停价
+  sealedDate: string | null; // 首次收盘封住涨停的交易日（sealed 时与 date 相同）
+};
+
+// 创业板注册制改革首日，此前创业板与主板相同（10%，ST 5%）
+const CHINEXT_20PCT_SINCE = "20200824";
+
+/**
+ * 涨幅限制比例：北交所 30%，科创板（68 开头）20%，
+ * 创业板（30 开头）自 2020-08-24 起 20%、此前同主板，主板 ST 5%，其余主板 10%
+ * tradeDate 为 YYYYMMDD，不传时按现行规则
+ */
+export function limitUpRatio(tsCode: string, isST: boolean, tradeDate?: string): number {
+  if (tsCode.endsWith(".BJ")) return 0.3;
+  if (tsCode.startsWith("68")) return 0.2;
+  if (tsCode.startsWith("30") && (!tradeDate || tradeDate >= CHINEXT_20PCT_SINCE)) return 0.2;
+  return isST ? 0.05 : 0.1;
+}
+
+// 涨停价 = 前收盘价 ×（1 + 比例），四舍五入到分
+export function calcLimitPrice(preClose: number, ratio: number): number {
+  return Math.round(preClose * (1 + ratio) * 100 + 1e-6) / 100;
+}
+
+// ST 状态缓存（按当前证券简称判断，一天内不重复查询）
+// 数据源没有简称变更历史，历史交易日也按当前 ST 状态计算，戴帽/摘帽前后的涨停价可能不准
+const ST_CACHE_TTL = 24 * 60 * 60 * 1000;
+const stCache = new Map<string, { isST: boolean; at: number }>();
+
+async function isSTStock(tsCode: string): Promise<boolean> {
+  const cached = stCache.get(tsCode);
+  if (cached && Date.now() - cached.at < ST_CACHE_TTL) return cached.isST;
+  try {
+    const basic = await getStockBasic(tsCode);
+    const isST = /ST/i.test(basic[0]?.name ?? "");
+    stCache.set(tsCode, { isST, at: Date.now() });
+    return isST;
+  } catch (error) {
+    console.warn(`查询 ${tsCode} 是否为 ST 失败，按非 ST 处理:`, error);
+    return false;
+  }
+}
+
+// stk_limit 需要额外积分，确认无权限后不再请求
+let stkLimitUnavailable = false;
+
+/**
+ * 每个交易日的涨停价（key 为 trade_date）
+ * 优先使用数据源的 stk_limit（已包含板块、ST 等规则）；
+ * 无权限或查询失败时按板块/ST 比例与日线前收盘价计算，已知不足：
+ *   ST 按当前简称判断（见 isSTStock），新股上市初期不设涨跌幅的交易日也按比例计算
+ */
+export async function getUpLimits(
+  tsCode: string,
+  rows: DailyRow[]
+): Promise<Map<string, number>> {
+  if (rows.length === 0) return new Map();
+  const dates = rows.map((r) => r.trade_date).sort();
+
+  if (!stkLimitUnavailable) {
+    try {
+      const limits = await getMarketDataProvider().stkLimit(
+        tsCode,
+        dates[0],
+        dates[dates.length - 1]
+      );
+      if (limits.length > 0) {
+        return new Map(limits.map((l) => [l.trade_date, l.up_limit]));
+      }
+    } catch (error: any) {
+      if (String(error?.message).includes("权限")) stkLimitUnavailable = true;
+      console.warn(`stk_limit [${tsCode}] 不可用，改为按板块规则计算涨停价:`, error?.message);
+    }
+  }
+
+  const isST = await isSTStock(tsCode);
+  return new Map(
+    rows
+      .filter((r) => r.pre_close > 0)
+      .map((r) => [
+        r.trade_date,
+        calcLimitPrice(r.pre_close, limitUpRatio(tsCode, isST, r.trade_date)),
+      ])
   );
 }
 
 /**
- * 从指定录入日之后（含当日）检查是否出现过涨停，返回首次涨停日期（YYYY-MM-DD），若无则返回 null
- * 这里简单以日涨跌幅 pct_chg ≥ 9.8 视为涨停（忽略 ST/20cm 等特殊情况）
+ * 在日线中找录入日（含）之后首次触及涨停价的交易日，并判断是否封板；
+ * 首次触及即炸板时继续向后找首次封板日
+ */
+function findFirstLimitUp(
+  rows: DailyRow[],
+  recordDate: string,
+  upLimits: Map<string, number>
+): LimitUpEvent | null {
+  const startDate = recordDate.replace(/-/g, "");
+  const sorted = rows
+    .filter((r) => r.trade_date >= startDate)
+    .sort((a, b) => a.trade_date.localeCompare(b.trade_date));
+  const EPS = 0.001; // 价格以分为单位，容忍浮点误差
+
+  let first: Omit<LimitUpEvent, "sealedDate"> | null = null;
+  for (const r of sorted) {
+    const limitPrice = upLimits.get(r.trade_date);
+    if (!limitPrice || r.high < limitPrice - EPS) continue;
+    const sealed = r.close >= limitPrice - EPS;
+    if (!first) first = { date: tradeDateToIso(r.trade_date), sealed, limitPrice };
+    if (sealed) return { ...first, sealedDate: tradeDateToIso(r.trade_date) };
+  }
+  return first ? { ...first, sealedDate: null } : null;
+}
+
+/**
+ * 从指定录入日之后（含当日）检查是否出现过涨停，返回首次触及涨停的信息，若无则返回 null
+ * 涨停价按板块（主板 10% / 创业板、科创板 20% / 北交所 30%，创业板 2020-08-24 前为 10%）、ST（5%）与前收盘价确定
  */
 export async function getFirstLimitUpSince(
   code: string,
   recordDate: string
-): Promise<string | null> {
+): Promise<LimitUpEvent | null> {
   const tsCode = codeToTsCode(code);
   if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
 
-  const startDate = recordDate.replace(/-/g, "");
-  const today = new Date();
-  const fmt = (d: Date) =>
-    `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
-  const endDate = fmt(today);
-
-  const rows = await getDailyRange(tsCode, startDate, endDate);
+  const rows = await getDailyRange(tsCode, recordDate.replace(/-/g, ""), fmtYmd(new Date()));
   if (!rows || rows.length === 0) return null;
+  return findFirstLimitUp(rows, recordDate, await getUpLimits(tsCode, rows));
+}
 
-  // 按日期正序，找到第一天涨跌幅达到阈值的记录
-  const sorted = [...rows].sort((a, b) => a.trade_date.localeCompare(b.trade_date));
-  const THRESHOLD = 9.8; // 近似 10% 涨停
-  const hit = sorted.find((r) => typeof r.pct_chg === "number" && r.pct_chg >= THRESHOLD);
-  if (!hit) return null;
-
-  const td = hit.trade_date;
-  return `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`;
+/**
+ * 同 getFirstLimitUpSince，但使用调用方已取到的日线（需覆盖录入日至今），避免重复请求
+ */
+export async function getFirstLimitUpInRows(
+  tsCode: string,
+  rows: DailyRow[],
+  recordDate: string
+): Promise<LimitUpEvent | null> {
+  const since = rows.filter((r) => r.trade_date >= recordDate.replace(/-/g, ""));
+  if (since.length === 0) return null;
+  return findFirstLimitUp(since, recordDate, await getUpLimits(tsCode, since));
 }
 
 /**
@@ -321,28 +314,18 @@ export type OhlcPoint = {
   close: number;
 };
 
-/**
- * 获取20日均线信息 + 近30个交易日 OHLC，用于蜡烛图
- */
-export async function getMA20WithOhlc(code: string): Promise<{
+export type Ma20WithOhlc = {
   ma20: number;
   latestClose: number;
   latestHigh: number;
   latestTradeDate: string;
   status: "above" | "touched" | "below";
   ohlc: OhlcPoint[];
-} | null> {
-  const tsCode = codeToTsCode(code);
-  if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
-
-  const today = new Date();
-  const start = new Date(today);
-  start.setDate(start.getDate() - 60);
-  const fmt = (d: Date) =>
-    `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+};
 
-  const rows = await getDailyRange(tsCode, fmt(start), fmt(today));
-  if (!rows || rows.length < 20) return null;
+// 由日线计算20日均线状态 + 近30个交易日 OHLC，不足20条时返回 null
+function computeMA20WithOhlc(rows: DailyRow[]): Ma20WithOhlc | null {
+  if (rows.length < 20) return null;
 
   const sorted = [...rows].sort((a, b) => b.trade_date.localeCompare(a.trade_date));
   const last20 = sorted.slice(0, 20);
@@ -350,8 +333,7 @@ export async function getMA20WithOhlc(code: string): Promise<{
   const latest = sorted[0];
   const latestClose = latest.close;
   const latestHigh = latest.high;
-  const td = latest.trade_date;
-  const latestTradeDate = `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`;
+  const latestTradeDate = tradeDateToIso(latest.trade_date);
 
   let status: "above" | "touched" | "below";
   if (latestClose >= ma20) status = "above";
@@ -359,7 +341,7 @@ export async function getMA20WithOhlc(code: string): Promise<{
   else status = "below";
 
   const ohlc: OhlcPoint[] = sorted.slice(0, 30).reverse().map((r) => ({
-    date: `${r.trade_date.slice(0, 4)}-${r.trade_date.slice(4, 6)}-${r.trade_date.slice(6, 8)}`,
+    date: tradeDateToIso(r.trade_date),
     open: Math.round(r.open * 100) / 100,
     high: Math.round(r.high * 100) / 100,
     low: Math.round(r.low * 100) / 100,
@@ -376,6 +358,21 @@ export async function getMA20WithOhlc(code: string): Promise<{
   };
 }
 
+/**
+ * 获取20日均线信息 + 近30个交易日 OHLC，用于蜡烛图
+ */
+export async function getMA20WithOhlc(code: string): Promise<Ma20WithOhlc | null> {
+  const tsCode = codeToTsCode(code);
+  if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
+
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(start.getDate() - 60);
+
+  const rows = await getDailyRange(tsCode, fmtYmd(start), fmtYmd(today));
+  return computeMA20WithOhlc(rows || []);
+}
+
 /** 5日线与30日线“接近”的阈值：相对差异小于该比例视为接近（2%） */
 const MA5_MA30_NEAR_THRESHOLD = 0.02;
 
@@ -429,36 +426,24 @@ export type DailyChartPoint = {
   ma30: number | null;
 };
 
-/**
- * 获取近30个交易日行情用于图表：收盘价、5日均线、30日均线
- * 需要约60个交易日数据以计算每日的 MA30
- */
-export async function getDailyChartData(code: string): Promise<{
+export type DailyChartData = {
   series: DailyChartPoint[];
   near: boolean;
-} | null> {
-  const tsCode = codeToTsCode(code);
-  if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
-
-  const today = new Date();
-  const start = new Date(today);
-  start.setDate(start.getDate() - 90);
-  const fmt = (d: Date) =>
-    `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+  typicalNearMa30: boolean; // 当日均价（O/H/L/C 均价）与 30 日线是否接近
+};
 
-  const rows = await getDailyRange(tsCode, fmt(start), fmt(today));
-  if (!rows || rows.length < 30) return null;
+// 由日线计算近30个交易日收盘价/MA5/MA30，不足30条时返回 null
+function computeDailyChart(rows: DailyRow[]): DailyChartData | null {
+  if (rows.length < 30) return null;
 
   const sorted = [...rows].sort((a, b) => b.trade_date.localeCompare(a.trade_date));
   const use = sorted.slice(0, 60);
-  if (use.length < 30) return null;
 
   const series: DailyChartPoint[] = [];
   for (let k = 29; k >= 0; k--) {
     if (k >= use.length) continue;
     const close = use[k].close;
-    const td = use[k].trade_date;
-    const date = `${td.slice(0, 4)}-${td.slice(4, 6)}-${td.slice(6, 8)}`;
+    const date = tradeDateToIso(use[k].trade_date);
     const slice5 = use.slice(k, k + 5);
     const slice30 = use.slice(k, k + 30);
     const ma5 = slice5.length >= 5
@@ -486,21 +471,166 @@ export async function getDailyChartData(code: string): Promise<{
 }
 
 /**
- * 根据股票代码获取股票信息（名称、涨幅等）
- * @param code 6位股票代码
- * @param tradeDate 交易日期 YYYYMMDD
+ * 获取近30个交易日行情用于图表：收盘价、5日均线、30日均线
+ * 需要约60个交易日数据以计算每日的 MA30
  */
-export async function getStockInfo(
+export async function getDailyChartData(code: string): Promise<DailyChartData | null> {
+  const tsCode = codeToTsCode(code);
+  if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
+
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(start.getDate() - 90);
+
+  const rows = await getDailyRange(tsCode, fmtYmd(start), fmtYmd(today));
+  return computeDailyChart(rows || []);
+}
+
+export type StockIndicators = {
+  code: string;
+  ma20: Ma20WithOhlc | null; // 日线不足20条时为 null
+  dailyChart: DailyChartData | null; // 日线不足30条时为 null
+  limitUps: Record<string, LimitUpEvent | null>; // 录入日 YYYY-MM-DD -> 首次涨停
+  error?: string; // 该代码行情获取失败时的说明
+};
+
+/** 批量指标单次最多处理的股票数 */
+export const MAX_INDICATOR_BATCH = 100;
+/** 批量请求 tushare 日线的并发数 */
+export const TUSHARE_CONCURRENCY = 5;
+
+// 按固定并发数依次处理，结果顺序与输入一致（避免同时打满 tushare 频率限制）
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * 由已取到的日线计算单只股票截至 asOf（YYYYMMDD，含；不传为全部日线）的各项指标
+ * upLimits 为 getUpLimits 的结果，回填多个交易日时可共用同一份日线与涨停价
+ */
+export function computeIndicators(
   code: string,
-  tradeDate?: string
-): Promise<{
+  rows: DailyRow[],
+  recordDates: string[],
+  upLimits: Map<string, number>,
+  asOf?: string
+): StockIndicators {
+  const upTo = asOf ? rows.filter((r) => r.trade_date <= asOf) : rows;
+  const limitUps: Record<string, LimitUpEvent | null> = {};
+  for (const d of recordDates) {
+    limitUps[d] = findFirstLimitUp(upTo, d, upLimits);
+  }
+  return {
+    code,
+    ma20: computeMA20WithOhlc(upTo),
+    dailyChart: computeDailyChart(upTo),
+    limitUps,
+  };
+}
+
+/**
+ * 批量获取多只股票的 MA20 状态（含蜡烛图 OHLC）、MA5/MA30 序列及各录入日之后的首次涨停
+ * 每个代码只请求一次日线：区间取「近90天」与「最早录入日至今」的并集，各指标共用
+ * 单个代码失败不影响其他代码，失败信息放在该代码的 error 中
+ */
+export async function getIndicatorsBatch(
+  items: { code: string; recordDate?: string }[]
+): Promise<StockIndicators[]> {
+  const datesByCode = new Map<string, Set<string>>();
+  for (const item of items) {
+    if (!datesByCode.has(item.code)) datesByCode.set(item.code, new Set());
+    if (item.recordDate) datesByCode.get(item.code)!.add(item.recordDate);
+  }
+
+  const today = new Date();
+  const lookback = new Date(today);
+  lookback.setDate(lookback.getDate() - 90);
+
+  return mapWithConcurrency(
+    Array.from(datesByCode.entries()),
+    TUSHARE_CONCURRENCY,
+    async ([code, dates]): Promise<StockIndicators> => {
+      const recordDates = Array.from(dates);
+      try {
+        const tsCode = codeToTsCode(code);
+        if (!tsCode) throw new Error(`无法识别股票代码 ${code}`);
+
+        let startDate = fmtYmd(lookback);
+        for (const d of recordDates) {
+          const ymd = d.replace(/-/g, "");
+          if (ymd < startDate) startDate = ymd;
+        }
+        const rows = (await getDailyRange(tsCode, startDate, fmtYmd(today))) || [];
+        const upLimits = recordDates.length > 0 ? await getUpLimits(tsCode, rows) : new Map();
+        return computeIndicators(code, rows, recordDates, upLimits);
+      } catch (error: any) {
+        console.error(`getIndicatorsBatch [${code}] error:`, error);
+        return {
+          code,
+          ma20: null,
+          dailyChart: null,
+          limitUps: {},
+          error: error?.message || "获取行情数据失败",
+        };
+      }
+    }
+  );
+}
+
+export type StockInfoField = "chg" | "turnover" | "amount" | "debt_ratio";
+
+// 自动补全值的来源：数据接口与数据所属日期（财报为报告期）
+export type StockInfoSource = {
+  source: string; // 如 daily / daily_basic / fina_indicator
+  asOf: string; // YYYY-MM-DD
+  note?: string;
+};
+
+export type StockInfo = {
   name: string;
   industry: string | null;
   chg: number | null;
   turnover: number | null;
-  amount: number | null;
+  amount: number | null; // 总市值（亿元）
+  circ_mv: number | null; // 流通市值（亿元）
   debt_ratio: number | null;
-} | null> {
+  sources: Partial<Record<StockInfoField, StockInfoSource>>;
+};
+
+// YYYYMMDD 加减天数
+function shiftYmd(ymd: string, days: number): string {
+  const d = new Date(Number(ymd.slice(0, 4)), Number(ymd.slice(4, 6)) - 1, Number(ymd.slice(6, 8)));
+  d.setDate(d.getDate() + days);
+  return fmtYmd(d);
+}
+
+// 非交易日或当日数据未更新时，向前最多回看的自然日数
+const DAILY_BASIC_LOOKBACK_DAYS = 15;
+// 财报公告相对报告期有滞后（年报最晚 4 月底），回看约 15 个月覆盖最近一期
+const FINA_LOOKBACK_DAYS = 460;
+
+/**
+ * 根据股票代码获取股票信息（名称、涨幅、换手率、市值、资产负债率）
+ * @param code 6位股票代码
+ * @param tradeDate 交易日期 YYYYMMDD，缺省为今天
+ */
+export async function getStockInfo(
+  code: string,
+  tradeDate?: string
+): Promise<StockInfo | null> {
   try {
     const cleanCode = code.replace(/[^\d]/g, "").padStart(6, "0");
     if (cleanCode.length !== 6) {
@@ -527,36 +657,114 @@ export async function getStockInfo(
       console.error(`代码查询不匹配: 输入 ${cleanCode}, 返回 ${stock.symbol}, 股票名称: ${stock.name}`);
       return null;
     }
-    let chg: number | null = null;
-    let turnover: number | null = null;
-    let amount: number | null = null;
-
-    // 如果有交易日期，获取日线行情
-    if (tradeDate && stock.ts_code) {
-      try {
-        const dailyData = await getDaily(stock.ts_code, tradeDate);
-        if (dailyData && dailyData.length > 0) {
-          const daily = dailyData[0];
-          chg = daily.pct_chg || null;
-          // amount 可以从 daily.amount 获取（成交额，单位：千元）
-          amount = daily.amount ? daily.amount / 100000 : null; // 转换为亿元
-        }
-      } catch (dailyError) {
-        // 日线数据获取失败不影响基本信息返回
-        console.warn("获取日线数据失败:", dailyError);
-      }
-    }
 
-    return {
+    const asOfDate = tradeDate || fmtYmd(new Date());
+    const provider = getMarketDataProvider();
+    const info: StockInfo = {
       name: stock.name,
       industry: stock.industry || null, // 行业信息，可用于板块提示
-      chg,
-      turnover, // 换手率需要从其他接口获取
-      amount,
-      debt_ratio: null, // 资产负债率需要从财务数据接口获取
+      chg: null,
+      turnover: null,
+      amount: null,
+      circ_mv: null,
+      debt_ratio: null,
+      sources: {},
     };
+
+    // 以下三类数据相互独立，任一失败不影响其余字段
+    await Promise.all([
+      // 涨跌幅：仅取指定交易日
+      (async () => {
+        if (!tradeDate) return;
+        try {
+          const daily = (await getDaily(stock.ts_code, tradeDate))[0];
+          if (daily && daily.pct_chg != null) {
+            info.chg = daily.pct_chg;
+            info.sources.chg = { source: "daily", asOf: tradeDateToIso(daily.trade_date) };
+          }
+        } catch (dailyError) {
+          console.warn("获取日线数据失败:", dailyError);
+        }
+      })(),
+      // 换手率、市值：取不晚于交易日的最近一条（非交易日或盘中尚未更新时回退到上一交易日）
+      (async () => {
+        try {
+          const rows = await provider.dailyBasic(
+            stock.ts_code,
+            shiftYmd(asOfDate, -DAILY_BASIC_LOOKBACK_DAYS),
+            asOfDate
+          );
+          const latest = [...rows].sort((a, b) => b.trade_date.localeCompare(a.trade_date))[0];
+          if (!latest) return;
+          const source: StockInfoSource = {
+            source: "daily_basic",
+            asOf: tradeDateToIso(latest.trade_date),
+            note: latest.trade_date !== asOfDate ? "所选日期无数据，使用最近交易日" : undefined,
+          };
+          if (latest.turnover_rate != null) {
+            info.turnover = latest.turnover_rate;
+            info.sources.turnover = source;
+          }
+          if (latest.total_mv != null) {
+            info.amount = latest.total_mv / 10000; // 万元 -> 亿元
+            info.sources.amount = source;
+          }
+          if (latest.circ_mv != null) {
+            info.circ_mv = latest.circ_mv / 10000;
+          }
+        } catch (basicError) {
+          console.warn("获取每日指标失败:", basicError);
+        }
+      })(),
+      // 资产负债率：只用交易日当天已公告的财报，取报告期最新的一期
+      (async () => {
+        try {
+          const reports = await provider.finaIndicator(
+            stock.ts_code,
+            shiftYmd(asOfDate, -FINA_LOOKBACK_DAYS),
+            asOfDate
+          );
+          const latest = reports
+            .filter((r) => r.debt_to_assets != null && r.ann_date && r.ann_date <= asOfDate)
+            .sort(
+              (a, b) => b.end_date.localeCompare(a.end_date) || b.ann_date.localeCompare(a.ann_date)
+            )[0];
+          if (!latest) return;
+          info.debt_ratio = latest.debt_to_assets;
+          info.sources.debt_ratio = {
+            source: "fina_indicator",
+            asOf: tradeDateToIso(latest.end_date),
+            note: `报告期 ${tradeDateToIso(latest.end_date)}，${tradeDateToIso(latest.ann_date)} 公告`,
+          };
+        } catch (finaError) {
+          console.warn("获取财务指标失败:", finaError);
+        }
+      })(),
+    ]);
+
+    return info;
   } catch (error) {
     console.error("获取股票信息失败:", error);
     return null;
   }
 }
+
+/**
+ * 识别板块当日分时形态（水下拉水上 / 波动三角收窄）
+ * @param sector 板块名称
+ * @param date 交易日 YYYY-MM-DD
+ * @returns 没有该板块当日分钟线时返回 null；未配置分钟线来源时抛出 Error
+ */
+export async function suggestSectorPattern(
+  sector: string,
+  date: string
+): Promise<SectorPatternSuggestion | null> {
+  const series = await getMarketDataProvider().sectorMinutes(sector, date.replace(/-/g, ""));
+  if (!series || series.bars.length === 0) return null;
+  return classifySectorPattern({
+    sector,
+    date,
+    preClose: series.pre_close,
+    bars: series.bars,
+  });
+}
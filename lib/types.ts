@@ -1,4 +1,5 @@
 export interface SignalRecord {
+  id?: number; // 数据库主键；新录入尚未保存的记录没有 id
   date: string; // YYYY-MM-DD
   code: string;
   name: string;
@@ -10,6 +11,128 @@ export interface SignalRecord {
   debt_ratio: number | null; // 资产负债率 %
   score: number;
   reason: string[];
+  rule_set_version?: number | null; // 产生 score / reason 的评分规则版本；null 表示旧数据未记录
+  forward?: ForwardReturn | null; // 后续表现，尚未评估时为 null
+  note?: string | null; // 复盘笔记
+  tags?: string[]; // 标签
+}
+
+// 修改复盘笔记与标签（不重新评分）；note 传 null 或空字符串清空
+export interface SignalNotesPatch {
+  note?: string | null;
+  tags?: string[];
+}
+
+// ================= 后续表现（录入后 T+N 个交易日）=================
+
+export type ForwardHorizon = 1 | 3 | 5 | 10;
+
+// 后 N 个交易日的表现，均为相对录入日收盘价的涨跌幅 %
+export interface ForwardWindow {
+  close: number; // 第 N 日收盘
+  max_high: number; // 区间最高价
+  max_drawdown: number; // 区间最低价（最大回撤，通常为负）
+}
+
+export interface ForwardReturn {
+  base_close: number; // 录入日（或之前最近交易日）收盘价
+  days: number; // 录入日之后已有的交易日数（最多 10）
+  next_open: number | null; // 次日开盘 %
+  windows: Record<ForwardHorizon, ForwardWindow | null>; // 交易日不足 N 天时为 null
+}
+
+// 按评分档 / 板块分时分组的后续表现统计
+export interface ForwardReturnStat {
+  group: string;
+  count: number; // 已评估的记录数
+  next_open: number | null; // 平均次日开盘 %
+  horizons: Record<
+    ForwardHorizon,
+    {
+      samples: number; // 交易日已满 N 天的记录数
+      avg_close: number | null;
+      win_rate: number | null; // 第 N 日收盘为正的比例 %
+      avg_max_high: number | null;
+      avg_max_drawdown: number | null;
+    }
+  >;
+}
+
+// 批量录入时遇到已存在的「日期 + 代码」记录的处理方式
+//   skip          : 保留已有记录，跳过本次数据
+//   overwrite     : 用本次数据整体覆盖已有记录
+//   merge-nonnull : 仅用本次数据中的非空字段覆盖已有记录
+export type UpsertPolicy = "skip" | "overwrite" | "merge-nonnull";
+
+export interface UpsertResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+// ================= 评分规则 =================
+
+// 规则可引用的 SignalRecord 字段
+export type ScoringField = "sector_pattern" | "turnover" | "chg" | "amount" | "debt_ratio";
+
+//   eq / neq        : 等于 / 不等于 value（数值或文本）
+//   gte / gt / lte / lt : 数值比较，字段为空时不满足
+//   missing / present   : 字段为空 / 非空，不需要 value
+export type ScoringOperator = "eq" | "neq" | "gte" | "gt" | "lte" | "lt" | "missing" | "present";
+
+export interface ScoringCondition {
+  field: ScoringField;
+  op: ScoringOperator;
+  value?: number | string | null;
+}
+
+export interface ScoringRule {
+  label: string; // 评分原因文案，可用 {turnover} 等字段名占位
+  points: number; // 命中加分（可为负数）
+  conditions: ScoringCondition[]; // 全部满足才算命中
+  group?: string | null; // 同组规则按顺序只取第一条命中（用于阶梯档位）
+}
+
+export interface ScoringRuleSet {
+  version: number;
+  name: string;
+  rules: ScoringRule[];
+  active: boolean; // 当前用于评分的版本（仅一个）
+  createdAt: string;
+}
+
+// GET /api/signals 支持的排序字段
+export type SignalSortKey =
+  | "date"
+  | "code"
+  | "name"
+  | "score"
+  | "turnover"
+  | "chg"
+  | "amount"
+  | "debt_ratio";
+
+// GET /api/signals 查询条件（均可选）
+export interface SignalQuery {
+  code?: string; // 精确匹配 6 位代码
+  q?: string; // 模糊搜索代码 / 名称 / 板块
+  sector?: string; // 精确匹配某个板块
+  sector_pattern?: "水下拉水上" | "波动三角收窄" | "none";
+  scoreMin?: number;
+  scoreMax?: number;
+  from?: string; // YYYY-MM-DD（含）
+  to?: string; // YYYY-MM-DD（含）
+  watch?: WatchlistState | "any"; // 只看关注列表中处于该状态的股票
+  sort?: SignalSortKey;
+  order?: "asc" | "desc";
+  limit?: number; // 传入时按页返回 SignalPage
+  cursor?: number; // 上一页返回的 nextCursor
+}
+
+export interface SignalPage {
+  items: SignalRecord[];
+  nextCursor: number | null; // 为 null 表示没有下一页
+  total: number; // 满足筛选条件的总条数
 }
 
 export interface DailySummary {
@@ -21,11 +144,22 @@ export interface DailySummary {
   records: SignalRecord[];
 }
 
+// 板块对应指数的行情摘要（来自已同步的指数日线）
+export interface SectorMarket {
+  indexCode: string;
+  indexName: string;
+  tradeDate: string; // 最近一根日线的交易日 YYYY-MM-DD
+  pctChg: number | null; // 当日涨跌幅 %
+  momentum5: number | null; // 近 5 个交易日涨幅 %
+  bars: { date: string; open: number; high: number; low: number; close: number }[]; // 近 20 日，用于迷你K线
+}
+
 export interface SectorStat {
   sector: string;
   count: number;
   topRecords: SignalRecord[];
   avgScore: number;
+  market: SectorMarket | null; // 未映射到指数或尚未同步日线时为 null
 }
 
 export interface StockHistory {
@@ -37,12 +171,259 @@ export interface StockHistory {
   avgTurnover: number | null;
   avgScore: number;
   maxScore: number;
-  noteSummary: string[];
+  noteSummary: string[]; // 各次出现的复盘笔记「日期：笔记」，新的在前
+  tagSummary: { tag: string; count: number }[]; // 标签及出现次数，多的在前
 }
 
-// 每个「日期 + 板块」对应一张分时截图（Data URL）
+// 板块分时截图（同一「日期 + 板块」可有多张），图片存于文件存储，这里只有元数据与访问地址
 export interface SectorScreenshot {
+  id: number;
   date: string;   // YYYY-MM-DD
   sector: string; // 板块名称（需与 SignalRecord.sector 中一致）
+  captureTime: string; // 截图对应的盘中时间 HH:mm
+  caption: string | null;
+  sortOrder: number; // 同一日期 + 板块内的展示顺序，越小越靠前
+  imageUrl: string; // 原图地址
+  thumbnailUrl: string; // 缩略图地址（宽 480）
+  width: number | null;
+  height: number | null;
+  size: number | null; // 原图字节数
+}
+
+// 上传截图：前端粘贴得到的 Data URL，服务端写入文件存储
+export interface SectorScreenshotUpload {
+  date: string;
+  sector: string;
   imageDataUrl: string;
+  captureTime?: string; // 默认 15:00
+  caption?: string;
+}
+
+// 修改截图的时间或说明
+export type SectorScreenshotPatch = Partial<Pick<SectorScreenshot, "captureTime" | "caption">>;
+
+export type ReviewVerdictKind = "优先" | "观察" | "回避";
+
+// 复盘智囊对单只个股的结论及次一交易日表现
+export interface ReviewVerdict {
+  code: string;
+  name: string | null;
+  verdict: ReviewVerdictKind;
+  reason: string;
+  grade: {
+    trade_date: string; // 次一交易日 YYYY-MM-DD
+    next_open: number | null; // 相对复盘日收盘 %
+    next_high: number | null;
+    next_low: number | null;
+    next_close: number | null;
+    hit: boolean | null; // 优先且收涨、回避且收跌为命中；观察为 null
+  } | null; // 尚未评估
+}
+
+// 复盘智囊的一次生成记录
+export interface ReviewSession {
+  id: number;
+  date: string; // YYYY-MM-DD
+  model: string;
+  recordIds: number[]; // 生成时使用的当日信号记录
+  screenshotIds: number[]; // 生成时使用的板块截图（按发送顺序）
+  output: string; // 总体判断；旧版记录为自由文本
+  verdicts: ReviewVerdict[]; // 结构化结论（旧版记录为空）
+  status: ReviewSessionStatus;
+  createdAt: string;
+}
+
+// complete 正常结束；cancelled 用户取消、interrupted 输出中断，两者只保存了部分输出
+export type ReviewSessionStatus = "complete" | "cancelled" | "interrupted";
+
+// 历史列表中的摘要（不含完整输出）
+export type ReviewSessionSummary = Omit<ReviewSession, "output" | "verdicts"> & {
+  preview: string; // 输出的前 80 个字符
+  verdictCount: number;
+};
+
+// AI 结论命中率（按结论分组，每个日期只取最近一次生成）
+export interface ReviewHitStat {
+  verdict: ReviewVerdictKind;
+  count: number; // 结论条数
+  graded: number; // 已有次日行情的条数
+  hits: number;
+  hit_rate: number | null; // 命中比例 %（观察为 null）
+  avg_next_close: number | null; // 平均次日收盘涨跌幅 %
+}
+
+// 当前 AI 模型配置摘要（见 lib/llm.ts）
+export interface AIModelInfo {
+  model: string;
+  vision: boolean; // 是否支持图片输入；不支持时复盘智囊不发送板块截图
+  local: boolean; // 是否为本机服务
+  error: string | null; // 配置不可用的原因（如缺少 API Key）
+}
+
+// 询问 AI 的对话消息；status 与 ReviewSessionStatus 含义相同（回答被取消或中断时只保存了部分）
+export interface ChatMessage {
+  id: number;
+  role: "user" | "assistant";
+  content: string;
+  status: ReviewSessionStatus;
+  tools: string[]; // 生成回答时调用过的工具名
+  createdAt: string;
+}
+
+// 询问 AI 的对话，可关联交易日或个股代码
+export interface ChatThread {
+  id: number;
+  title: string;
+  date: string | null; // YYYY-MM-DD
+  code: string | null;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 对话列表中的摘要（不含消息）
+export type ChatThreadSummary = Omit<ChatThread, "messages"> & {
+  messageCount: number;
+  preview: string; // 最后一条消息的前 60 个字符
+};
+
+export type TradeSide = "buy" | "sell";
+
+// 一笔实际成交；signal 为关联的信号记录摘要
+export interface Trade {
+  id: number;
+  code: string;
+  name: string | null;
+  side: TradeSide;
+  price: number;
+  quantity: number;
+  fees: number;
+  tradedAt: string; // ISO 时间
+  signalId: number | null;
+  signal: Pick<SignalRecord, "date" | "code" | "name" | "sector_pattern"> | null;
+  createdAt: string;
+}
+
+// 新增/修改成交的请求体；signalId 为 null 时取消关联
+export interface TradeInput {
+  code?: string;
+  name?: string | null;
+  side?: TradeSide;
+  price?: number;
+  quantity?: number;
+  fees?: number;
+  tradedAt?: string;
+  signalId?: number | null;
+}
+
+// 按信号来源（关联信号的板块分时形态，未关联的单独一组）汇总的交易表现
+export interface TradeSourceStat {
+  source: string;
+  buys: number; // 买入笔数
+  closedLots: number; // 已全部卖出的买入笔数，胜率与持有天数按此统计
+  wins: number;
+  winRate: number | null; // %
+  avgHoldingDays: number | null; // 自然日
+  realizedPnl: number;
+  unrealizedPnl: number | null; // 有持仓但取不到收盘价时为 null
+  openQuantity: number;
+}
+
+// 单只股票的持仓与盈亏（剩余仓位按最近收盘价估值）
+export interface TradePosition {
+  code: string;
+  name: string | null;
+  openQuantity: number;
+  avgCost: number | null; // 剩余持仓的每股成本（含买入费用）
+  markPrice: number | null;
+  markDate: string | null; // 估值所用收盘价的交易日 YYYY-MM-DD
+  realizedPnl: number;
+  unrealizedPnl: number | null;
+}
+
+export interface TradeJournal {
+  totals: TradeSourceStat;
+  sources: TradeSourceStat[];
+  positions: TradePosition[];
+  warnings: string[]; // 卖出数量超过持仓、取不到收盘价等
+}
+
+export type WatchlistState = "观察" | "计划" | "持有" | "卖出" | "淘汰";
+
+// 关注状态的一次变更；from 为 null 表示加入关注
+export interface WatchlistTransition {
+  id: number;
+  from: WatchlistState | null;
+  to: WatchlistState;
+  reason: string;
+  createdAt: string;
+}
+
+// 关注列表中的一只股票，transitions 按时间先后排列
+export interface WatchlistItem {
+  id: number;
+  code: string;
+  name: string | null;
+  state: WatchlistState;
+  transitions: WatchlistTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertKind = "ma20_cross_up" | "ma20_cross_down" | "ma5_near_ma30" | "limit_up";
+
+// 指标提醒规则；code 为 null 表示全局规则
+export interface AlertRule {
+  id: number;
+  code: string | null;
+  kind: AlertKind;
+  threshold: number | null; // ma5_near_ma30 的接近阈值（%），null 取默认值
+  enabled: boolean;
+  createdAt: string;
+}
+
+// 新增/修改提醒规则的请求体
+export interface AlertRuleInput {
+  code?: string | null;
+  kind?: AlertKind;
+  threshold?: number | null;
+  enabled?: boolean;
+}
+
+// 一条触发的提醒；tradeDate 为触发所在交易日
+export interface AlertEvent {
+  id: number;
+  ruleId: number;
+  code: string;
+  name: string | null;
+  kind: AlertKind;
+  tradeDate: string; // YYYY-MM-DD
+  message: string;
+  read: boolean;
+  createdAt: string;
+}
+
+// 一次收盘后评估的结果
+export interface AlertEvaluation {
+  checked: number; // 评估的股票数
+  triggered: number; // 新增的提醒数
+  failed: string[]; // 取不到行情的股票代码
+}
+
+// 收盘任务某个交易日的执行结果
+export interface EodJobRun {
+  tradeDate: string; // YYYY-MM-DD
+  status: "success" | "failed";
+  codes: number;
+  saved: number;
+  failed: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+// 一次收盘任务（或回填）的汇总
+export interface EodJobResult {
+  runs: EodJobRun[]; // 按交易日先后
+  failedCodes: string[]; // 行情获取失败的股票代码
 }
@@ -0,0 +1,125 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { isWatchlistState } from "./watchlist";
+import type { WatchlistItem, WatchlistState } from "./types";
+
+/**
+ * 关注列表的读写（服务端）；状态流转规则见 lib/watchlist.ts
+ */
+
+const MAX_NAME_LENGTH = 64;
+
+const ITEM_INCLUDE = {
+  transitions: { orderBy: { id: "asc" } },
+} satisfies Prisma.WatchlistItemInclude;
+
+type WatchlistItemWithTransitions = Prisma.WatchlistItemGetPayload<{
+  include: typeof ITEM_INCLUDE;
+}>;
+
+function toWatchlistItem(row: WatchlistItemWithTransitions): WatchlistItem {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    state: row.state as WatchlistState,
+    transitions: row.transitions.map((t) => ({
+      id: t.id,
+      from: isWatchlistState(t.fromState) ? t.fromState : null,
+      to: t.toState as WatchlistState,
+      reason: t.reason,
+      createdAt: t.createdAt.toISOString(),
+    })),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * 关注列表（最近变更的在前），可按状态或代码筛选
+ */
+export async function listWatchlist(filter: {
+  state?: WatchlistState;
+  code?: string;
+} = {}): Promise<WatchlistItem[]> {
+  const rows = await prisma.watchlistItem.findMany({
+    where: { state: filter.state, code: filter.code || undefined },
+    orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+    include: ITEM_INCLUDE,
+  });
+  return rows.map(toWatchlistItem);
+}
+
+/**
+ * 处于某个状态（"any" 为任意状态）的股票代码，供信号列表按关注状态筛选
+ */
+export async function listWatchlistCodes(state: WatchlistState | "any"): Promise<string[]> {
+  const rows = await prisma.watchlistItem.findMany({
+    where: state === "any" ? {} : { state },
+    select: { code: true },
+  });
+  return rows.map((r) => r.code);
+}
+
+// 单只股票，不存在时返回 null
+export async function getWatchlistItem(id: number): Promise<WatchlistItem | null> {
+  const row = await prisma.watchlistItem.findUnique({ where: { id }, include: ITEM_INCLUDE });
+  return row ? toWatchlistItem(row) : null;
+}
+
+/**
+ * 加入关注（初始状态默认为观察），同一代码已在列表中时返回 null
+ */
+export async function addToWatchlist(input: {
+  code: string;
+  name?: string | null;
+  state?: WatchlistState;
+  reason: string;
+}): Promise<WatchlistItem | null> {
+  const existing = await prisma.watchlistItem.findUnique({
+    where: { code: input.code },
+    select: { id: true },
+  });
+  if (existing) return null;
+  const state = input.state ?? "观察";
+  const row = await prisma.watchlistItem.create({
+    data: {
+      code: input.code,
+      name: input.name ? input.name.trim().slice(0, MAX_NAME_LENGTH) || null : null,
+      state,
+      transitions: { create: { fromState: null, toState: state, reason: input.reason } },
+    },
+    include: ITEM_INCLUDE,
+  });
+  return toWatchlistItem(row);
+}
+
+/**
+ * 从 from 变更为 to 并记录原因（调用方先用 checkWatchlistTransition 校验）
+ * 只在当前状态仍为 from 时更新；记录不存在或状态已被其他请求修改时返回 null
+ */
+export async function transitionWatchlistItem(
+  id: number,
+  from: WatchlistState,
+  to: WatchlistState,
+  reason: string
+): Promise<WatchlistItem | null> {
+  const row = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.watchlistItem.updateMany({
+      where: { id, state: from },
+      data: { state: to },
+    });
+    if (count === 0) return null;
+    await tx.watchlistTransition.create({
+      data: { itemId: id, fromState: from, toState: to, reason },
+    });
+    return tx.watchlistItem.findUniqueOrThrow({ where: { id }, include: ITEM_INCLUDE });
+  });
+  return row ? toWatchlistItem(row) : null;
+}
+
+// 移出关注（连同变更记录），不存在时返回 false
+export async function removeFromWatchlist(id: number): Promise<boolean> {
+  const { count } = await prisma.watchlistItem.deleteMany({ where: { id } });
+  return count > 0;
+}
@@ -0,0 +1,49 @@
+import type { WatchlistState } from "./types";
+
+/**
+ * 关注列表的状态流转（前后端共用）：观察 → 计划 → 持有 → 卖出 / 淘汰
+ * 每次变更都需填写原因；卖出或淘汰后可重新加入观察
+ */
+
+export const WATCHLIST_STATES: WatchlistState[] = ["观察", "计划", "持有", "卖出", "淘汰"];
+
+// 各状态允许流转到的下一状态
+export const WATCHLIST_TRANSITIONS: Record<WatchlistState, WatchlistState[]> = {
+  观察: ["计划", "持有", "淘汰"],
+  计划: ["持有", "观察", "淘汰"],
+  持有: ["卖出"],
+  卖出: ["观察"],
+  淘汰: ["观察"],
+};
+
+const MAX_REASON_LENGTH = 500;
+
+export function isWatchlistState(value: unknown): value is WatchlistState {
+  return WATCHLIST_STATES.includes(value as WatchlistState);
+}
+
+/**
+ * 校验流转原因，返回去除首尾空白后的原因；为空或过长时抛出带中文说明的 Error
+ */
+export function toTransitionReason(value: unknown): string {
+  const reason = typeof value === "string" ? value.trim() : "";
+  if (!reason) throw new Error("请填写状态变更原因");
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new Error(`原因不能超过 ${MAX_REASON_LENGTH} 字`);
+  }
+  return reason;
+}
+
+/**
+ * 检查状态流转是否允许，不允许时返回错误说明
+ */
+export function checkWatchlistTransition(
+  from: WatchlistState,
+  to: WatchlistState
+): string | null {
+  if (from === to) return `当前已是「${to}」`;
+  if (!WATCHLIST_TRANSITIONS[from].includes(to)) {
+    return `不能从「${from}」变更为「${to}」，可选：${WATCHLIST_TRANSITIONS[from].join("、")}`;
+  }
+  return null;
+}
@@ -0,0 +1,23 @@
+-- 合并重复记录：每组 (date, code) 保留 id 最大（最新录入）的一条，其空字段用同组旧记录补齐
+UPDATE `signal_records` AS `k`
+    JOIN (
+        SELECT `date`, `code`, MAX(`id`) AS `keep_id`
+        FROM `signal_records`
+        GROUP BY `date`, `code`
+        HAVING COUNT(*) > 1
+    ) AS `g` ON `k`.`id` = `g`.`keep_id`
+    JOIN `signal_records` AS `o`
+        ON `o`.`date` = `g`.`date` AND `o`.`code` = `g`.`code` AND `o`.`id` <> `g`.`keep_id`
+SET `k`.`sectorPattern` = COALESCE(`k`.`sectorPattern`, `o`.`sectorPattern`),
+    `k`.`turnover` = COALESCE(`k`.`turnover`, `o`.`turnover`),
+    `k`.`chg` = COALESCE(`k`.`chg`, `o`.`chg`),
+    `k`.`amount` = COALESCE(`k`.`amount`, `o`.`amount`),
+    `k`.`debtRatio` = COALESCE(`k`.`debtRatio`, `o`.`debtRatio`);
+
+-- 删除被合并的旧记录
+DELETE `o` FROM `signal_records` AS `o`
+    JOIN `signal_records` AS `k`
+        ON `k`.`date` = `o`.`date` AND `k`.`code` = `o`.`code` AND `k`.`id` > `o`.`id`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `signal_records_date_code_key` ON `signal_records`(`date`, `code`);
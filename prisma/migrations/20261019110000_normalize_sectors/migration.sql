@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE `sectors` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(64) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `sectors_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `signal_sectors` (
+    `signal_id` INTEGER NOT NULL,
+    `sector_id` INTEGER NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `signal_sectors_sector_id_idx`(`sector_id`),
+    PRIMARY KEY (`signal_id`, `sector_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `signal_sectors` ADD CONSTRAINT `signal_sectors_signal_id_fkey` FOREIGN KEY (`signal_id`) REFERENCES `signal_records`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `signal_sectors` ADD CONSTRAINT `signal_sectors_sector_id_fkey` FOREIGN KEY (`sector_id`) REFERENCES `sectors`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 数据迁移：把 signal_records.sector 中「、」分隔的板块拆分为 (记录 id, 板块名, 顺序)
+CREATE TEMPORARY TABLE `_signal_sector_split`
+WITH RECURSIVE `split` (`signal_id`, `name`, `rest`, `position`) AS (
+    SELECT
+        `id`,
+        CAST(SUBSTRING_INDEX(`sector`, '、', 1) AS CHAR(255)),
+        CAST(IF(LOCATE('、', `sector`) > 0, SUBSTRING(`sector`, LOCATE('、', `sector`) + 1), '') AS CHAR(255)),
+        0
+    FROM `signal_records`
+    WHERE `sector` <> ''
+    UNION ALL
+    SELECT
+        `signal_id`,
+        CAST(SUBSTRING_INDEX(`rest`, '、', 1) AS CHAR(255)),
+        CAST(IF(LOCATE('、', `rest`) > 0, SUBSTRING(`rest`, LOCATE('、', `rest`) + 1), '') AS CHAR(255)),
+        `position` + 1
+    FROM `split`
+    WHERE `rest` <> ''
+)
+SELECT `signal_id`, LEFT(TRIM(`name`), 64) AS `name`, `position`
+FROM `split`
+WHERE TRIM(`name`) <> '';
+
+INSERT INTO `sectors` (`name`)
+SELECT DISTINCT `name` FROM `_signal_sector_split`;
+
+INSERT INTO `signal_sectors` (`signal_id`, `sector_id`, `position`)
+SELECT `t`.`signal_id`, `s`.`id`, MIN(`t`.`position`)
+FROM `_signal_sector_split` AS `t`
+    JOIN `sectors` AS `s` ON `s`.`name` = `t`.`name`
+GROUP BY `t`.`signal_id`, `s`.`id`;
+
+DROP TEMPORARY TABLE `_signal_sector_split`;
+
+-- AlterTable
+ALTER TABLE `signal_records` DROP COLUMN `sector`;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `scoring_rule_sets` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `version` INTEGER NOT NULL,
+    `name` VARCHAR(64) NOT NULL,
+    `rules` TEXT NOT NULL,
+    `active` BOOLEAN NOT NULL DEFAULT false,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `scoring_rule_sets_version_key`(`version`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `signal_records` ADD COLUMN `rule_set_version` INTEGER NULL;
+
+-- AddForeignKey
+ALTER TABLE `signal_records` ADD CONSTRAINT `signal_records_rule_set_version_fkey` FOREIGN KEY (`rule_set_version`) REFERENCES `scoring_rule_sets`(`version`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 初始版本：与原先写死在 lib/scoring.ts 中的评分逻辑一致
+-- 已有记录的 rule_set_version 保持 NULL（无法确认当时的评分来源）
+INSERT INTO `scoring_rule_sets` (`version`, `name`, `rules`, `active`)
+VALUES (1, '默认规则', '[{"label": "板块分时：水下拉水上", "points": 30, "group": "sector_pattern", "conditions": [{"field": "sector_pattern", "op": "eq", "value": "水下拉水上"}]}, {"label": "板块分时：波动三角收窄", "points": 20, "group": "sector_pattern", "conditions": [{"field": "sector_pattern", "op": "eq", "value": "波动三角收窄"}]}, {"label": "板块分时信息缺失", "points": 0, "group": "sector_pattern", "conditions": [{"field": "sector_pattern", "op": "missing"}]}, {"label": "换手率{turnover}% >= 8%", "points": 30, "group": "turnover", "conditions": [{"field": "turnover", "op": "gte", "value": 8}]}, {"label": "换手率{turnover}% >= 5%", "points": 20, "group": "turnover", "conditions": [{"field": "turnover", "op": "gte", "value": 5}]}, {"label": "换手率{turnover}% >= 3%", "points": 10, "group": "turnover", "conditions": [{"field": "turnover", "op": "gte", "value": 3}]}, {"label": "换手率信息缺失", "points": 0, "group": "turnover", "conditions": [{"field": "turnover", "op": "missing"}]}]', true);
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `signal_forward_returns` (
+    `signal_id` INTEGER NOT NULL,
+    `base_close` DOUBLE NOT NULL,
+    `days` INTEGER NOT NULL,
+    `next_open` DOUBLE NULL,
+    `ret_1` DOUBLE NULL,
+    `max_high_1` DOUBLE NULL,
+    `max_drawdown_1` DOUBLE NULL,
+    `ret_3` DOUBLE NULL,
+    `max_high_3` DOUBLE NULL,
+    `max_drawdown_3` DOUBLE NULL,
+    `ret_5` DOUBLE NULL,
+    `max_high_5` DOUBLE NULL,
+    `max_drawdown_5` DOUBLE NULL,
+    `ret_10` DOUBLE NULL,
+    `max_high_10` DOUBLE NULL,
+    `max_drawdown_10` DOUBLE NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`signal_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `signal_forward_returns` ADD CONSTRAINT `signal_forward_returns_signal_id_fkey` FOREIGN KEY (`signal_id`) REFERENCES `signal_records`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
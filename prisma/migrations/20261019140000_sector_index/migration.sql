@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE `sectors` ADD COLUMN `index_code` VARCHAR(16) NULL,
+    ADD COLUMN `index_name` VARCHAR(64) NULL,
+    ADD COLUMN `index_source` VARCHAR(8) NULL,
+    ADD COLUMN `index_manual` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `sectors_index_code_idx` ON `sectors`(`index_code`);
+
+-- CreateTable
+CREATE TABLE `sector_index_daily` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `ts_code` VARCHAR(16) NOT NULL,
+    `trade_date` DATE NOT NULL,
+    `open` DOUBLE NOT NULL,
+    `high` DOUBLE NOT NULL,
+    `low` DOUBLE NOT NULL,
+    `close` DOUBLE NOT NULL,
+    `pre_close` DOUBLE NULL,
+    `pct_chg` DOUBLE NULL,
+    `vol` DOUBLE NULL,
+
+    INDEX `sector_index_daily_trade_date_idx`(`trade_date`),
+    UNIQUE INDEX `sector_index_daily_ts_code_trade_date_key`(`ts_code`, `trade_date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
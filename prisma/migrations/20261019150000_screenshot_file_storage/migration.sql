@@ -0,0 +1,11 @@
+-- AlterTable: 截图改为文件存储，旧的 imageData 保留为可空，
+-- 由服务启动时的后台迁移（或调用 POST /api/sector-screenshots/migrate）写入文件存储后清空
+ALTER TABLE `sector_screenshots` MODIFY `imageData` LONGTEXT NULL,
+    ADD COLUMN `hash` CHAR(64) NULL,
+    ADD COLUMN `mime_type` VARCHAR(32) NULL,
+    ADD COLUMN `width` INTEGER NULL,
+    ADD COLUMN `height` INTEGER NULL,
+    ADD COLUMN `size` INTEGER NULL;
+
+-- CreateIndex
+CREATE INDEX `sector_screenshots_hash_idx` ON `sector_screenshots`(`hash`);
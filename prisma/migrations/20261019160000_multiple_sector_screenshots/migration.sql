@@ -0,0 +1,13 @@
+-- AlterTable: 同一日期 + 板块允许多张截图；已有截图的时间记为收盘 15:00
+ALTER TABLE `sector_screenshots` ADD COLUMN `capture_time` CHAR(5) NOT NULL DEFAULT '15:00',
+    ADD COLUMN `caption` VARCHAR(200) NULL,
+    ADD COLUMN `sort_order` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX `sector_screenshots_date_sector_idx` ON `sector_screenshots`(`date`, `sector`);
+
+-- DropIndex
+DROP INDEX `sector_screenshots_date_sector_key` ON `sector_screenshots`;
+
+-- DropIndex
+DROP INDEX `sector_screenshots_date_idx` ON `sector_screenshots`;
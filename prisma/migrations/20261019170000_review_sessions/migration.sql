@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `review_sessions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `date` DATE NOT NULL,
+    `model` VARCHAR(64) NOT NULL,
+    `record_ids` TEXT NOT NULL,
+    `screenshot_ids` TEXT NOT NULL,
+    `output` TEXT NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `review_sessions_date_idx`(`date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `review_verdicts` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `session_id` INTEGER NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `code` VARCHAR(10) NOT NULL,
+    `name` VARCHAR(32) NULL,
+    `verdict` VARCHAR(8) NOT NULL,
+    `reason` VARCHAR(500) NOT NULL,
+    `trade_date` DATE NULL,
+    `next_open` DOUBLE NULL,
+    `next_high` DOUBLE NULL,
+    `next_low` DOUBLE NULL,
+    `next_close` DOUBLE NULL,
+    `hit` BOOLEAN NULL,
+    `graded_at` DATETIME(3) NULL,
+
+    INDEX `review_verdicts_session_id_idx`(`session_id`),
+    INDEX `review_verdicts_graded_at_idx`(`graded_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `review_verdicts` ADD CONSTRAINT `review_verdicts_session_id_fkey` FOREIGN KEY (`session_id`) REFERENCES `review_sessions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
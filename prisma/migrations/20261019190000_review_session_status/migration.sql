@@ -0,0 +1,2 @@
+-- AlterTable: 流式生成被取消或中断时保存部分输出
+ALTER TABLE `review_sessions` ADD COLUMN `status` VARCHAR(16) NOT NULL DEFAULT 'complete';
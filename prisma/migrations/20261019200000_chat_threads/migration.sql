@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE `chat_threads` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `title` VARCHAR(100) NOT NULL,
+    `date` DATE NULL,
+    `code` VARCHAR(16) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `chat_threads_date_idx`(`date`),
+    INDEX `chat_threads_code_idx`(`code`),
+    INDEX `chat_threads_updated_at_idx`(`updated_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `chat_messages` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `thread_id` INTEGER NOT NULL,
+    `role` VARCHAR(16) NOT NULL,
+    `content` TEXT NOT NULL,
+    `status` VARCHAR(16) NOT NULL DEFAULT 'complete',
+    `tools` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `chat_messages_thread_id_idx`(`thread_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `chat_messages` ADD CONSTRAINT `chat_messages_thread_id_fkey` FOREIGN KEY (`thread_id`) REFERENCES `chat_threads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
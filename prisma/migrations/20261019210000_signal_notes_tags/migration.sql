@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `signal_records` ADD COLUMN `note` TEXT NULL,
+    ADD COLUMN `tags` TEXT NULL;
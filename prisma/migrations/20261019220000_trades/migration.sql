@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `trades` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(16) NOT NULL,
+    `name` VARCHAR(64) NULL,
+    `side` VARCHAR(8) NOT NULL,
+    `price` DOUBLE NOT NULL,
+    `quantity` INTEGER NOT NULL,
+    `fees` DOUBLE NOT NULL DEFAULT 0,
+    `traded_at` DATETIME(3) NOT NULL,
+    `signal_id` INTEGER NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `trades_code_idx`(`code`),
+    INDEX `trades_traded_at_idx`(`traded_at`),
+    INDEX `trades_signal_id_idx`(`signal_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `trades` ADD CONSTRAINT `trades_signal_id_fkey` FOREIGN KEY (`signal_id`) REFERENCES `signal_records`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
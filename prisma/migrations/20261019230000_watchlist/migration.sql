@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `watchlist_items` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(16) NOT NULL,
+    `name` VARCHAR(64) NULL,
+    `state` VARCHAR(8) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `watchlist_items_code_key`(`code`),
+    INDEX `watchlist_items_state_idx`(`state`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `watchlist_transitions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `item_id` INTEGER NOT NULL,
+    `from_state` VARCHAR(8) NULL,
+    `to_state` VARCHAR(8) NOT NULL,
+    `reason` VARCHAR(500) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `watchlist_transitions_item_id_idx`(`item_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `watchlist_transitions` ADD CONSTRAINT `watchlist_transitions_item_id_fkey` FOREIGN KEY (`item_id`) REFERENCES `watchlist_items`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE `alert_rules` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(16) NULL,
+    `kind` VARCHAR(32) NOT NULL,
+    `threshold` DOUBLE NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `alert_rules_code_idx`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `alert_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `rule_id` INTEGER NOT NULL,
+    `code` VARCHAR(16) NOT NULL,
+    `name` VARCHAR(64) NULL,
+    `kind` VARCHAR(32) NOT NULL,
+    `trade_date` DATE NOT NULL,
+    `message` VARCHAR(255) NOT NULL,
+    `read_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `alert_events_read_at_idx`(`read_at`),
+    INDEX `alert_events_created_at_idx`(`created_at`),
+    UNIQUE INDEX `alert_events_rule_id_code_trade_date_key`(`rule_id`, `code`, `trade_date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `alert_events` ADD CONSTRAINT `alert_events_rule_id_fkey` FOREIGN KEY (`rule_id`) REFERENCES `alert_rules`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE `indicator_snapshots` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(16) NOT NULL,
+    `trade_date` DATE NOT NULL,
+    `ma20` TEXT NULL,
+    `daily_chart` TEXT NULL,
+    `limit_ups` TEXT NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `indicator_snapshots_trade_date_idx`(`trade_date`),
+    UNIQUE INDEX `indicator_snapshots_code_trade_date_key`(`code`, `trade_date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `eod_job_runs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `trade_date` DATE NOT NULL,
+    `status` VARCHAR(16) NOT NULL,
+    `codes` INTEGER NOT NULL DEFAULT 0,
+    `saved` INTEGER NOT NULL DEFAULT 0,
+    `failed` INTEGER NOT NULL DEFAULT 0,
+    `error` VARCHAR(500) NULL,
+    `started_at` DATETIME(3) NOT NULL,
+    `finished_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `eod_job_runs_trade_date_key`(`trade_date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- AlterTable: 记录旧版截图迁移失败的时间，批量迁移时跳过，避免反复重试同一批损坏数据
+ALTER TABLE `sector_screenshots` ADD COLUMN `migrate_failed_at` DATETIME(3) NULL;
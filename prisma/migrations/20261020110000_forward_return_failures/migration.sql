@@ -0,0 +1,2 @@
+-- AlterTable: 记录取不到后续表现行情的时间，退避期内跳过，避免长期失败的记录占满每一批评估
+ALTER TABLE `signal_records` ADD COLUMN `forward_failed_at` DATETIME(3) NULL;
@@ -0,0 +1,2 @@
+-- AlterTable: 记录结论评估失败的时间，当天不再重试，避免评估不了的结论占满每一批
+ALTER TABLE `review_verdicts` ADD COLUMN `grade_failed_at` DATETIME(3) NULL;